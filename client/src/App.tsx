@@ -15,6 +15,7 @@ import LearnerAnalytics from "@/pages/learner-analytics";
 import LearnerProfile from "@/pages/learner-profile";
 import LearnerSettings from "@/pages/learner-settings";
 import LearnerHelp from "@/pages/learner-help";
+import FlashcardReview from "@/pages/flashcard-review";
 
 function Router() {
   return (
@@ -28,6 +29,7 @@ function Router() {
       <Route path="/learner/profile" component={LearnerProfile} />
       <Route path="/learner/settings" component={LearnerSettings} />
       <Route path="/learner/help" component={LearnerHelp} />
+      <Route path="/learner/flashcards" component={FlashcardReview} />
       <Route path="/courses/:id/edit" component={CourseEditor} />
       <Route path="/courses/:id" component={CourseViewer} />
       <Route component={NotFound} />
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -10,7 +10,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import OutlineReview from "@/components/outline-review";
+import { QUESTION_TYPE_LABELS } from "@/components/quiz-editor-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { 
   FileText, 
@@ -26,6 +28,7 @@ import {
   FileType,
   X
 } from "lucide-react";
+import { DEFAULT_QUIZ_QUESTION_TYPES, QUIZ_QUESTION_TYPES, type AiUsageSummary, type GenerationSummary, type JobProgressDetail } from "@shared/schema";
 
 interface Document {
   id: string;
@@ -46,8 +49,13 @@ interface JobStatus {
   id: string;
   phase: string;
   progress: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'awaiting_review' | 'completed' | 'failed' | 'cancelled';
+  message?: string | null;
+  detail?: JobProgressDetail | null;
   error?: string;
+  failedStep?: string | null;
+  cancelRequestedAt?: string | null;
+  summary?: GenerationSummary | null;
 }
 
 interface AiGenerationDialogProps {
@@ -55,9 +63,24 @@ interface AiGenerationDialogProps {
   onOpenChange: (open: boolean) => void;
   courseId: string;
   documents: Document[];
+  // Open straight into the outline review of this job
+  reviewJobId?: string | null;
   onComplete?: () => void;
 }
 
+// apiRequest errors read "<status>: <body>"; a 402 body explains how the monthly AI quota was exceeded
+function describeGenerationError(error: Error, fallback: string): string {
+  const quotaError = error.message.match(/^402: ([\s\S]*)$/);
+  if (quotaError) {
+    try {
+      return JSON.parse(quotaError[1]).message;
+    } catch {
+      // Not JSON; show the raw message below
+    }
+  }
+  return error.message || fallback;
+}
+
 type PhaseType = 'document_analysis' | 'content_analysis' | 'content_generation' | 'validation' | 'finalization';
 
 const phaseDetails: Record<PhaseType, {
@@ -97,6 +120,7 @@ export default function AiGenerationDialog({
   onOpenChange,
   courseId,
   documents,
+  reviewJobId,
   onComplete
 }: AiGenerationDialogProps) {
   const { toast } = useToast();
@@ -104,15 +128,26 @@ export default function AiGenerationDialog({
   const [processing, setProcessing] = useState(false);
   const [currentPhase, setCurrentPhase] = useState<ProcessingPhase | null>(null);
   const [processingJobId, setProcessingJobId] = useState<string | null>(null);
+  const [failedJobId, setFailedJobId] = useState<string | null>(null);
+  const [reviewingJobId, setReviewingJobId] = useState<string | null>(null);
   const [showCustomization, setShowCustomization] = useState(false);
+
+  const { data: aiUsage } = useQuery<AiUsageSummary>({
+    queryKey: ['/api/ai-usage'],
+    enabled: open,
+  });
   
   // Customization options state
   const [customOptions, setCustomOptions] = useState({
     difficultyLevel: 'beginner',
     moduleCount: 3, // Number of modules to generate (1-10)
+    reviewOutline: false, // Pause after the outline so it can be edited before lessons are written
     generateQuizzes: true,
     quizFrequency: 'module', // 'module' or 'lesson'
     questionsPerQuiz: 5,
+    questionTypes: DEFAULT_QUIZ_QUESTION_TYPES,
+    generateFlashcards: true,
+    flashcardsPerModule: 10,
     includeExercises: true,
     includeExamples: true
   });
@@ -126,12 +161,35 @@ export default function AiGenerationDialog({
     }
   }, [open, documents]);
 
-  // Poll for processing status
-  const { data: jobStatus } = useQuery<JobStatus>({
-    queryKey: ['/api/processing-jobs', processingJobId],
-    enabled: !!processingJobId && processing,
-    refetchInterval: 1000,
-  });
+  useEffect(() => {
+    if (open && reviewJobId) {
+      setReviewingJobId(reviewJobId);
+    }
+  }, [open, reviewJobId]);
+
+  // Follow processing status over Server-Sent Events
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  useEffect(() => {
+    if (!processingJobId || !processing) return;
+
+    const source = new EventSource(`/api/processing-jobs/${processingJobId}/events`, { withCredentials: true });
+    const handleEvent = (event: MessageEvent) => {
+      setJobStatus(JSON.parse(event.data));
+    };
+    const handleFinalEvent = (event: MessageEvent) => {
+      // Close before the browser tries to reconnect to the finished stream
+      source.close();
+      handleEvent(event);
+    };
+
+    source.addEventListener('progress', handleEvent);
+    source.addEventListener('completed', handleFinalEvent);
+    source.addEventListener('failed', handleFinalEvent);
+    source.addEventListener('cancelled', handleFinalEvent);
+    source.addEventListener('outline_ready', handleFinalEvent);
+
+    return () => source.close();
+  }, [processingJobId, processing]);
 
   // Update current phase based on job status
   useEffect(() => {
@@ -145,23 +203,49 @@ export default function AiGenerationDialog({
         message: jobStatus.error
       });
 
+      if (jobStatus.status !== 'processing' && jobStatus.status !== 'pending') {
+        queryClient.invalidateQueries({ queryKey: ['/api/ai-usage'] });
+      }
+
       if (jobStatus.status === 'completed') {
         setProcessing(false);
         setProcessingJobId(null);
+        setJobStatus(null);
+        const summary = jobStatus.summary;
         toast({
           title: "Generation Complete",
-          description: "Your course content has been generated successfully!",
+          description: summary
+            ? `Created ${summary.moduleCount} modules, ${summary.lessonCount} lessons and ${summary.quizCount} quizzes.`
+            : "Your course content has been generated successfully!",
         });
         onComplete?.();
         onOpenChange(false);
       } else if (jobStatus.status === 'failed') {
         setProcessing(false);
         setProcessingJobId(null);
+        setJobStatus(null);
+        setFailedJobId(jobStatus.id);
         toast({
           title: "Generation Failed",
-          description: jobStatus.error || "Failed to generate course content",
+          description: jobStatus.failedStep && !jobStatus.error?.includes(jobStatus.failedStep)
+            ? `${jobStatus.error || "Failed to generate course content"} (at ${jobStatus.failedStep}). Your course was left unchanged.`
+            : `${jobStatus.error || "Failed to generate course content"}. Your course was left unchanged.`,
           variant: "destructive",
         });
+      } else if (jobStatus.status === 'awaiting_review') {
+        setProcessing(false);
+        setProcessingJobId(null);
+        setJobStatus(null);
+        setReviewingJobId(jobStatus.id);
+      } else if (jobStatus.status === 'cancelled') {
+        setProcessing(false);
+        setProcessingJobId(null);
+        setJobStatus(null);
+        toast({
+          title: "Generation Cancelled",
+          description: "Anything generated so far has been removed from the course.",
+        });
+        onComplete?.();
       }
     }
   }, [jobStatus, toast, onComplete, onOpenChange]);
@@ -177,18 +261,57 @@ export default function AiGenerationDialog({
       return response.json();
     },
     onSuccess: (data) => {
+      setFailedJobId(null);
       setProcessingJobId(data.jobId);
       setProcessing(true);
     },
     onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-usage'] });
       toast({
         title: "Generation Failed",
-        description: error.message || "Failed to start course generation",
+        description: describeGenerationError(error, "Failed to start course generation"),
         variant: "destructive",
       });
     },
   });
 
+  // Stop a running job; the server rolls back whatever it already created
+  const cancelMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/processing-jobs/${jobId}/cancel`);
+      return response.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Cancel",
+        description: error.message || "Failed to cancel course generation",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Re-run a failed job from its last completed phase
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const response = await apiRequest("POST", `/api/processing-jobs/${jobId}/retry`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setFailedJobId(null);
+      setProcessingJobId(data.id);
+      setProcessing(true);
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry Failed",
+        description: describeGenerationError(error, "Failed to retry course generation"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelRequested = !!jobStatus?.cancelRequestedAt || cancelMutation.isPending;
+
   const handleGenerate = () => {
     if (selectedDocuments.length === 0) {
       toast({
@@ -238,6 +361,27 @@ export default function AiGenerationDialog({
           </div>
         </DialogHeader>
 
+        {reviewingJobId ? (
+          <div className="flex-1 overflow-hidden flex flex-col">
+            <OutlineReview
+              jobId={reviewingJobId}
+              onApproved={(jobId) => {
+                setReviewingJobId(null);
+                setProcessingJobId(jobId);
+                setProcessing(true);
+              }}
+              onDiscard={() => {
+                cancelMutation.mutate(reviewingJobId, {
+                  onSuccess: () => {
+                    setReviewingJobId(null);
+                    toast({ title: "Outline Discarded", description: "No course content was generated." });
+                  },
+                });
+              }}
+            />
+          </div>
+        ) : (
+        <>
         <div className="flex-1 overflow-y-auto">
           {!processing ? (
             <div className="space-y-6 p-6">
@@ -305,6 +449,19 @@ export default function AiGenerationDialog({
                       </Select>
                     </div>
 
+                    {/* Outline Review */}
+                    <div className="flex items-center justify-between border-t pt-4">
+                      <div>
+                        <Label htmlFor="review-outline">Review Outline First</Label>
+                        <p className="text-sm text-gray-500">Edit the modules and lessons before any content is written</p>
+                      </div>
+                      <Switch
+                        id="review-outline"
+                        checked={customOptions.reviewOutline}
+                        onCheckedChange={(checked) => setCustomOptions({...customOptions, reviewOutline: checked})}
+                      />
+                    </div>
+
                     {/* Quiz Generation Settings */}
                     <div className="space-y-4 border-t pt-4">
                       <div className="flex items-center justify-between">
@@ -356,10 +513,75 @@ export default function AiGenerationDialog({
                               <span>10</span>
                             </div>
                           </div>
+
+                          <div className="space-y-2 pl-4">
+                            <Label>Question Types</Label>
+                            <div className="grid grid-cols-2 gap-2">
+                              {QUIZ_QUESTION_TYPES.map(type => {
+                                const checked = customOptions.questionTypes.includes(type);
+                                return (
+                                  <div key={type} className="flex items-center gap-2">
+                                    <Checkbox
+                                      id={`question-type-${type}`}
+                                      checked={checked}
+                                      // At least one type stays selected
+                                      disabled={checked && customOptions.questionTypes.length === 1}
+                                      onCheckedChange={(value) => setCustomOptions({
+                                        ...customOptions,
+                                        questionTypes: value
+                                          ? QUIZ_QUESTION_TYPES.filter(other => other === type || customOptions.questionTypes.includes(other))
+                                          : customOptions.questionTypes.filter(other => other !== type)
+                                      })}
+                                    />
+                                    <Label htmlFor={`question-type-${type}`} className="font-normal">
+                                      {QUESTION_TYPE_LABELS[type]}
+                                    </Label>
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          </div>
                         </>
                       )}
                     </div>
 
+                    {/* Flashcard Generation Settings */}
+                    <div className="space-y-4 border-t pt-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <Label htmlFor="flashcards">Generate Flashcards</Label>
+                          <p className="text-sm text-gray-500">A deck per module for spaced-repetition review</p>
+                        </div>
+                        <Switch
+                          id="flashcards"
+                          checked={customOptions.generateFlashcards}
+                          onCheckedChange={(checked) => setCustomOptions({...customOptions, generateFlashcards: checked})}
+                        />
+                      </div>
+
+                      {customOptions.generateFlashcards && (
+                        <div className="space-y-2 pl-4">
+                          <Label htmlFor="flashcards-count">
+                            Cards per Module: {customOptions.flashcardsPerModule}
+                          </Label>
+                          <Slider
+                            id="flashcards-count"
+                            min={5}
+                            max={30}
+                            step={1}
+                            value={[customOptions.flashcardsPerModule]}
+                            onValueChange={(value) => setCustomOptions({...customOptions, flashcardsPerModule: value[0]})}
+                            className="w-full"
+                          />
+                          <div className="flex justify-between text-xs text-gray-500">
+                            <span>5</span>
+                            <span>15</span>
+                            <span>30</span>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+
                     {/* Additional Options */}
                     <div className="space-y-3 border-t pt-4">
                       <div className="flex items-center justify-between">
@@ -395,9 +617,13 @@ export default function AiGenerationDialog({
                           setCustomOptions({
                             difficultyLevel: 'beginner',
                             moduleCount: 3,
+                            reviewOutline: false,
                             generateQuizzes: true,
                             quizFrequency: 'module',
                             questionsPerQuiz: 5,
+                            questionTypes: DEFAULT_QUIZ_QUESTION_TYPES,
+                            generateFlashcards: true,
+                            flashcardsPerModule: 10,
                             includeExercises: true,
                             includeExamples: true
                           });
@@ -444,6 +670,12 @@ export default function AiGenerationDialog({
                           {customOptions.generateQuizzes ? `${customOptions.questionsPerQuiz} per ${customOptions.quizFrequency}` : 'None'}
                         </Badge>
                       </div>
+                      <div>
+                        <span className="text-gray-500">Flashcards:</span>
+                        <Badge variant="secondary" className="ml-2">
+                          {customOptions.generateFlashcards ? `${customOptions.flashcardsPerModule} per module` : 'None'}
+                        </Badge>
+                      </div>
                       <div>
                         <span className="text-gray-500">Exercises:</span>
                         <Badge variant="secondary" className="ml-2">{customOptions.includeExercises ? 'Yes' : 'No'}</Badge>
@@ -452,6 +684,10 @@ export default function AiGenerationDialog({
                         <span className="text-gray-500">Examples:</span>
                         <Badge variant="secondary" className="ml-2">{customOptions.includeExamples ? 'Yes' : 'No'}</Badge>
                       </div>
+                      <div>
+                        <span className="text-gray-500">Outline review:</span>
+                        <Badge variant="secondary" className="ml-2">{customOptions.reviewOutline ? 'Yes' : 'No'}</Badge>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
@@ -551,6 +787,11 @@ export default function AiGenerationDialog({
                       ? phaseDetails[currentPhase.name as PhaseType].message
                       : 'Please wait while we process your documents...'}
                   </p>
+                  {jobStatus?.message && (
+                    <p className="text-sm font-medium text-primary mt-3">
+                      {jobStatus.message}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-4">
@@ -603,16 +844,59 @@ export default function AiGenerationDialog({
           )}
         </div>
 
-        {!processing && (
+        {processing && processingJobId && (
           <div className="border-t p-6">
             <div className="flex items-center justify-between">
               <p className="text-sm text-gray-600">
-                Selected: {selectedDocuments.length} document{selectedDocuments.length !== 1 ? 's' : ''}
+                {cancelRequested
+                  ? 'Stopping after the current step and removing generated content...'
+                  : 'You can stop generation at any time.'}
               </p>
+              <Button
+                variant="outline"
+                onClick={() => cancelMutation.mutate(processingJobId)}
+                disabled={cancelRequested}
+              >
+                {cancelRequested ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <X className="w-4 h-4 mr-2" />
+                )}
+                {cancelRequested ? 'Stopping...' : 'Stop Generation'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!processing && (
+          <div className="border-t p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">
+                  Selected: {selectedDocuments.length} document{selectedDocuments.length !== 1 ? 's' : ''}
+                </p>
+                {aiUsage && (
+                  <p className={`text-xs ${aiUsage.remainingTokens === 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                    AI budget: {aiUsage.remainingTokens.toLocaleString()} of {aiUsage.quotaTokens.toLocaleString()} tokens left this month
+                  </p>
+                )}
+              </div>
               <div className="flex gap-3">
                 <Button variant="outline" onClick={() => onOpenChange(false)}>
                   Cancel
                 </Button>
+                {failedJobId && (
+                  <Button
+                    variant="outline"
+                    onClick={() => retryMutation.mutate(failedJobId)}
+                    disabled={retryMutation.isPending}
+                  >
+                    {retryMutation.isPending && (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    Retry From Last Step
+                  </Button>
+                )}
                 <Button 
                   onClick={handleGenerate}
                   disabled={selectedDocuments.length === 0 || generateMutation.isPending}
@@ -626,6 +910,8 @@ export default function AiGenerationDialog({
             </div>
           </div>
         )}
+        </>
+        )}
       </DialogContent>
     </Dialog>
   );
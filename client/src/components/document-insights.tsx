@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Lightbulb, Target, ListTree, Gauge, Tags } from "lucide-react";
+import type { DocumentInsights } from "@shared/schema";
+
+interface DocumentInsightsPanelProps {
+  courseId: string;
+}
+
+const COMPLEXITY_STYLES: Record<DocumentInsights['analysis']['complexity']['level'], string> = {
+  beginner: "bg-green-100 text-green-700",
+  intermediate: "bg-yellow-100 text-yellow-700",
+  advanced: "bg-red-100 text-red-700",
+};
+
+/**
+ * What the latest generation learned about the course's source documents:
+ * topics, derived learning objectives, complexity, key concepts and the
+ * outline it suggested. Hidden until a generation has analyzed the documents.
+ */
+export default function DocumentInsightsPanel({ courseId }: DocumentInsightsPanelProps) {
+  const { data: insights } = useQuery<DocumentInsights>({
+    queryKey: [`/api/courses/${courseId}/insights`],
+    // 404 until the first generation; nothing to retry
+    retry: false,
+  });
+
+  if (!insights) return null;
+  const { analysis } = insights;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Lightbulb className="w-5 h-5 text-yellow-500" />
+            Document Insights
+          </CardTitle>
+          {insights.analyzedAt && (
+            <span className="text-xs text-gray-500">
+              Analyzed {new Date(insights.analyzedAt).toLocaleDateString()}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600">
+          From {insights.documents.map(document => document.fileName).join(", ") || "the course documents"}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-gray-700">{analysis.summary}</p>
+
+        <div className="flex items-start gap-3">
+          <Gauge className="w-4 h-4 mt-0.5 text-gray-500" />
+          <div>
+            <Badge variant="secondary" className={COMPLEXITY_STYLES[analysis.complexity.level]}>
+              {analysis.complexity.level}
+            </Badge>
+            {analysis.complexity.rationale && (
+              <p className="text-sm text-gray-600 mt-1">{analysis.complexity.rationale}</p>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="flex items-center gap-2 font-medium mb-2">
+            <Tags className="w-4 h-4 text-gray-500" />
+            Topics
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {analysis.topics.map(topic => (
+              <Badge key={topic} variant="outline">{topic}</Badge>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="flex items-center gap-2 font-medium mb-2">
+            <Target className="w-4 h-4 text-gray-500" />
+            Learning Objectives
+          </h4>
+          <ul className="list-disc pl-6 space-y-1 text-sm text-gray-700">
+            {analysis.learningObjectives.map(objective => (
+              <li key={objective}>{objective}</li>
+            ))}
+          </ul>
+        </div>
+
+        {analysis.keyConcepts.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">Key Concepts</h4>
+            <dl className="space-y-2 text-sm">
+              {analysis.keyConcepts.map(concept => (
+                <div key={concept.term}>
+                  <dt className="font-medium text-gray-900">{concept.term}</dt>
+                  {concept.explanation && <dd className="text-gray-600">{concept.explanation}</dd>}
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+
+        <div>
+          <h4 className="flex items-center gap-2 font-medium mb-2">
+            <ListTree className="w-4 h-4 text-gray-500" />
+            Suggested Outline
+          </h4>
+          <ol className="list-decimal pl-6 space-y-1 text-sm text-gray-700">
+            {analysis.suggestedOutline.map((module, index) => (
+              <li key={`${index}-${module.title}`}>
+                <span className="font-medium">{module.title}</span>
+                {module.topics.length > 0 && (
+                  <span className="text-gray-500"> — {module.topics.join(", ")}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
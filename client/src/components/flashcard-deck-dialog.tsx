@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Loader2, Plus, Save, Trash2, Wand2, X } from "lucide-react";
+import type { Flashcard, Module } from "@shared/schema";
+
+interface FlashcardDeckDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  module: Module | null;
+  onRegenerate?: () => void;
+}
+
+interface FlashcardDraft {
+  front: string;
+  back: string;
+}
+
+const EMPTY_DRAFT: FlashcardDraft = { front: "", back: "" };
+
+/**
+ * A module's flashcard deck: the cards learners review on a spaced-repetition
+ * schedule. Creators add, edit and delete cards or regenerate the whole deck
+ * from the module's lessons.
+ */
+export default function FlashcardDeckDialog({ open, onOpenChange, module, onRegenerate }: FlashcardDeckDialogProps) {
+  const { toast } = useToast();
+  const [newCard, setNewCard] = useState<FlashcardDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<FlashcardDraft>(EMPTY_DRAFT);
+
+  const deckKey = ['/api/modules', module?.id, 'flashcards'];
+  const { data: cards = [], isLoading } = useQuery<Flashcard[]>({
+    queryKey: deckKey,
+    enabled: open && !!module,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "An error occurred while saving the deck.",
+      variant: "destructive",
+    });
+  };
+
+  const createCardMutation = useMutation({
+    mutationFn: async (data: FlashcardDraft) => {
+      const response = await apiRequest("POST", `/api/modules/${module?.id}/flashcards`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deckKey });
+      setNewCard(EMPTY_DRAFT);
+    },
+    onError: onError("Failed to Add Flashcard"),
+  });
+
+  const updateCardMutation = useMutation({
+    mutationFn: async ({ id, ...data }: FlashcardDraft & { id: string }) => {
+      const response = await apiRequest("PATCH", `/api/flashcards/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deckKey });
+      setEditingId(null);
+    },
+    onError: onError("Failed to Update Flashcard"),
+  });
+
+  const deleteCardMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/flashcards/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: deckKey });
+    },
+    onError: onError("Failed to Delete Flashcard"),
+  });
+
+  const isComplete = (value: FlashcardDraft) => value.front.trim() !== "" && value.back.trim() !== "";
+
+  if (!module) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Flashcards — {module.title}</DialogTitle>
+          <DialogDescription>
+            Enrolled learners review these cards in their daily review queue. Regenerating the deck resets their progress on it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 rounded-lg border p-4">
+          <Input
+            value={newCard.front}
+            onChange={(e) => setNewCard({ ...newCard, front: e.target.value })}
+            placeholder="Front, e.g., What is amortization?"
+            maxLength={500}
+          />
+          <Textarea
+            value={newCard.back}
+            onChange={(e) => setNewCard({ ...newCard, back: e.target.value })}
+            placeholder="Back, the answer to recall"
+            rows={2}
+          />
+          <div className="flex justify-between">
+            <Button
+              size="sm"
+              onClick={() => createCardMutation.mutate(newCard)}
+              disabled={!isComplete(newCard) || createCardMutation.isPending}
+            >
+              {createCardMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Plus className="w-4 h-4 mr-1" />
+              )}
+              Add Card
+            </Button>
+            {onRegenerate && (
+              <Button variant="outline" size="sm" onClick={onRegenerate}>
+                <Wand2 className="w-4 h-4 mr-1" />
+                Regenerate Deck
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-[50vh]">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : cards.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              This module has no flashcards yet. Add cards above or regenerate the deck from its lessons.
+            </p>
+          ) : (
+            <ol className="divide-y pr-3">
+              {cards.map((card, index) => (
+                <li key={card.id} className="py-3">
+                  {editingId === card.id ? (
+                    <div className="space-y-2">
+                      <Input
+                        value={draft.front}
+                        onChange={(e) => setDraft({ ...draft, front: e.target.value })}
+                        maxLength={500}
+                      />
+                      <Textarea
+                        value={draft.back}
+                        onChange={(e) => setDraft({ ...draft, back: e.target.value })}
+                        rows={3}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => updateCardMutation.mutate({ id: card.id, ...draft })}
+                          disabled={!isComplete(draft) || updateCardMutation.isPending}
+                        >
+                          <Save className="w-4 h-4 mr-1" />
+                          Save
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                          <X className="w-4 h-4 mr-1" />
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex gap-3 min-w-0">
+                        <span className="text-sm text-gray-500">{index + 1}.</span>
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900">{card.front}</p>
+                          <p className="text-sm text-gray-600">{card.back}</p>
+                        </div>
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingId(card.id);
+                            setDraft({ front: card.front, back: card.back });
+                          }}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteCardMutation.mutate(card.id)}
+                          disabled={deleteCardMutation.isPending}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
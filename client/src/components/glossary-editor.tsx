@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BookA, Edit, FileText, Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import type { GlossaryTerm, SourceReference } from "@shared/schema";
+
+interface GlossaryEditorProps {
+  courseId: string;
+  onSourceClick?: (reference: SourceReference) => void;
+}
+
+interface GlossaryDraft {
+  term: string;
+  definition: string;
+}
+
+const EMPTY_DRAFT: GlossaryDraft = { term: "", definition: "" };
+
+/**
+ * The course glossary: terms extracted from the source documents during
+ * generation, plus any the creator adds. Lessons highlight these terms with
+ * their definitions.
+ */
+export default function GlossaryEditor({ courseId, onSourceClick }: GlossaryEditorProps) {
+  const { toast } = useToast();
+  const [newTerm, setNewTerm] = useState<GlossaryDraft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GlossaryDraft>(EMPTY_DRAFT);
+
+  const glossaryKey = ['/api/courses', courseId, 'glossary'];
+  const { data: glossary = [], isLoading } = useQuery<GlossaryTerm[]>({
+    queryKey: glossaryKey,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "An error occurred while saving the glossary.",
+      variant: "destructive",
+    });
+  };
+
+  const createTermMutation = useMutation({
+    mutationFn: async (data: GlossaryDraft) => {
+      const response = await apiRequest("POST", `/api/courses/${courseId}/glossary`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: glossaryKey });
+      setNewTerm(EMPTY_DRAFT);
+    },
+    onError: onError("Failed to Add Term"),
+  });
+
+  const updateTermMutation = useMutation({
+    mutationFn: async ({ id, ...data }: GlossaryDraft & { id: string }) => {
+      const response = await apiRequest("PATCH", `/api/glossary/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: glossaryKey });
+      setEditingId(null);
+    },
+    onError: onError("Failed to Update Term"),
+  });
+
+  const deleteTermMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/glossary/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: glossaryKey });
+    },
+    onError: onError("Failed to Delete Term"),
+  });
+
+  const isComplete = (value: GlossaryDraft) => value.term.trim() !== "" && value.definition.trim() !== "";
+
+  const startEditing = (term: GlossaryTerm) => {
+    setEditingId(term.id);
+    setDraft({ term: term.term, definition: term.definition });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookA className="w-5 h-5 text-primary" />
+          Glossary
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Terms are highlighted in lessons, with their definition shown on hover.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2 rounded-lg border p-4">
+          <Input
+            value={newTerm.term}
+            onChange={(e) => setNewTerm({ ...newTerm, term: e.target.value })}
+            placeholder="Term, e.g., Amortization"
+            maxLength={120}
+          />
+          <Textarea
+            value={newTerm.definition}
+            onChange={(e) => setNewTerm({ ...newTerm, definition: e.target.value })}
+            placeholder="Definition"
+            rows={2}
+          />
+          <Button
+            size="sm"
+            onClick={() => createTermMutation.mutate(newTerm)}
+            disabled={!isComplete(newTerm) || createTermMutation.isPending}
+          >
+            {createTermMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4 mr-1" />
+            )}
+            Add Term
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : glossary.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            No glossary terms yet. Generate content from the course documents or add terms above.
+          </p>
+        ) : (
+          <dl className="divide-y">
+            {glossary.map(term => (
+              <div key={term.id} className="py-3">
+                {editingId === term.id ? (
+                  <div className="space-y-2">
+                    <Input
+                      value={draft.term}
+                      onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+                      maxLength={120}
+                    />
+                    <Textarea
+                      value={draft.definition}
+                      onChange={(e) => setDraft({ ...draft, definition: e.target.value })}
+                      rows={3}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => updateTermMutation.mutate({ id: term.id, ...draft })}
+                        disabled={!isComplete(draft) || updateTermMutation.isPending}
+                      >
+                        <Save className="w-4 h-4 mr-1" />
+                        Save
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                        <X className="w-4 h-4 mr-1" />
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <dt className="font-medium text-gray-900">{term.term}</dt>
+                      <dd className="text-sm text-gray-700">{term.definition}</dd>
+                      {term.sourceReference && (
+                        <dd className="mt-1 text-xs text-gray-500">
+                          <button
+                            type="button"
+                            className="inline-flex items-center gap-1 hover:text-primary disabled:hover:text-gray-500"
+                            onClick={() => onSourceClick?.(term.sourceReference!)}
+                            disabled={!onSourceClick}
+                          >
+                            <FileText className="w-3 h-3" />
+                            {term.sourceReference.documentName}
+                            {term.sourceReference.pageNumber ? `, page ${term.sourceReference.pageNumber}` : ""}
+                          </button>
+                          <q className="block italic truncate">{term.sourceReference.text}</q>
+                        </dd>
+                      )}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(term)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteTermMutation.mutate(term.id)}
+                        disabled={deleteTermMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
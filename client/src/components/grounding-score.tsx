@@ -0,0 +1,45 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { LessonGrounding } from "@shared/schema";
+
+interface GroundingScoreProps {
+  grounding: LessonGrounding | null | undefined;
+  className?: string;
+}
+
+// Scores from which a lesson reads as well grounded, or as needing a look
+const WELL_GROUNDED_SCORE = 85;
+const PARTLY_GROUNDED_SCORE = 60;
+
+function groundingScoreClass(score: number): string {
+  if (score >= WELL_GROUNDED_SCORE) return "border-green-300 bg-green-50 text-green-800";
+  if (score >= PARTLY_GROUNDED_SCORE) return "border-yellow-300 bg-yellow-50 text-yellow-800";
+  return "border-red-300 bg-red-50 text-red-800";
+}
+
+/**
+ * How well a lesson's sentences are backed by its source documents, from its
+ * last grounding check. Lessons edited since then, or never checked, show
+ * "Not checked".
+ */
+export default function GroundingScore({ grounding, className }: GroundingScoreProps) {
+  if (!grounding) {
+    return (
+      <Badge variant="outline" className={cn("text-gray-500", className)} title="Check the lesson against its sources to score it">
+        Not checked
+      </Badge>
+    );
+  }
+
+  const unsupported = grounding.claims.filter(claim => claim.verdict === "unsupported").length;
+  const partial = grounding.claims.filter(claim => claim.verdict === "partial").length;
+  return (
+    <Badge
+      variant="outline"
+      className={cn(groundingScoreClass(grounding.score), className)}
+      title={`${grounding.claims.length} claims checked: ${unsupported} unsupported, ${partial} partly supported`}
+    >
+      {grounding.score}% grounded
+    </Badge>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useMutation } from "@tanstack/react-query";
 import {
   Dialog,
@@ -14,8 +14,10 @@ import { Label } from "@/components/ui/label";
 import RichTextEditor from "@/components/rich-text-editor";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import ObjectivesEditor, { withoutBlankObjectives } from "@/components/objectives-editor";
+import GroundingScore from "@/components/grounding-score";
 import { Loader2, Save, Plus, FileText, Clock, Video } from "lucide-react";
-import type { Lesson } from "@shared/schema";
+import type { LearningObjective, Lesson } from "@shared/schema";
 
 interface LessonEditorDialogProps {
   open: boolean;
@@ -41,6 +43,7 @@ export default function LessonEditorDialog({
   const [content, setContent] = useState("");
   const [estimatedDuration, setEstimatedDuration] = useState("");
   const [videoUrl, setVideoUrl] = useState("");
+  const [objectives, setObjectives] = useState<LearningObjective[]>([]);
 
   // Initialize form with lesson data if editing
   useEffect(() => {
@@ -49,14 +52,22 @@ export default function LessonEditorDialog({
       setContent(lesson.content || "");
       setEstimatedDuration(lesson.estimatedDuration?.toString() || "");
       setVideoUrl(lesson.videoUrl || "");
+      setObjectives(lesson.objectives || []);
     } else {
       setTitle("");
       setContent("");
       setEstimatedDuration("10");
       setVideoUrl("");
+      setObjectives([]);
     }
   }, [lesson, open]);
 
+  // Sentences the lesson's grounding check found the sources don't back, highlighted in the editor
+  const flaggedClaims = useMemo(
+    () => (lesson?.grounding?.claims ?? []).filter(claim => claim.verdict !== "supported"),
+    [lesson]
+  );
+
   // Create lesson mutation
   const createLessonMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -69,6 +80,7 @@ export default function LessonEditorDialog({
         description: "The lesson has been created successfully.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/courses', courseId, 'objective-coverage'] });
       onSuccess?.();
       onOpenChange(false);
       resetForm();
@@ -94,6 +106,7 @@ export default function LessonEditorDialog({
         description: "The lesson has been updated successfully.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/courses', courseId, 'objective-coverage'] });
       onSuccess?.();
       onOpenChange(false);
     },
@@ -111,6 +124,7 @@ export default function LessonEditorDialog({
     setContent("");
     setEstimatedDuration("10");
     setVideoUrl("");
+    setObjectives([]);
   };
 
   const handleSubmit = () => {
@@ -137,6 +151,7 @@ export default function LessonEditorDialog({
       content: content.trim(),
       estimatedDuration: estimatedDuration ? parseInt(estimatedDuration) : 10,
       videoUrl: videoUrl.trim() || null,
+      objectives: withoutBlankObjectives(objectives),
     };
 
     if (isEditing) {
@@ -185,17 +200,41 @@ export default function LessonEditorDialog({
             />
           </div>
 
+          {/* Learning Objectives */}
+          <div className="space-y-2">
+            <Label>Learning Objectives</Label>
+            <div className="text-sm text-gray-500 mb-1">
+              What learners should be able to do after this lesson, tagged with the Bloom's level it targets
+            </div>
+            <ObjectivesEditor objectives={objectives} onChange={setObjectives} disabled={isLoading} />
+          </div>
+
           {/* Lesson Content */}
           <div className="space-y-2">
             <Label htmlFor="content">Lesson Content *</Label>
             <div className="text-sm text-gray-500 mb-1">
               Create rich, engaging content with text formatting, images, and more
             </div>
+            {lesson?.grounding && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600 mb-1">
+                <GroundingScore grounding={lesson.grounding} />
+                {flaggedClaims.length > 0 ? (
+                  <span>
+                    Sentences the sources don't back are highlighted in{" "}
+                    <span className="bg-red-100 px-1 rounded">red</span>, partly backed ones in{" "}
+                    <span className="bg-yellow-100 px-1 rounded">yellow</span>. Hover one to see why.
+                  </span>
+                ) : (
+                  <span>Every sentence checked is backed by the sources.</span>
+                )}
+              </div>
+            )}
             <RichTextEditor
               content={content}
               onChange={setContent}
               placeholder="Write your lesson content here. You can format text, add images, create lists, and more..."
               readOnly={isLoading}
+              flaggedClaims={flaggedClaims}
             />
           </div>
 
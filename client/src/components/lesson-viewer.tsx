@@ -23,7 +23,7 @@ import {
   MessageCircle,
   Brain
 } from "lucide-react";
-import type { Lesson } from "@shared/schema";
+import type { GlossaryTerm, LearnerQuizQuestion, Lesson } from "@shared/schema";
 import { CitationRenderer } from "@/components/citation-renderer";
 import RichTextViewer from "@/components/rich-text-viewer";
 import { apiRequest } from "@/lib/queryClient";
@@ -34,6 +34,7 @@ import { useCelebration } from "@/hooks/use-celebration";
 
 interface LessonViewerProps {
   lesson: Lesson;
+  courseId: string;
   moduleTitle?: string;
   isCompleted?: boolean;
   onComplete?: () => void;
@@ -47,6 +48,7 @@ interface LessonViewerProps {
 
 export function LessonViewer({
   lesson,
+  courseId,
   moduleTitle,
   isCompleted = false,
   onComplete,
@@ -77,21 +79,21 @@ export function LessonViewer({
   const { data: quiz, error: quizError } = useQuery<{
     id: string;
     title: string;
-    questions: Array<{
-      question: string;
-      type: 'multiple_choice' | 'true_false';
-      options?: string[];
-      correctAnswer: string;
-      explanation?: string;
-    }>;
+    questions: LearnerQuizQuestion[];
     passingScore: number;
-    maxAttempts?: number;
+    maxAttempts?: number | null;
   }>({
     queryKey: [`/api/quizzes/lesson/${lesson.id}`],
     enabled: !!lesson.id,
     retry: false // Don't retry on 401 errors
   });
 
+  // Course glossary, highlighted in the lesson content
+  const { data: glossary = [] } = useQuery<GlossaryTerm[]>({
+    queryKey: ['/api/courses', courseId, 'glossary'],
+    enabled: !!courseId,
+  });
+
   // Debug logging
   useEffect(() => {
     if (quizError) {
@@ -245,6 +247,7 @@ export function LessonViewer({
                 enableCitations={false}
                 sourceReferences={[]}
                 onCitationClick={() => {}}
+                glossary={glossary}
                 className="lesson-content"
               />
 
@@ -318,7 +321,6 @@ export function LessonViewer({
       {showQuiz && quiz && (
         <QuizViewer
           quiz={quiz}
-          lessonId={lesson.id}
           onComplete={(passed, score) => {
             setQuizCompleted(true);
             setQuizScore(score);
@@ -15,8 +15,9 @@ import { Textarea } from "@/components/ui/textarea";
 import RichTextEditor from "@/components/rich-text-editor";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import ObjectivesEditor, { withoutBlankObjectives } from "@/components/objectives-editor";
 import { Loader2, Save, Plus } from "lucide-react";
-import type { Module } from "@shared/schema";
+import type { LearningObjective, Module } from "@shared/schema";
 
 interface ModuleEditorDialogProps {
   open: boolean;
@@ -39,6 +40,7 @@ export default function ModuleEditorDialog({
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [estimatedDuration, setEstimatedDuration] = useState("");
+  const [objectives, setObjectives] = useState<LearningObjective[]>([]);
 
   // Initialize form with module data if editing
   useEffect(() => {
@@ -46,10 +48,12 @@ export default function ModuleEditorDialog({
       setTitle(module.title || "");
       setDescription(module.description || "");
       setEstimatedDuration(module.estimatedDuration?.toString() || "");
+      setObjectives(module.objectives || []);
     } else {
       setTitle("");
       setDescription("");
       setEstimatedDuration("");
+      setObjectives([]);
     }
   }, [module, open]);
 
@@ -65,6 +69,7 @@ export default function ModuleEditorDialog({
         description: "The module has been created successfully.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/courses', courseId, 'objective-coverage'] });
       onSuccess?.();
       onOpenChange(false);
       resetForm();
@@ -90,6 +95,7 @@ export default function ModuleEditorDialog({
         description: "The module has been updated successfully.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/courses', courseId, 'objective-coverage'] });
       onSuccess?.();
       onOpenChange(false);
     },
@@ -106,6 +112,7 @@ export default function ModuleEditorDialog({
     setTitle("");
     setDescription("");
     setEstimatedDuration("");
+    setObjectives([]);
   };
 
   const handleSubmit = () => {
@@ -122,6 +129,7 @@ export default function ModuleEditorDialog({
       title: title.trim(),
       description: description.trim(),
       estimatedDuration: estimatedDuration ? parseInt(estimatedDuration) : null,
+      objectives: withoutBlankObjectives(objectives),
     };
 
     if (isEditing) {
@@ -185,6 +193,15 @@ export default function ModuleEditorDialog({
             />
           </div>
 
+          {/* Learning Objectives */}
+          <div className="space-y-2">
+            <Label>Learning Objectives</Label>
+            <div className="text-sm text-gray-500 mb-1">
+              What learners should be able to do after this module, tagged with the Bloom's level it targets
+            </div>
+            <ObjectivesEditor objectives={objectives} onChange={setObjectives} disabled={isLoading} />
+          </div>
+
           {/* Estimated Duration */}
           <div className="space-y-2">
             <Label htmlFor="duration">Estimated Duration (minutes)</Label>
@@ -33,7 +33,8 @@ import {
   Search,
   Bell,
   HelpCircle,
-  School
+  School,
+  Layers
 } from "lucide-react";
 
 export default function Navigation() {
@@ -99,6 +100,12 @@ export default function Navigation() {
       },
       showFor: ['learner']
     },
+    {
+      label: 'Flashcards',
+      icon: Layers,
+      action: () => setLocation('/learner/flashcards'),
+      showFor: ['learner']
+    },
     {
       label: 'Analytics',
       icon: BarChart3,
@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { BLOOM_LEVEL_LABELS } from "@/components/objectives-editor";
+import { AlertTriangle, Target } from "lucide-react";
+import type { ObjectiveCoverage } from "@shared/schema";
+
+interface ObjectiveCoveragePanelProps {
+  courseId: string;
+}
+
+/**
+ * Which module and lesson objectives the course's quiz questions assess.
+ * Objectives without a question are listed first so gaps are easy to spot.
+ */
+export default function ObjectiveCoveragePanel({ courseId }: ObjectiveCoveragePanelProps) {
+  const { data: coverage } = useQuery<ObjectiveCoverage>({
+    // Under the course key so saving a quiz or the course refreshes it
+    queryKey: ['/api/courses', courseId, 'objective-coverage'],
+  });
+
+  if (!coverage || coverage.objectives.length === 0) return null;
+
+  const total = coverage.objectives.length;
+  const gaps = coverage.objectives.filter(entry => entry.questionCount === 0);
+  const covered = coverage.objectives.filter(entry => entry.questionCount > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-primary" />
+          Objective Coverage
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {coverage.coveredCount} of {total} learning objectives are assessed by at least one quiz question
+        </p>
+        <Progress value={(coverage.coveredCount / total) * 100} className="h-2" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {coverage.unlinkedQuestionCount > 0 && (
+          <p className="text-sm text-gray-600">
+            {coverage.unlinkedQuestionCount} of {coverage.questionCount} quiz questions are not linked to an objective.
+          </p>
+        )}
+
+        {gaps.length > 0 && (
+          <div>
+            <h4 className="flex items-center gap-2 font-medium mb-2 text-yellow-700">
+              <AlertTriangle className="w-4 h-4" />
+              Not assessed
+            </h4>
+            <ul className="space-y-2 text-sm">
+              {gaps.map(entry => (
+                <li key={entry.objective.id} className="flex items-start justify-between gap-2">
+                  <span>
+                    {entry.objective.text}
+                    <span className="text-gray-500"> — {entry.title}</span>
+                  </span>
+                  <Badge variant="outline">{BLOOM_LEVEL_LABELS[entry.objective.bloomLevel]}</Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {covered.length > 0 && (
+          <div>
+            <h4 className="font-medium mb-2">Assessed</h4>
+            <ul className="space-y-2 text-sm">
+              {covered.map(entry => (
+                <li key={entry.objective.id} className="flex items-start justify-between gap-2">
+                  <span>
+                    {entry.objective.text}
+                    <span className="text-gray-500"> — {entry.title}</span>
+                  </span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="text-gray-500">
+                      {entry.questionCount} question{entry.questionCount === 1 ? '' : 's'}
+                    </span>
+                    <Badge variant="outline">{BLOOM_LEVEL_LABELS[entry.objective.bloomLevel]}</Badge>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
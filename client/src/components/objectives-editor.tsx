@@ -0,0 +1,83 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { BLOOM_LEVELS, type BloomLevel, type LearningObjective } from "@shared/schema";
+
+export const BLOOM_LEVEL_LABELS: Record<BloomLevel, string> = {
+  remember: "Remember",
+  understand: "Understand",
+  apply: "Apply",
+  analyze: "Analyze",
+  evaluate: "Evaluate",
+  create: "Create",
+};
+
+interface ObjectivesEditorProps {
+  objectives: LearningObjective[];
+  onChange: (objectives: LearningObjective[]) => void;
+  disabled?: boolean;
+}
+
+// Objectives without text are dropped when the module or lesson is saved
+export function withoutBlankObjectives(objectives: LearningObjective[]): LearningObjective[] {
+  return objectives
+    .map(objective => ({ ...objective, text: objective.text.trim() }))
+    .filter(objective => objective.text);
+}
+
+/**
+ * Editable list of learning objectives, each tagged with a Bloom's level.
+ * Objectives keep their id while edited so quiz questions stay linked to them.
+ */
+export default function ObjectivesEditor({ objectives, onChange, disabled }: ObjectivesEditorProps) {
+  const update = (index: number, updates: Partial<LearningObjective>) => {
+    onChange(objectives.map((objective, i) => (i === index ? { ...objective, ...updates } : objective)));
+  };
+
+  const add = () => {
+    onChange([...objectives, { id: crypto.randomUUID(), text: "", bloomLevel: "understand" }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {objectives.map((objective, index) => (
+        <div key={objective.id} className="flex items-center gap-2">
+          <Input
+            value={objective.text}
+            onChange={(e) => update(index, { text: e.target.value })}
+            placeholder="e.g., Calculate the monthly payment of a loan"
+            disabled={disabled}
+            className="flex-1"
+          />
+          <Select
+            value={objective.bloomLevel}
+            onValueChange={(value) => update(index, { bloomLevel: value as BloomLevel })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BLOOM_LEVELS.map(level => (
+                <SelectItem key={level} value={level}>{BLOOM_LEVEL_LABELS[level]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(objectives.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={add} disabled={disabled}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Objective
+      </Button>
+    </div>
+  );
+}
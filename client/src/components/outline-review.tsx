@@ -0,0 +1,278 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowUp, ArrowDown, Trash2, Loader2, Save, Sparkles, X, ListChecks } from "lucide-react";
+import type { CourseOutline } from "@shared/schema";
+
+interface OutlineReviewProps {
+  jobId: string;
+  onApproved: (jobId: string) => void;
+  onDiscard: () => void;
+}
+
+interface OutlineResponse {
+  jobId: string;
+  status: string;
+  outline: CourseOutline;
+}
+
+type OutlineModule = CourseOutline['modules'][number];
+type OutlineLesson = OutlineModule['lessons'][number];
+
+function move<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+/**
+ * Editable outline draft of a generation job paused for review. Lessons are
+ * only written once the creator approves it.
+ */
+export default function OutlineReview({ jobId, onApproved, onDiscard }: OutlineReviewProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<CourseOutline | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  const { data, isLoading } = useQuery<OutlineResponse>({
+    queryKey: [`/api/processing-jobs/${jobId}/outline`],
+  });
+
+  useEffect(() => {
+    if (data && !draft) {
+      setDraft(data.outline);
+    }
+  }, [data, draft]);
+
+  const update = (next: CourseOutline) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const updateModule = (moduleIndex: number, changes: Partial<OutlineModule>) => {
+    if (!draft) return;
+    update({
+      ...draft,
+      modules: draft.modules.map((module, index) => index === moduleIndex ? { ...module, ...changes } : module),
+    });
+  };
+
+  const updateLesson = (moduleIndex: number, lessonIndex: number, changes: Partial<OutlineLesson>) => {
+    if (!draft) return;
+    updateModule(moduleIndex, {
+      lessons: draft.modules[moduleIndex].lessons.map((lesson, index) =>
+        index === lessonIndex ? { ...lesson, ...changes } : lesson),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/processing-jobs/${jobId}/outline`, { outline: draft });
+      return response.json();
+    },
+    onSuccess: () => {
+      setDirty(false);
+      toast({ title: "Outline Saved", description: "You can come back and approve it later." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Save Outline",
+        description: error.message || "Check that every module and lesson has a title",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/processing-jobs/${jobId}/outline/approve`, { outline: draft });
+      return response.json();
+    },
+    onSuccess: (result) => onApproved(result.jobId),
+    onError: (error) => {
+      toast({
+        title: "Could Not Approve Outline",
+        description: error.message || "Check that every module and lesson has a title",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="p-12 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const lessonCount = draft.modules.reduce((sum, module) => sum + module.lessons.length, 0);
+  const totalMinutes = draft.modules.reduce(
+    (sum, module) => sum + module.lessons.reduce((lessonSum, lesson) => lessonSum + lesson.estimatedDuration, 0), 0);
+  const busy = saveMutation.isPending || approveMutation.isPending;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <ListChecks className="w-5 h-5 text-primary" />
+            <h3 className="text-lg font-semibold">Review the Course Outline</h3>
+          </div>
+          <p className="text-gray-600">
+            Edit, reorder or remove modules and lessons. Lessons and quizzes are only written for the outline you approve.
+          </p>
+          <div className="flex gap-2 mt-3">
+            <Badge variant="secondary">{draft.modules.length} modules</Badge>
+            <Badge variant="secondary">{lessonCount} lessons</Badge>
+            <Badge variant="secondary">{totalMinutes} min</Badge>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="outline-title">Course Title</Label>
+          <Input
+            id="outline-title"
+            value={draft.title}
+            onChange={(e) => update({ ...draft, title: e.target.value })}
+          />
+          <Label htmlFor="outline-description">Description</Label>
+          <Textarea
+            id="outline-description"
+            rows={2}
+            value={draft.description}
+            onChange={(e) => update({ ...draft, description: e.target.value })}
+          />
+        </div>
+
+        {draft.modules.map((module, moduleIndex) => (
+          <Card key={moduleIndex}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <Badge>Module {moduleIndex + 1}</Badge>
+                <Input
+                  value={module.title}
+                  onChange={(e) => updateModule(moduleIndex, { title: e.target.value })}
+                  className="font-medium"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={moduleIndex === 0}
+                  onClick={() => update({ ...draft, modules: move(draft.modules, moduleIndex, moduleIndex - 1) })}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={moduleIndex === draft.modules.length - 1}
+                  onClick={() => update({ ...draft, modules: move(draft.modules, moduleIndex, moduleIndex + 1) })}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={draft.modules.length === 1}
+                  onClick={() => update({ ...draft, modules: draft.modules.filter((_, index) => index !== moduleIndex) })}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+              <Textarea
+                rows={2}
+                value={module.description}
+                onChange={(e) => updateModule(moduleIndex, { description: e.target.value })}
+                placeholder="Module description"
+              />
+
+              <div className="space-y-2 pl-4 border-l-2 border-gray-100">
+                {module.lessons.map((lesson, lessonIndex) => (
+                  <div key={lessonIndex} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-500 w-6">{lessonIndex + 1}.</span>
+                      <Input
+                        value={lesson.title}
+                        onChange={(e) => updateLesson(moduleIndex, lessonIndex, { title: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        min={1}
+                        value={lesson.estimatedDuration}
+                        onChange={(e) => updateLesson(moduleIndex, lessonIndex, {
+                          estimatedDuration: Math.max(1, parseInt(e.target.value) || 1),
+                        })}
+                        className="w-20"
+                        title="Estimated minutes"
+                      />
+                      <span className="text-sm text-gray-500">min</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={lessonIndex === 0}
+                        onClick={() => updateModule(moduleIndex, { lessons: move(module.lessons, lessonIndex, lessonIndex - 1) })}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={lessonIndex === module.lessons.length - 1}
+                        onClick={() => updateModule(moduleIndex, { lessons: move(module.lessons, lessonIndex, lessonIndex + 1) })}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={module.lessons.length === 1}
+                        onClick={() => updateModule(moduleIndex, {
+                          lessons: module.lessons.filter((_, index) => index !== lessonIndex),
+                        })}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                    <Input
+                      value={lesson.objective}
+                      onChange={(e) => updateLesson(moduleIndex, lessonIndex, { objective: e.target.value })}
+                      placeholder="Learning objective"
+                      className="ml-8 w-[calc(100%-2rem)] text-sm"
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="border-t p-6 flex items-center justify-between">
+        <Button variant="outline" onClick={onDiscard} disabled={busy}>
+          <X className="w-4 h-4 mr-2" />
+          Discard Outline
+        </Button>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => saveMutation.mutate()} disabled={busy || !dirty}>
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save Draft
+          </Button>
+          <Button onClick={() => approveMutation.mutate()} disabled={busy}>
+            {approveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+            Approve & Write Lessons
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
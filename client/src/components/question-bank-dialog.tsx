@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DIFFICULTY_LABELS, QUESTION_TYPE_LABELS } from "@/components/quiz-editor-dialog";
+import { Loader2, Trash2, Wand2 } from "lucide-react";
+import { QUESTION_DIFFICULTIES, type Lesson, type Module, type QuestionBankItem, type QuestionDifficulty } from "@shared/schema";
+
+interface QuestionBankDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  module: Module | null;
+}
+
+// Select value for questions on the module as a whole
+const WHOLE_MODULE = "module";
+const GENERATE_COUNTS = [1, 2, 3, 4, 5];
+
+/**
+ * A module's question bank: the pool bank-drawn quizzes sample each attempt
+ * from. Creators generate easy, medium and hard questions on every lesson,
+ * retag a question's difficulty or lesson, and delete questions. Questions
+ * are added by hand from the quiz editor.
+ */
+export default function QuestionBankDialog({ open, onOpenChange, module }: QuestionBankDialogProps) {
+  const { toast } = useToast();
+  const [perDifficulty, setPerDifficulty] = useState(2);
+
+  const bankKey = ['/api/modules', module?.id, 'question-bank'];
+  const { data: items = [], isLoading } = useQuery<QuestionBankItem[]>({
+    queryKey: bankKey,
+    enabled: open && !!module,
+  });
+  const { data: lessons = [] } = useQuery<Lesson[]>({
+    queryKey: ['/api/modules', module?.id, 'lessons'],
+    enabled: open && !!module,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "An error occurred while saving the question bank.",
+      variant: "destructive",
+    });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/modules/${module?.id}/question-bank/generate`, { perDifficulty });
+      return response.json();
+    },
+    onSuccess: (created: QuestionBankItem[]) => {
+      queryClient.invalidateQueries({ queryKey: bankKey });
+      toast({
+        title: "Questions Generated",
+        description: `${created.length} question${created.length === 1 ? "" : "s"} added to the bank.`,
+      });
+    },
+    onError: onError("Failed to Generate Questions"),
+  });
+
+  const updateItemMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; difficulty?: QuestionDifficulty; lessonId?: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/question-bank/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bankKey });
+    },
+    onError: onError("Failed to Update Question"),
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/question-bank/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bankKey });
+    },
+    onError: onError("Failed to Delete Question"),
+  });
+
+  if (!module) return null;
+
+  const lessonTitles = new Map(lessons.map(lesson => [lesson.id, lesson.title]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Question Bank — {module.title}</DialogTitle>
+          <DialogDescription>
+            Quizzes set to draw from the bank show each attempt a different random selection of these questions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-4">
+          <div className="flex gap-2">
+            {QUESTION_DIFFICULTIES.map(difficulty => (
+              <Badge key={difficulty} variant="secondary">
+                {items.filter(item => item.difficulty === difficulty).length} {DIFFICULTY_LABELS[difficulty].toLowerCase()}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(perDifficulty)} onValueChange={(value) => setPerDifficulty(Number(value))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GENERATE_COUNTS.map(count => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count} per difficulty per lesson
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+              {generateMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <Wand2 className="w-4 h-4 mr-1" />
+              )}
+              Generate
+            </Button>
+          </div>
+        </div>
+
+        <ScrollArea className="max-h-[50vh]">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              The bank is empty. Generate questions from the module's lessons, or copy a quiz's questions into it from the quiz editor.
+            </p>
+          ) : (
+            <ol className="divide-y pr-3">
+              {items.map((item, index) => (
+                <li key={item.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="flex gap-3 min-w-0">
+                    <span className="text-sm text-gray-500">{index + 1}.</span>
+                    <div className="min-w-0 space-y-2">
+                      <p className="text-gray-900">{item.question.question}</p>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{QUESTION_TYPE_LABELS[item.question.type]}</Badge>
+                        {item.question.qualityFlags?.some(flag => !flag.repaired) && (
+                          <Badge
+                            variant="outline"
+                            className="border-yellow-300 text-yellow-800"
+                            title={item.question.qualityFlags.filter(flag => !flag.repaired).map(flag => flag.message).join("\n")}
+                          >
+                            Needs review
+                          </Badge>
+                        )}
+                        <Select
+                          value={item.difficulty}
+                          onValueChange={(difficulty) => updateItemMutation.mutate({ id: item.id, difficulty: difficulty as QuestionDifficulty })}
+                        >
+                          <SelectTrigger className="h-8 w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {QUESTION_DIFFICULTIES.map(difficulty => (
+                              <SelectItem key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={item.lessonId ?? WHOLE_MODULE}
+                          onValueChange={(lessonId) => updateItemMutation.mutate({
+                            id: item.id,
+                            lessonId: lessonId === WHOLE_MODULE ? null : lessonId,
+                          })}
+                        >
+                          <SelectTrigger className="h-8 w-56">
+                            <SelectValue>
+                              {item.lessonId ? lessonTitles.get(item.lessonId) ?? "Removed lesson" : "Whole module"}
+                            </SelectValue>
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={WHOLE_MODULE}>Whole module</SelectItem>
+                            {lessons.map(lesson => (
+                              <SelectItem key={lesson.id} value={lesson.id}>{lesson.title}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteItemMutation.mutate(item.id)}
+                    disabled={deleteItemMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,11 +13,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BLOOM_LEVEL_LABELS } from "@/components/objectives-editor";
 import {
   Plus,
   Trash2,
@@ -27,15 +30,23 @@ import {
   Save,
   AlertCircle,
   Copy,
+  Library,
+  AlertTriangle,
 } from "lucide-react";
-
-interface QuizQuestion {
-  question: string;
-  type: 'multiple_choice' | 'true_false' | 'short_answer';
-  options?: string[];
-  correctAnswer: string;
-  explanation?: string;
-}
+import {
+  QUESTION_DIFFICULTIES,
+  QUIZ_QUESTION_TYPES,
+  quizBankDrawSchema,
+  quizQuestionSchema,
+  type LearningObjective,
+  type QuestionDifficulty,
+  type QuizBankDraw,
+  type QuizQualityFlag,
+  type QuizQuestion,
+  type QuizQuestionType,
+} from "@shared/schema";
+import { correctOption } from "@shared/quizGrading";
+import { checkQuestion } from "@shared/quizQuality";
 
 interface Quiz {
   id?: string;
@@ -44,6 +55,8 @@ interface Quiz {
   title: string;
   questions: QuizQuestion[];
   passingScore?: number;
+  maxAttempts?: number | null;
+  bankDraw?: QuizBankDraw | null;
 }
 
 interface QuizEditorDialogProps {
@@ -53,6 +66,113 @@ interface QuizEditorDialogProps {
   moduleId: string;
   lessonId?: string;
   courseId: string;
+  // Objectives the quiz can assess: its lesson's, or for a module quiz the module's and its lessons'
+  objectives?: LearningObjective[];
+}
+
+// Select value for questions that assess no objective
+const NO_OBJECTIVE = "none";
+// Attempts a new quiz allows, matching the database default
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True / false",
+  multi_select: "Multi-select",
+  fill_blank: "Fill in the blank",
+  matching: "Matching",
+  ordering: "Ordering",
+  short_answer: "Short answer",
+};
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+};
+
+const OPTION_SLOTS = 5;
+// Questions per attempt suggested when a quiz starts drawing from the bank
+const DEFAULT_BANK_DRAW_COUNT = 5;
+
+// A new question of `type`, keeping the text, explanation and objective of the question it replaces
+function blankQuestion(type: QuizQuestionType, base?: QuizQuestion): QuizQuestion {
+  const question: QuizQuestion = {
+    question: base?.question ?? "",
+    type,
+    explanation: base?.explanation ?? "",
+    objectiveId: base?.objectiveId,
+  };
+  switch (type) {
+    case 'multiple_choice':
+      return { ...question, options: Array(OPTION_SLOTS).fill(""), correctAnswer: "0" };
+    case 'true_false':
+      return { ...question, correctAnswer: "True" };
+    case 'multi_select':
+      return { ...question, options: Array(OPTION_SLOTS).fill(""), correctAnswers: [] };
+    case 'fill_blank':
+      return { ...question, acceptedAnswers: [] };
+    case 'matching':
+      return { ...question, pairs: [{ left: "", right: "" }, { left: "", right: "" }, { left: "", right: "" }] };
+    case 'ordering':
+      return { ...question, items: ["", "", ""] };
+    case 'short_answer':
+      return { ...question, rubric: "", correctAnswer: "" };
+  }
+}
+
+// Quality flags the editor can't check again as a question is edited: fixes made when it was generated and
+// answers missing from its source. The rest are checked live, so stale ones are dropped when the quiz loads
+function generationFlags(flags: QuizQualityFlag[] = []): QuizQualityFlag[] {
+  return flags.filter(flag => flag.repaired || flag.issue === 'unsupported_answer');
+}
+
+// Choice questions are edited with the indexes of their correct options, so rewording an option keeps it marked
+function toDraft(stored: QuizQuestion): QuizQuestion {
+  const flags = generationFlags(stored.qualityFlags);
+  const question = { ...stored, qualityFlags: flags.length > 0 ? flags : undefined };
+  const options = question.options ?? [];
+  const slots = [...options, ...Array(Math.max(0, OPTION_SLOTS - options.length)).fill("")];
+  if (question.type === 'multiple_choice') {
+    return { ...question, options: slots, correctAnswer: String(Math.max(0, options.indexOf(correctOption(question) ?? ""))) };
+  }
+  if (question.type === 'multi_select') {
+    const indexes = (question.correctAnswers ?? []).map(answer => options.indexOf(answer)).filter(index => index !== -1);
+    return { ...question, options: slots, correctAnswers: indexes.map(String) };
+  }
+  return question;
+}
+
+// The question as saved: blank options and rows dropped, correct options stored by their text
+function toStored(draft: QuizQuestion): QuizQuestion {
+  const filled = (values: string[] = []) => values.map(value => value.trim()).filter(Boolean);
+  const optionAt = (index: string) => draft.options?.[Number(index)]?.trim() ?? "";
+  switch (draft.type) {
+    case 'multiple_choice':
+      return { ...draft, options: filled(draft.options), correctAnswer: optionAt(draft.correctAnswer ?? "") };
+    case 'multi_select':
+      return { ...draft, options: filled(draft.options), correctAnswers: filled((draft.correctAnswers ?? []).map(optionAt)) };
+    case 'fill_blank':
+      return { ...draft, acceptedAnswers: filled(draft.acceptedAnswers) };
+    case 'matching':
+      return {
+        ...draft,
+        pairs: (draft.pairs ?? [])
+          .map(pair => ({ left: pair.left.trim(), right: pair.right.trim() }))
+          .filter(pair => pair.left || pair.right),
+      };
+    case 'ordering':
+      return { ...draft, items: filled(draft.items) };
+    default:
+      return draft;
+  }
+}
+
+// What the quality check finds in a question as edited. Questions that break the schema are reported when saving instead
+function qualityFlags(draft: QuizQuestion): QuizQualityFlag[] {
+  const stored = toStored(draft);
+  const live = quizQuestionSchema.safeParse(stored).success ? checkQuestion(stored) : [];
+  return [...(draft.qualityFlags ?? []), ...live];
 }
 
 export default function QuizEditorDialog({
@@ -61,11 +181,16 @@ export default function QuizEditorDialog({
   quiz,
   moduleId,
   lessonId,
-  courseId
+  courseId,
+  objectives = []
 }: QuizEditorDialogProps) {
   const { toast } = useToast();
   const [title, setTitle] = useState("");
   const [passingScore, setPassingScore] = useState(70);
+  // 0 allows unlimited attempts
+  const [maxAttempts, setMaxAttempts] = useState(DEFAULT_MAX_ATTEMPTS);
+  // Set when each attempt draws its questions from the module's question bank
+  const [bankDraw, setBankDraw] = useState<QuizBankDraw | null>(null);
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
 
@@ -73,18 +198,16 @@ export default function QuizEditorDialog({
     if (quiz) {
       setTitle(quiz.title);
       setPassingScore(quiz.passingScore || 70);
-      setQuestions(quiz.questions || []);
+      setMaxAttempts(quiz.maxAttempts ?? 0);
+      setBankDraw(quiz.bankDraw ?? null);
+      setQuestions((quiz.questions || []).map(toDraft));
     } else {
       // Default new quiz with one MCQ question
       setTitle(lessonId ? "Lesson Quiz" : "Module Quiz");
       setPassingScore(70);
-      setQuestions([{
-        question: "",
-        type: "multiple_choice",
-        options: ["", "", "", "", ""], // 5 options by default
-        correctAnswer: "0",
-        explanation: ""
-      }]);
+      setMaxAttempts(DEFAULT_MAX_ATTEMPTS);
+      setBankDraw(null);
+      setQuestions([blankQuestion("multiple_choice")]);
     }
     setCurrentQuestionIndex(0);
   }, [quiz, lessonId]);
@@ -95,8 +218,10 @@ export default function QuizEditorDialog({
         moduleId,
         lessonId,
         title,
-        questions,
-        passingScore
+        questions: questions.map(toStored),
+        passingScore,
+        maxAttempts,
+        bankDraw
       };
 
       if (quiz?.id) {
@@ -154,14 +279,42 @@ export default function QuizEditorDialog({
     }
   });
 
+  // The quiz's questions seed the module's bank; they belong to the quiz's lesson, if it has one
+  const copyToBankMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/modules/${moduleId}/question-bank`, {
+        items: questions.map(q => ({ question: toStored(q), lessonId: lessonId ?? null, difficulty: "medium" })),
+      });
+      return response.json();
+    },
+    onSuccess: (items: unknown[]) => {
+      toast({
+        title: "Copied to Question Bank",
+        description: `${items.length} question${items.length === 1 ? '' : 's'} added to the module's bank.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/modules', moduleId, 'question-bank'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to copy questions to the bank",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const updateDifficultyCount = (difficulty: QuestionDifficulty, value: string) => {
+    if (!bankDraw) return;
+    const count = parseInt(value);
+    setBankDraw({
+      ...bankDraw,
+      difficultyCounts: { ...bankDraw.difficultyCounts, [difficulty]: Number.isNaN(count) ? undefined : Math.max(0, count) },
+    });
+  };
+
   const addQuestion = () => {
-    const newQuestion: QuizQuestion = {
-      question: "",
-      type: "multiple_choice",
-      options: ["", "", "", "", ""], // 5 options by default
-      correctAnswer: "0",
-      explanation: ""
-    };
+    // New questions start as the type of the one being edited
+    const newQuestion = blankQuestion(questions[currentQuestionIndex]?.type ?? "multiple_choice");
     setQuestions([...questions, newQuestion]);
     setCurrentQuestionIndex(questions.length);
   };
@@ -193,25 +346,32 @@ export default function QuizEditorDialog({
   const updateQuestion = (index: number, updates: Partial<QuizQuestion>) => {
     const newQuestions = [...questions];
     newQuestions[index] = { ...newQuestions[index], ...updates };
-    
-    // Ensure MCQ has 4-5 options
-    if (updates.type === 'multiple_choice' && !newQuestions[index].options) {
-      newQuestions[index].options = ["", "", "", "", ""];
-    }
-    
     setQuestions(newQuestions);
   };
 
-  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
-    const newQuestions = [...questions];
-    if (newQuestions[questionIndex].options) {
-      newQuestions[questionIndex].options![optionIndex] = value;
-      setQuestions(newQuestions);
+  const changeType = (index: number, type: QuizQuestionType) => {
+    if (type !== questions[index].type) {
+      updateQuestion(index, blankQuestion(type, questions[index]));
     }
   };
 
-  const handleSave = () => {
-    // Validate questions
+  // Replace entry `position` of one of the question's list fields
+  const updateListEntry = <K extends 'options' | 'items' | 'pairs'>(
+    questionIndex: number,
+    field: K,
+    position: number,
+    value: NonNullable<QuizQuestion[K]>[number]
+  ) => {
+    const list = [...(questions[questionIndex][field] ?? [])] as NonNullable<QuizQuestion[K]>[number][];
+    list[position] = value;
+    updateQuestion(questionIndex, { [field]: list });
+  };
+
+  const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+    updateListEntry(questionIndex, 'options', optionIndex, value);
+  };
+
+  const questionsValid = () => {
     for (let i = 0; i < questions.length; i++) {
       const q = questions[i];
       if (!q.question.trim()) {
@@ -221,7 +381,7 @@ export default function QuizEditorDialog({
           variant: "destructive",
         });
         setCurrentQuestionIndex(i);
-        return;
+        return false;
       }
       
       if (q.type === 'multiple_choice') {
@@ -233,19 +393,48 @@ export default function QuizEditorDialog({
             variant: "destructive",
           });
           setCurrentQuestionIndex(i);
-          return;
+          return false;
         }
         
-        if (!q.correctAnswer || q.correctAnswer === '') {
+        if (!q.options?.[Number(q.correctAnswer)]?.trim()) {
           toast({
             title: "Validation Error",
             description: `Question ${i + 1} must have a correct answer selected.`,
             variant: "destructive",
           });
           setCurrentQuestionIndex(i);
-          return;
+          return false;
         }
       }
+
+      // The rules of the other question types are the ones the server checks
+      const parsed = quizQuestionSchema.safeParse(toStored(q));
+      if (!parsed.success) {
+        toast({
+          title: "Validation Error",
+          description: `Question ${i + 1}: ${parsed.error.issues[0].message}`,
+          variant: "destructive",
+        });
+        setCurrentQuestionIndex(i);
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const handleSave = () => {
+    if (!questionsValid()) return;
+
+    if (bankDraw) {
+      const parsed = quizBankDrawSchema.safeParse(bankDraw);
+      if (!parsed.success) {
+        toast({
+          title: "Validation Error",
+          description: `Question bank: ${parsed.error.issues[0].message}`,
+          variant: "destructive",
+        });
+        return;
+      }
     }
 
     if (!title.trim()) {
@@ -261,6 +450,7 @@ export default function QuizEditorDialog({
   };
 
   const currentQuestion = questions[currentQuestionIndex];
+  const currentFlags = currentQuestion ? qualityFlags(currentQuestion) : [];
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -270,13 +460,13 @@ export default function QuizEditorDialog({
             {quiz ? 'Edit Quiz' : 'Create New Quiz'}
           </DialogTitle>
           <DialogDescription>
-            Create multiple choice questions with 4-5 options each. All questions will be MCQ format.
+            Mix multiple choice, true/false, multi-select, fill-in-the-blank, matching, ordering and short answer questions.
           </DialogDescription>
         </DialogHeader>
 
         <div className="flex-1 overflow-hidden flex flex-col gap-4">
           {/* Quiz Settings */}
-          <div className="grid grid-cols-2 gap-4">
+          <div className="grid grid-cols-3 gap-4">
             <div>
               <Label htmlFor="quiz-title">Quiz Title</Label>
               <Input
@@ -297,6 +487,86 @@ export default function QuizEditorDialog({
                 onChange={(e) => setPassingScore(parseInt(e.target.value) || 70)}
               />
             </div>
+            <div>
+              <Label htmlFor="max-attempts">Max Attempts (0 = unlimited)</Label>
+              <Input
+                id="max-attempts"
+                type="number"
+                min="0"
+                value={maxAttempts}
+                onChange={(e) => setMaxAttempts(Math.max(0, parseInt(e.target.value) || 0))}
+              />
+            </div>
+          </div>
+
+          {/* Question Bank Drawing */}
+          <div className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="bank-draw"
+                  checked={!!bankDraw}
+                  onCheckedChange={(checked) => setBankDraw(checked ? { questionCount: DEFAULT_BANK_DRAW_COUNT } : null)}
+                />
+                <Label htmlFor="bank-draw" className="cursor-pointer">
+                  Draw each attempt from the module's question bank
+                </Label>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => questionsValid() && copyToBankMutation.mutate()}
+                disabled={copyToBankMutation.isPending}
+              >
+                <Library className="w-4 h-4 mr-1" />
+                Copy Questions to Bank
+              </Button>
+            </div>
+            {bankDraw && (
+              <>
+                <div className="grid grid-cols-5 gap-3">
+                  <div>
+                    <Label htmlFor="bank-count" className="text-xs">Questions per attempt</Label>
+                    <Input
+                      id="bank-count"
+                      type="number"
+                      min="1"
+                      value={bankDraw.questionCount}
+                      onChange={(e) => setBankDraw({ ...bankDraw, questionCount: Math.max(1, parseInt(e.target.value) || 1) })}
+                    />
+                  </div>
+                  {!lessonId && (
+                    <div>
+                      <Label htmlFor="bank-min-per-lesson" className="text-xs">At least per lesson</Label>
+                      <Input
+                        id="bank-min-per-lesson"
+                        type="number"
+                        min="0"
+                        value={bankDraw.minPerLesson ?? 0}
+                        onChange={(e) => setBankDraw({ ...bankDraw, minPerLesson: Math.max(0, parseInt(e.target.value) || 0) })}
+                      />
+                    </div>
+                  )}
+                  {QUESTION_DIFFICULTIES.map(difficulty => (
+                    <div key={difficulty}>
+                      <Label htmlFor={`bank-${difficulty}`} className="text-xs">{DIFFICULTY_LABELS[difficulty]}</Label>
+                      <Input
+                        id={`bank-${difficulty}`}
+                        type="number"
+                        min="0"
+                        placeholder="Any"
+                        value={bankDraw.difficultyCounts?.[difficulty] ?? ""}
+                        onChange={(e) => updateDifficultyCount(difficulty, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Each attempt shows a different random selection in shuffled order. Leave a difficulty blank to draw any number of it.
+                  The questions below are shown until the bank has questions{lessonId ? " for this lesson" : ""}.
+                </p>
+              </>
+            )}
           </div>
 
           {/* Question Navigator */}
@@ -312,7 +582,7 @@ export default function QuizEditorDialog({
                     className="min-w-[80px]"
                   >
                     Q{index + 1}
-                    {!q.question && (
+                    {(!q.question || qualityFlags(q).some(flag => !flag.repaired)) && (
                       <AlertCircle className="w-3 h-3 ml-1 text-yellow-500" />
                     )}
                   </Button>
@@ -357,6 +627,32 @@ export default function QuizEditorDialog({
                   </div>
                 </div>
 
+                {/* Quality Check */}
+                {currentFlags.length > 0 && (
+                  <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="flex items-center gap-2 text-sm font-medium text-yellow-800">
+                        <AlertTriangle className="w-4 h-4" />
+                        Quality check
+                      </p>
+                      {!!currentQuestion.qualityFlags?.length && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateQuestion(currentQuestionIndex, { qualityFlags: undefined })}
+                        >
+                          Dismiss
+                        </Button>
+                      )}
+                    </div>
+                    <ul className="list-disc pl-5 space-y-1 text-sm text-yellow-800">
+                      {currentFlags.map((flag, index) => (
+                        <li key={index}>{flag.repaired ? `Fixed automatically: ${flag.message}` : flag.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div>
                   <Label htmlFor="question-text">Question</Label>
                   <Textarea
@@ -368,31 +664,248 @@ export default function QuizEditorDialog({
                   />
                 </div>
 
-                {/* MCQ Options */}
                 <div>
-                  <Label>Answer Options (Select the correct one)</Label>
-                  <RadioGroup
-                    value={currentQuestion.correctAnswer}
-                    onValueChange={(value) => updateQuestion(currentQuestionIndex, { correctAnswer: value })}
+                  <Label>Question Type</Label>
+                  <Select
+                    value={currentQuestion.type}
+                    onValueChange={(value) => changeType(currentQuestionIndex, value as QuizQuestionType)}
                   >
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {QUIZ_QUESTION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* MCQ Options */}
+                {currentQuestion.type === 'multiple_choice' && (
+                  <div>
+                    <Label>Answer Options (Select the correct one)</Label>
+                    <RadioGroup
+                      value={currentQuestion.correctAnswer}
+                      onValueChange={(value) => updateQuestion(currentQuestionIndex, { correctAnswer: value })}
+                    >
+                      <div className="space-y-2 mt-2">
+                        {(currentQuestion.options || []).map((option, optIndex) => (
+                          <div key={optIndex} className="flex items-center gap-2">
+                            <RadioGroupItem value={optIndex.toString()} id={`option-${optIndex}`} />
+                            <Input
+                              value={option}
+                              onChange={(e) => updateOption(currentQuestionIndex, optIndex, e.target.value)}
+                              placeholder={`Option ${String.fromCharCode(65 + optIndex)}`}
+                              className="flex-1"
+                            />
+                            {optIndex < 4 && !option && (
+                              <AlertCircle className="w-4 h-4 text-yellow-500" />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+
+                {currentQuestion.type === 'true_false' && (
+                  <div>
+                    <Label>Correct Answer</Label>
+                    <RadioGroup
+                      value={/^false$/i.test(currentQuestion.correctAnswer ?? "") ? "False" : "True"}
+                      onValueChange={(value) => updateQuestion(currentQuestionIndex, { correctAnswer: value })}
+                      className="flex gap-6 mt-2"
+                    >
+                      {["True", "False"].map(value => (
+                        <div key={value} className="flex items-center gap-2">
+                          <RadioGroupItem value={value} id={`answer-${value}`} />
+                          <Label htmlFor={`answer-${value}`}>{value}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                )}
+
+                {currentQuestion.type === 'multi_select' && (
+                  <div>
+                    <Label>Answer Options (Check every correct one)</Label>
                     <div className="space-y-2 mt-2">
-                      {(currentQuestion.options || ["", "", "", "", ""]).map((option, optIndex) => (
-                        <div key={optIndex} className="flex items-center gap-2">
-                          <RadioGroupItem value={optIndex.toString()} id={`option-${optIndex}`} />
+                      {(currentQuestion.options || []).map((option, optIndex) => {
+                        const selected = currentQuestion.correctAnswers || [];
+                        return (
+                          <div key={optIndex} className="flex items-center gap-2">
+                            <Checkbox
+                              checked={selected.includes(optIndex.toString())}
+                              onCheckedChange={(checked) => updateQuestion(currentQuestionIndex, {
+                                correctAnswers: checked
+                                  ? [...selected, optIndex.toString()]
+                                  : selected.filter(index => index !== optIndex.toString())
+                              })}
+                            />
+                            <Input
+                              value={option}
+                              onChange={(e) => updateOption(currentQuestionIndex, optIndex, e.target.value)}
+                              placeholder={`Option ${String.fromCharCode(65 + optIndex)}`}
+                              className="flex-1"
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {currentQuestion.type === 'fill_blank' && (
+                  <div>
+                    <Label htmlFor="accepted-answers">Accepted Answers (one per line)</Label>
+                    <Textarea
+                      id="accepted-answers"
+                      value={(currentQuestion.acceptedAnswers || []).join("\n")}
+                      onChange={(e) => updateQuestion(currentQuestionIndex, { acceptedAnswers: e.target.value.split("\n") })}
+                      placeholder={"amortization\namortisation"}
+                      rows={3}
+                    />
+                    <p className="text-sm text-gray-500 mt-1">
+                      Mark the blank in the question with underscores, e.g. "The ___ of a loan". Case and extra spaces are ignored when grading.
+                    </p>
+                  </div>
+                )}
+
+                {currentQuestion.type === 'matching' && (
+                  <div>
+                    <Label>Pairs (learners match each item on the left with its partner)</Label>
+                    <div className="space-y-2 mt-2">
+                      {(currentQuestion.pairs || []).map((pair, pairIndex) => (
+                        <div key={pairIndex} className="flex items-center gap-2">
+                          <Input
+                            value={pair.left}
+                            onChange={(e) => updateListEntry(currentQuestionIndex, 'pairs', pairIndex, { ...pair, left: e.target.value })}
+                            placeholder="Item"
+                          />
                           <Input
-                            value={option}
-                            onChange={(e) => updateOption(currentQuestionIndex, optIndex, e.target.value)}
-                            placeholder={`Option ${String.fromCharCode(65 + optIndex)}`}
-                            className="flex-1"
+                            value={pair.right}
+                            onChange={(e) => updateListEntry(currentQuestionIndex, 'pairs', pairIndex, { ...pair, right: e.target.value })}
+                            placeholder="Matches"
                           />
-                          {optIndex < 4 && !option && (
-                            <AlertCircle className="w-4 h-4 text-yellow-500" />
-                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateQuestion(currentQuestionIndex, {
+                              pairs: currentQuestion.pairs!.filter((_, i) => i !== pairIndex)
+                            })}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
                         </div>
                       ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateQuestion(currentQuestionIndex, {
+                          pairs: [...(currentQuestion.pairs || []), { left: "", right: "" }]
+                        })}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Pair
+                      </Button>
                     </div>
-                  </RadioGroup>
-                </div>
+                  </div>
+                )}
+
+                {currentQuestion.type === 'ordering' && (
+                  <div>
+                    <Label>Items in the Correct Order (learners see them shuffled)</Label>
+                    <div className="space-y-2 mt-2">
+                      {(currentQuestion.items || []).map((item, itemIndex) => (
+                        <div key={itemIndex} className="flex items-center gap-2">
+                          <span className="text-sm text-gray-500 w-5">{itemIndex + 1}.</span>
+                          <Input
+                            value={item}
+                            onChange={(e) => updateListEntry(currentQuestionIndex, 'items', itemIndex, e.target.value)}
+                            placeholder={`Step ${itemIndex + 1}`}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => updateQuestion(currentQuestionIndex, {
+                              items: currentQuestion.items!.filter((_, i) => i !== itemIndex)
+                            })}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateQuestion(currentQuestionIndex, {
+                          items: [...(currentQuestion.items || []), ""]
+                        })}
+                      >
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add Item
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {currentQuestion.type === 'short_answer' && (
+                  <div className="space-y-4">
+                    <div>
+                      <Label htmlFor="rubric">Grading Rubric</Label>
+                      <Textarea
+                        id="rubric"
+                        value={currentQuestion.rubric || ""}
+                        onChange={(e) => updateQuestion(currentQuestionIndex, { rubric: e.target.value })}
+                        placeholder="The points a full-credit answer must make, e.g. mentions that each payment covers interest first, then principal"
+                        rows={3}
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Answers are scored by AI against this rubric, with an explanation for the learner.
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor="model-answer">Model Answer (Optional)</Label>
+                      <Textarea
+                        id="model-answer"
+                        value={currentQuestion.correctAnswer || ""}
+                        onChange={(e) => updateQuestion(currentQuestionIndex, { correctAnswer: e.target.value })}
+                        placeholder="An answer that earns full credit, shown to learners after grading"
+                        rows={2}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {objectives.length > 0 && (
+                  <div>
+                    <Label>Assesses Objective</Label>
+                    <Select
+                      value={currentQuestion.objectiveId || NO_OBJECTIVE}
+                      onValueChange={(value) => updateQuestion(currentQuestionIndex, {
+                        objectiveId: value === NO_OBJECTIVE ? undefined : value
+                      })}
+                    >
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_OBJECTIVE}>No objective</SelectItem>
+                        {objectives.map(objective => (
+                          <SelectItem key={objective.id} value={objective.id}>
+                            {objective.text} ({BLOOM_LEVEL_LABELS[objective.bloomLevel]})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {currentQuestion.objectiveId && !objectives.some(objective => objective.id === currentQuestion.objectiveId) && (
+                      <p className="text-sm text-yellow-600 mt-1">
+                        The objective this question was linked to no longer exists.
+                      </p>
+                    )}
+                  </div>
+                )}
 
                 <div>
                   <Label htmlFor="explanation">Explanation (Optional)</Label>
@@ -1,12 +1,17 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CelebrationEffect } from "@/components/celebration-effect";
 import { useCelebration } from "@/hooks/use-celebration";
@@ -17,48 +22,66 @@ import {
   AlertCircle,
   RotateCcw,
   ChevronRight,
+  ChevronUp,
+  ChevronDown,
+  Loader2,
+  Lock,
   Target,
   Award
 } from "lucide-react";
-
-interface QuizQuestion {
-  question: string;
-  type: 'multiple_choice' | 'true_false';
-  options?: string[];
-  correctAnswer: string;
-  explanation?: string;
-}
+import { MAX_QUIZ_ANSWER_LENGTH } from "@shared/schema";
+import type { LearnerQuiz, LearnerQuizAttempt, LearnerQuizQuestion, QuizAnswer, QuizAttemptResult, QuizQuestion } from "@shared/schema";
+import { correctOption, gradeAnswer, isAnswered } from "@shared/quizGrading";
 
 interface Quiz {
   id: string;
   title: string;
-  questions: QuizQuestion[];
   passingScore: number;
-  maxAttempts?: number;
+  maxAttempts?: number | null;
 }
 
 interface QuizViewerProps {
   quiz: Quiz;
-  lessonId?: string;
-  moduleId?: string;
   onComplete?: (passed: boolean, score: number) => void;
   onRetry?: () => void;
 }
 
+function feedbackClass(showFeedback: boolean, isCorrect: boolean, isSelected: boolean) {
+  return showFeedback && isCorrect
+    ? 'border-green-500 bg-green-50'
+    : showFeedback && isSelected && !isCorrect
+    ? 'border-red-500 bg-red-50'
+    : isSelected
+    ? 'border-primary bg-primary/5'
+    : 'border-gray-200 hover:border-gray-300';
+}
+
+/**
+ * Takes a learner through a quiz. Each attempt's questions come from the
+ * server without their answers, drawn afresh from the module's question bank
+ * for bank-drawn quizzes. The server grades the submitted attempt and sends
+ * the answers back once the learner passes or runs out of attempts.
+ */
 export function QuizViewer({
   quiz,
-  lessonId,
-  moduleId,
   onComplete,
   onRetry
 }: QuizViewerProps) {
   const { toast } = useToast();
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [answers, setAnswers] = useState<Record<number, QuizAnswer>>({});
   const [showResults, setShowResults] = useState(false);
-  const [score, setScore] = useState(0);
-  const [submitted, setSubmitted] = useState(false);
+  const [result, setResult] = useState<QuizAttemptResult | null>(null);
   const [reviewing, setReviewing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  // The questions of the submitted attempt, kept while the next attempt is drawn
+  const [submittedQuestions, setSubmittedQuestions] = useState<LearnerQuizQuestion[] | null>(null);
+
+  const attemptsKey = ['/api/quiz-attempts', quiz.id];
+  const { data: attempts = [] } = useQuery<LearnerQuizAttempt[]>({ queryKey: attemptsKey });
+  const sheetKey = ['/api/quizzes', quiz.id, 'attempt'];
+  const { data: sheet, isFetching: preparing } = useQuery<LearnerQuiz>({ queryKey: sheetKey });
+  const maxAttempts = quiz.maxAttempts && quiz.maxAttempts > 0 ? quiz.maxAttempts : null;
   
   // Celebration effects
   const {
@@ -68,11 +91,21 @@ export function QuizViewer({
     celebrateQuiz
   } = useCelebration();
 
-  const currentQuestion = quiz.questions[currentQuestionIndex];
-  const totalQuestions = quiz.questions.length;
+  const questions = submittedQuestions ?? sheet?.questions ?? [];
+  const currentQuestion = questions[currentQuestionIndex];
+  const totalQuestions = questions.length;
   const progress = ((currentQuestionIndex + 1) / totalQuestions) * 100;
+  const submitted = result !== null;
+  const score = result?.attempt.score ?? 0;
+  // The current question with its answer, once the server has revealed them
+  const currentSolution = result?.questions?.[currentQuestionIndex];
+  const currentResult = result?.results[currentQuestionIndex];
+
+  // An ordering question's answer is its items as served, even before the learner moves one
+  const answerFor = (index: number): QuizAnswer | undefined =>
+    answers[index] ?? (questions[index].type === 'ordering' ? questions[index].items : undefined);
 
-  const handleAnswerSelect = (value: string) => {
+  const handleAnswerSelect = (value: QuizAnswer) => {
     if (!submitted) {
       setAnswers({ ...answers, [currentQuestionIndex]: value });
     }
@@ -90,19 +123,9 @@ export function QuizViewer({
     }
   };
 
-  const calculateScore = () => {
-    let correct = 0;
-    quiz.questions.forEach((question, index) => {
-      if (answers[index] === question.correctAnswer) {
-        correct++;
-      }
-    });
-    return Math.round((correct / totalQuestions) * 100);
-  };
-
   const handleSubmit = async () => {
     // Check if all questions are answered
-    const unanswered = quiz.questions.findIndex((_, index) => !answers[index]);
+    const unanswered = questions.findIndex((question, index) => !isAnswered(question, answerFor(index)));
     if (unanswered !== -1) {
       setCurrentQuestionIndex(unanswered);
       toast({
@@ -113,43 +136,56 @@ export function QuizViewer({
       return;
     }
 
-    const finalScore = calculateScore();
-    setScore(finalScore);
-    setSubmitted(true);
-    setShowResults(true);
-    
-    // Save quiz attempt to backend
+    // The server grades the attempt, short answers included
+    setSubmitting(true);
+    let attemptResult: QuizAttemptResult;
     try {
-      await apiRequest("POST", "/api/quiz-attempts", {
+      const response = await apiRequest("POST", "/api/quiz-attempts", {
         quizId: quiz.id,
-        lessonId,
-        moduleId,
-        score: finalScore,
-        answers: answers,
-        attemptNumber: 1
+        seed: sheet?.seed,
+        answers: Object.fromEntries(questions.map((_, index) => [index, answerFor(index)])),
       });
-
-      const passed = finalScore >= quiz.passingScore;
-      
-      // Trigger quiz celebration
-      celebrateQuiz(quiz.title, finalScore, passed);
-      
-      onComplete?.(passed, finalScore);
-
-      if (passed) {
-        toast({
-          title: "Quiz Completed! 🎉",
-          description: `You scored ${finalScore}%! Great job!`,
-        });
-      } else {
-        toast({
-          title: "Quiz Completed",
-          description: `You scored ${finalScore}%. You need ${quiz.passingScore}% to pass.`,
-          variant: "destructive"
-        });
-      }
+      attemptResult = await response.json();
     } catch (error) {
-      console.error("Failed to save quiz attempt:", error);
+      // The draw changed under the learner, e.g. the bank was edited: start over with the new one
+      if (error instanceof Error && error.message.startsWith("409")) {
+        setAnswers({});
+        setCurrentQuestionIndex(0);
+        queryClient.invalidateQueries({ queryKey: sheetKey });
+      }
+      toast({
+        title: "Submission Failed",
+        description: error instanceof Error ? error.message : "Your answers could not be graded. Please try again.",
+        variant: "destructive"
+      });
+      return;
+    } finally {
+      setSubmitting(false);
+    }
+
+    const finalScore = attemptResult.attempt.score;
+    setSubmittedQuestions(questions);
+    setResult(attemptResult);
+    setShowResults(true);
+    queryClient.invalidateQueries({ queryKey: attemptsKey });
+    queryClient.invalidateQueries({ queryKey: sheetKey });
+
+    // Trigger quiz celebration
+    celebrateQuiz(quiz.title, finalScore, attemptResult.passed);
+
+    onComplete?.(attemptResult.passed, finalScore);
+
+    if (attemptResult.passed) {
+      toast({
+        title: "Quiz Completed! 🎉",
+        description: `You scored ${finalScore}%! Great job!`,
+      });
+    } else {
+      toast({
+        title: "Quiz Completed",
+        description: `You scored ${finalScore}%. You need ${quiz.passingScore}% to pass.`,
+        variant: "destructive"
+      });
     }
   };
 
@@ -160,16 +196,48 @@ export function QuizViewer({
 
   const handleRetry = () => {
     setAnswers({});
+    setResult(null);
+    setSubmittedQuestions(null);
     setCurrentQuestionIndex(0);
-    setSubmitted(false);
     setShowResults(false);
-    setScore(0);
     setReviewing(false);
     onRetry?.();
   };
 
-  if (showResults && !reviewing) {
-    const passed = score >= quiz.passingScore;
+  if (!result && maxAttempts !== null && attempts.length >= maxAttempts) {
+    const bestScore = Math.max(...attempts.map(attempt => attempt.score));
+
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardContent className="p-8 text-center">
+          <div className="w-24 h-24 mx-auto mb-6 rounded-full flex items-center justify-center bg-gray-100">
+            <Lock className="w-12 h-12 text-gray-500" />
+          </div>
+          <h2 className="text-2xl font-bold mb-2">No Attempts Left</h2>
+          <p className="text-gray-600">
+            You have used all {maxAttempts} attempts at this quiz. Your best score was {bestScore}%.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!currentQuestion || (preparing && !result)) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardContent className="p-12 flex justify-center">
+          {preparing ? (
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          ) : (
+            <p className="text-gray-600">This quiz could not be loaded. Please try again later.</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (result && showResults && !reviewing) {
+    const { passed, attemptsRemaining } = result;
     
     return (
       <Card className="max-w-2xl mx-auto">
@@ -202,14 +270,21 @@ export function QuizViewer({
           <p className="text-gray-600 mb-8">
             {passed 
               ? `Excellent work! You've mastered this material.`
+              : attemptsRemaining === 0
+              ? `You need ${quiz.passingScore}% to pass, and you have no attempts left. Review the answers to see where you went wrong.`
               : `You need ${quiz.passingScore}% to pass. Keep studying and try again!`}
+            {!passed && attemptsRemaining !== null && attemptsRemaining > 0 && (
+              <span className="block mt-2">
+                {attemptsRemaining} attempt{attemptsRemaining === 1 ? '' : 's'} left. The correct answers are shown once you pass or use them all.
+              </span>
+            )}
           </p>
           
           <div className="flex gap-4 justify-center">
             <Button variant="outline" onClick={handleReview}>
               Review Answers
             </Button>
-            {!passed && (
+            {!passed && attemptsRemaining !== 0 && (
               <Button onClick={handleRetry}>
                 <RotateCcw className="w-4 h-4 mr-2" />
                 Try Again
@@ -230,9 +305,16 @@ export function QuizViewer({
               <Target className="w-5 h-5" />
               {quiz.title}
             </CardTitle>
-            <Badge variant="secondary">
-              Question {currentQuestionIndex + 1} of {totalQuestions}
-            </Badge>
+            <div className="flex gap-2">
+              {maxAttempts !== null && !submitted && (
+                <Badge variant="outline">
+                  Attempt {Math.min(attempts.length + 1, maxAttempts)} of {maxAttempts}
+                </Badge>
+              )}
+              <Badge variant="secondary">
+                Question {currentQuestionIndex + 1} of {totalQuestions}
+              </Badge>
+            </div>
           </div>
           <Progress value={progress} className="h-2" />
         </CardHeader>
@@ -246,102 +328,43 @@ export function QuizViewer({
             </h3>
             
             {/* Answer Options */}
-            {currentQuestion.type === 'multiple_choice' ? (
-              <RadioGroup
-                value={answers[currentQuestionIndex] || ''}
-                onValueChange={handleAnswerSelect}
-                disabled={submitted && !reviewing}
-              >
-                <div className="space-y-3">
-                  {currentQuestion.options?.map((option, index) => {
-                    const isSelected = answers[currentQuestionIndex] === option;
-                    const isCorrect = option === currentQuestion.correctAnswer;
-                    const showFeedback = reviewing || submitted;
-                    
-                    return (
-                      <div
-                        key={index}
-                        className={`flex items-center space-x-2 p-3 rounded-lg border transition-colors ${
-                          showFeedback && isCorrect
-                            ? 'border-green-500 bg-green-50'
-                            : showFeedback && isSelected && !isCorrect
-                            ? 'border-red-500 bg-red-50'
-                            : isSelected
-                            ? 'border-primary bg-primary/5'
-                            : 'border-gray-200 hover:border-gray-300'
-                        }`}
-                      >
-                        <RadioGroupItem value={option} id={`option-${index}`} />
-                        <Label
-                          htmlFor={`option-${index}`}
-                          className="flex-1 cursor-pointer"
-                        >
-                          {option}
-                        </Label>
-                        {showFeedback && isCorrect && (
-                          <CheckCircle className="w-5 h-5 text-green-600" />
-                        )}
-                        {showFeedback && isSelected && !isCorrect && (
-                          <XCircle className="w-5 h-5 text-red-600" />
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              </RadioGroup>
-            ) : (
-              // True/False Question
-              <RadioGroup
-                value={answers[currentQuestionIndex] || ''}
-                onValueChange={handleAnswerSelect}
-                disabled={submitted && !reviewing}
-              >
-                <div className="space-y-3">
-                  {['True', 'False'].map((option) => {
-                    const isSelected = answers[currentQuestionIndex] === option;
-                    const isCorrect = option === currentQuestion.correctAnswer;
-                    const showFeedback = reviewing || submitted;
-                    
-                    return (
-                      <div
-                        key={option}
-                        className={`flex items-center space-x-2 p-3 rounded-lg border transition-colors ${
-                          showFeedback && isCorrect
-                            ? 'border-green-500 bg-green-50'
-                            : showFeedback && isSelected && !isCorrect
-                            ? 'border-red-500 bg-red-50'
-                            : isSelected
-                            ? 'border-primary bg-primary/5'
-                            : 'border-gray-200 hover:border-gray-300'
-                        }`}
-                      >
-                        <RadioGroupItem value={option} id={`option-${option}`} />
-                        <Label
-                          htmlFor={`option-${option}`}
-                          className="flex-1 cursor-pointer"
-                        >
-                          {option}
-                        </Label>
-                        {showFeedback && isCorrect && (
-                          <CheckCircle className="w-5 h-5 text-green-600" />
-                        )}
-                        {showFeedback && isSelected && !isCorrect && (
-                          <XCircle className="w-5 h-5 text-red-600" />
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              </RadioGroup>
-            )}
+            <AnswerInput
+              question={currentQuestion}
+              questionIndex={currentQuestionIndex}
+              answer={answerFor(currentQuestionIndex)}
+              solution={reviewing ? currentSolution : undefined}
+              onAnswer={handleAnswerSelect}
+              disabled={submitted}
+            />
           </div>
+
+          {/* How the server graded this question */}
+          {reviewing && currentResult && (
+            <Alert className={currentResult.correct ? "border-green-200 bg-green-50" : currentResult.credit > 0 ? "border-yellow-200 bg-yellow-50" : "border-red-200 bg-red-50"}>
+              <AlertDescription>
+                <strong>
+                  {currentResult.correct
+                    ? 'Correct.'
+                    : currentResult.credit > 0
+                    ? `Partly correct: ${Math.round(currentResult.credit * 100)}% of this question.`
+                    : 'Incorrect.'}
+                </strong>{' '}
+                {currentResult.feedback}
+                {currentSolution?.type === 'short_answer' && currentSolution.correctAnswer && (
+                  <span className="block mt-2 text-gray-700">
+                    <strong>Model answer:</strong> {currentSolution.correctAnswer}
+                  </span>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
           
           {/* Explanation (shown when reviewing) */}
-          {reviewing && currentQuestion.explanation && (
+          {reviewing && currentSolution?.explanation && (
             <Alert className="border-blue-200 bg-blue-50">
               <AlertCircle className="h-4 w-4 text-blue-600" />
               <AlertDescription className="text-blue-800">
-                <strong>Explanation:</strong> {currentQuestion.explanation}
+                <strong>Explanation:</strong> {currentSolution.explanation}
               </AlertDescription>
             </Alert>
           )}
@@ -357,15 +380,16 @@ export function QuizViewer({
             </Button>
             
             <span className="text-sm text-gray-500">
-              {Object.keys(answers).length} of {totalQuestions} answered
+              {questions.filter((question, index) => isAnswered(question, answerFor(index))).length} of {totalQuestions} answered
             </span>
             
             {currentQuestionIndex === totalQuestions - 1 && !submitted ? (
-              <Button onClick={handleSubmit}>
-                Submit Quiz
+              <Button onClick={handleSubmit} disabled={submitting}>
+                {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {submitting ? 'Grading...' : 'Submit Quiz'}
               </Button>
             ) : reviewing && currentQuestionIndex === totalQuestions - 1 ? (
-              <Button onClick={() => setShowResults(true)}>
+              <Button onClick={() => setReviewing(false)}>
                 View Results
               </Button>
             ) : (
@@ -395,4 +419,213 @@ export function QuizViewer({
       )}
     </>
   );
-}
\ No newline at end of file
+}
+
+interface AnswerInputProps {
+  question: LearnerQuizQuestion;
+  questionIndex: number;
+  answer: QuizAnswer | undefined;
+  // The question with its answer, once the server has revealed it
+  solution?: QuizQuestion;
+  onAnswer: (answer: QuizAnswer) => void;
+  disabled: boolean;
+}
+
+// The answer controls of one question, with right and wrong marked once the answers are revealed
+function AnswerInput({ question, questionIndex, answer, solution, onAnswer, disabled }: AnswerInputProps) {
+  const text = typeof answer === 'string' ? answer : '';
+  const list = Array.isArray(answer) ? answer : [];
+  const showFeedback = !!solution;
+  const feedbackIcon = (isCorrect: boolean, isSelected = true) => showFeedback && (
+    isCorrect
+      ? <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />
+      : isSelected && <XCircle className="w-5 h-5 text-red-600 shrink-0" />
+  );
+
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'true_false': {
+      const options = question.type === 'true_false' ? ['True', 'False'] : question.options ?? [];
+      const correct = !solution
+        ? undefined
+        : question.type === 'true_false' ? solution.correctAnswer?.toLowerCase() : correctOption(solution);
+      return (
+        <RadioGroup value={text} onValueChange={onAnswer} disabled={disabled}>
+          <div className="space-y-3">
+            {options.map((option, index) => {
+              const isSelected = text === option;
+              const isCorrect = question.type === 'true_false' ? option.toLowerCase() === correct : option === correct;
+              return (
+                <div
+                  key={index}
+                  className={`flex items-center space-x-2 p-3 rounded-lg border transition-colors ${feedbackClass(showFeedback, isCorrect, isSelected)}`}
+                >
+                  <RadioGroupItem value={option} id={`question-${questionIndex}-option-${index}`} />
+                  <Label htmlFor={`question-${questionIndex}-option-${index}`} className="flex-1 cursor-pointer">
+                    {option}
+                  </Label>
+                  {feedbackIcon(isCorrect, isSelected)}
+                </div>
+              );
+            })}
+          </div>
+        </RadioGroup>
+      );
+    }
+
+    case 'multi_select':
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Select all that apply.</p>
+          {(question.options ?? []).map((option, index) => {
+            const isSelected = list.includes(option);
+            const isCorrect = solution?.correctAnswers?.includes(option) ?? false;
+            return (
+              <div
+                key={index}
+                className={`flex items-center space-x-2 p-3 rounded-lg border transition-colors ${feedbackClass(showFeedback, isCorrect, isSelected)}`}
+              >
+                <Checkbox
+                  id={`question-${questionIndex}-option-${index}`}
+                  checked={isSelected}
+                  disabled={disabled}
+                  onCheckedChange={(checked) => onAnswer(
+                    checked ? [...list, option] : list.filter(selected => selected !== option)
+                  )}
+                />
+                <Label htmlFor={`question-${questionIndex}-option-${index}`} className="flex-1 cursor-pointer">
+                  {option}
+                </Label>
+                {feedbackIcon(isCorrect, isSelected)}
+              </div>
+            );
+          })}
+        </div>
+      );
+
+    case 'fill_blank': {
+      const isCorrect = !!solution && gradeAnswer(solution, text) === 1;
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Input
+              value={text}
+              onChange={(e) => onAnswer(e.target.value)}
+              placeholder="Type the missing word or phrase"
+              maxLength={MAX_QUIZ_ANSWER_LENGTH}
+              disabled={disabled}
+              className={showFeedback ? (isCorrect ? 'border-green-500' : 'border-red-500') : ''}
+            />
+            {feedbackIcon(isCorrect)}
+          </div>
+          {solution && !isCorrect && (
+            <p className="text-sm text-gray-600">
+              Accepted answers: {(solution.acceptedAnswers ?? []).join(', ')}
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    case 'matching': {
+      const prompts = question.prompts ?? [];
+      return (
+        <div className="space-y-3">
+          {prompts.map((prompt, index) => {
+            const picked = list[index] || '';
+            const match = solution?.pairs?.[index]?.right;
+            const isCorrect = picked === match;
+            return (
+              <div
+                key={prompt}
+                className={`grid grid-cols-2 items-center gap-3 p-3 rounded-lg border ${feedbackClass(showFeedback, isCorrect, !!picked)}`}
+              >
+                <span className="font-medium">{prompt}</span>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={picked}
+                    onValueChange={(value) => {
+                      const next = prompts.map((_, other) => list[other] || '');
+                      next[index] = value;
+                      onAnswer(next);
+                    }}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a match" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(question.choices ?? []).map(choice => (
+                        <SelectItem key={choice} value={choice}>{choice}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {feedbackIcon(isCorrect)}
+                </div>
+                {showFeedback && !isCorrect && (
+                  <p className="col-span-2 text-sm text-gray-600">Correct match: {match}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const move = (from: number, to: number) => {
+        const next = [...list];
+        [next[from], next[to]] = [next[to], next[from]];
+        onAnswer(next);
+      };
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500">Use the arrows to put the items in the correct order.</p>
+          {list.map((item, index) => {
+            const isCorrect = solution?.items?.[index] === item;
+            return (
+              <div
+                key={item}
+                className={`flex items-center gap-2 p-3 rounded-lg border ${feedbackClass(showFeedback, isCorrect, false)}`}
+              >
+                <span className="text-sm text-gray-500 w-5">{index + 1}.</span>
+                <span className="flex-1">{item}</span>
+                {!disabled && (
+                  <div className="flex flex-col">
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => move(index, index - 1)} disabled={index === 0}>
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => move(index, index + 1)} disabled={index === list.length - 1}>
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+                {feedbackIcon(isCorrect)}
+              </div>
+            );
+          })}
+          {solution && list.some((item, index) => solution.items?.[index] !== item) && (
+            <p className="text-sm text-gray-600">Correct order: {(solution.items ?? []).join(' → ')}</p>
+          )}
+        </div>
+      );
+    }
+
+    case 'short_answer':
+      return (
+        <div className="space-y-1">
+          <Textarea
+            value={text}
+            onChange={(e) => onAnswer(e.target.value)}
+            placeholder="Write your answer in a few sentences"
+            rows={4}
+            maxLength={MAX_QUIZ_ANSWER_LENGTH}
+            disabled={disabled}
+          />
+          {!disabled && (
+            <p className="text-xs text-gray-500">Your answer is graded against the instructor's rubric when you submit.</p>
+          )}
+        </div>
+      );
+  }
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader2, Sparkles } from "lucide-react";
+
+export interface RegenerateTarget {
+  kind: 'lesson' | 'module' | 'quiz' | 'flashcards';
+  id: string;
+  title: string;
+}
+
+interface RegenerateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: RegenerateTarget | null;
+  onSuccess?: () => void;
+}
+
+const MAX_INSTRUCTIONS = 2000;
+
+const SUGGESTIONS: Record<RegenerateTarget['kind'], string[]> = {
+  lesson: ["More examples", "Shorter", "Simpler language", "More detail on key concepts"],
+  module: ["More examples", "Shorter", "Simpler language", "More detail on key concepts"],
+  quiz: ["Harder questions", "Easier questions", "Focus on applying concepts", "More true/false questions"],
+  flashcards: ["Focus on definitions", "Focus on formulas", "Shorter answers", "More cards on key concepts"],
+};
+
+const ENDPOINTS: Record<RegenerateTarget['kind'], (id: string) => string> = {
+  lesson: (id) => `/api/lessons/${id}/regenerate`,
+  module: (id) => `/api/modules/${id}/regenerate`,
+  quiz: (id) => `/api/quizzes/${id}/regenerate`,
+  flashcards: (id) => `/api/modules/${id}/flashcards/regenerate`,
+};
+
+/**
+ * Rewrites one lesson, all lessons of a module, or a quiz from the course's
+ * linked documents, or a module's flashcard deck from its lessons, following
+ * the creator's instructions.
+ */
+export default function RegenerateDialog({ open, onOpenChange, target, onSuccess }: RegenerateDialogProps) {
+  const { toast } = useToast();
+  const [instructions, setInstructions] = useState("");
+
+  useEffect(() => {
+    if (open) setInstructions("");
+  }, [open, target?.id]);
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", ENDPOINTS[target!.kind](target!.id), { instructions });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Content Regenerated",
+        description: `"${target?.title}" has been rewritten from your source documents.`,
+      });
+      onSuccess?.();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Regeneration Failed",
+        description: error.message || "An error occurred while regenerating the content.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addSuggestion = (suggestion: string) => {
+    setInstructions((current) => current.trim() ? `${current.trim()}. ${suggestion}` : suggestion);
+  };
+
+  if (!target) return null;
+
+  const scope = target.kind === 'module'
+    ? "Every lesson in this module will be rewritten."
+    : target.kind === 'quiz'
+      ? "The quiz questions will be replaced with a new set."
+      : target.kind === 'flashcards'
+        ? "The module's flashcards will be replaced with a new deck, and learners' review progress on the old cards is reset."
+        : "The lesson content will be rewritten.";
+  const grounding = target.kind === 'flashcards'
+    ? "The new cards are written from the module's lessons."
+    : "The new version is grounded in the documents linked to this course and keeps its source citations.";
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !regenerateMutation.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Regenerate "{target.title}"</DialogTitle>
+          <DialogDescription>
+            {scope} {grounding}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Label htmlFor="regenerate-instructions">Instructions (optional)</Label>
+          <Textarea
+            id="regenerate-instructions"
+            rows={4}
+            maxLength={MAX_INSTRUCTIONS}
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="e.g. Add a worked example and explain it for beginners"
+          />
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS[target.kind].map((suggestion) => (
+              <Badge
+                key={suggestion}
+                variant="outline"
+                className="cursor-pointer hover:bg-gray-100"
+                onClick={() => addSuggestion(suggestion)}
+              >
+                {suggestion}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={regenerateMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => regenerateMutation.mutate()} disabled={regenerateMutation.isPending}>
+            {regenerateMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="w-4 h-4 mr-2" />
+            )}
+            Regenerate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,8 @@
 import { useEffect } from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEditor, EditorContent, Extension } from '@tiptap/react';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
 import StarterKit from '@tiptap/starter-kit';
 import Underline from '@tiptap/extension-underline';
 import Link from '@tiptap/extension-link';
@@ -54,6 +57,88 @@ import {
 } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import type { GroundedClaim } from '@shared/schema';
+
+// Numbered and chunk citation markers, which the sentences of a grounding check leave out
+const CITATION_MARKER_PATTERN = /\[\s*C?\d+(?:\s*[,;]\s*C?\d+)*\s*\]/gi;
+const FLAGGED_CLAIM_CLASSES: Record<GroundedClaim['verdict'], string> = {
+  supported: '',
+  partial: 'bg-yellow-100 underline decoration-yellow-500 decoration-wavy',
+  unsupported: 'bg-red-100 underline decoration-red-500 decoration-wavy',
+};
+
+const groundingHighlightKey = new PluginKey<{ claims: GroundedClaim[]; decorations: DecorationSet }>('groundingHighlight');
+
+const isWordCharacter = (char: string) => /[0-9]/.test(char) || char.toLowerCase() !== char.toUpperCase();
+
+/**
+ * Mark the claims in the document's text blocks. Text is compared by its
+ * letters and digits alone, so punctuation, spacing and citation markers the
+ * check's sentences don't have still match; a sentence that was edited since
+ * the check is no longer marked.
+ */
+function claimDecorations(doc: ProseMirrorNode, claims: GroundedClaim[]): DecorationSet {
+  const flagged = claims
+    .filter(claim => claim.verdict !== 'supported')
+    .map(claim => ({ claim, key: claim.sentence.split('').filter(isWordCharacter).join('').toLowerCase() }))
+    .filter(({ key }) => key.length > 0);
+  if (flagged.length === 0) return DecorationSet.empty;
+
+  const decorations: Decoration[] = [];
+  doc.descendants((node, blockPos) => {
+    if (!node.isTextblock) return true;
+
+    // The block's letters and digits, each with its document position
+    let key = '';
+    const positions: number[] = [];
+    node.forEach((child, offset) => {
+      if (!child.isText || !child.text) return;
+      const text = child.text.replace(CITATION_MARKER_PATTERN, marker => ' '.repeat(marker.length));
+      for (let index = 0; index < text.length; index++) {
+        if (isWordCharacter(text[index])) {
+          key += text[index].toLowerCase();
+          positions.push(blockPos + 1 + offset + index);
+        }
+      }
+    });
+
+    flagged.forEach(({ claim, key: claimKey }) => {
+      for (let start = key.indexOf(claimKey); start !== -1; start = key.indexOf(claimKey, start + claimKey.length)) {
+        decorations.push(Decoration.inline(positions[start], positions[start + claimKey.length - 1] + 1, {
+          class: FLAGGED_CLAIM_CLASSES[claim.verdict],
+          title: claim.note || (claim.verdict === 'partial' ? 'Only partly supported by the sources' : 'Not supported by the sources'),
+        }));
+      }
+    });
+    return false;
+  });
+  return DecorationSet.create(doc, decorations);
+}
+
+// Highlights the sentences a grounding check found unsupported or partly supported; they are set with a transaction meta
+const GroundingHighlight = Extension.create({
+  name: 'groundingHighlight',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: groundingHighlightKey,
+        state: {
+          init: () => ({ claims: [] as GroundedClaim[], decorations: DecorationSet.empty }),
+          apply: (tr, value) => {
+            const claims: GroundedClaim[] | undefined = tr.getMeta(groundingHighlightKey);
+            if (claims === undefined && !tr.docChanged) return value;
+            const current = claims ?? value.claims;
+            return { claims: current, decorations: claimDecorations(tr.doc, current) };
+          },
+        },
+        props: {
+          decorations: state => groundingHighlightKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
 
 interface RichTextEditorProps {
   content: string;
@@ -61,6 +146,8 @@ interface RichTextEditorProps {
   placeholder?: string;
   className?: string;
   readOnly?: boolean;
+  // Claims of the lesson's grounding check; unsupported and partly supported ones are highlighted
+  flaggedClaims?: GroundedClaim[];
 }
 
 export default function RichTextEditor({ 
@@ -68,7 +155,8 @@ export default function RichTextEditor({
   onChange, 
   placeholder = "Start writing your lesson content...",
   className,
-  readOnly = false
+  readOnly = false,
+  flaggedClaims,
 }: RichTextEditorProps) {
   const editor = useEditor({
     extensions: [
@@ -103,6 +191,7 @@ export default function RichTextEditor({
       Placeholder.configure({
         placeholder,
       }),
+      GroundingHighlight,
     ],
     content,
     editable: !readOnly,
@@ -118,6 +207,12 @@ export default function RichTextEditor({
     }
   }, [content, editor]);
 
+  useEffect(() => {
+    if (editor) {
+      editor.view.dispatch(editor.state.tr.setMeta(groundingHighlightKey, flaggedClaims ?? []));
+    }
+  }, [flaggedClaims, editor]);
+
   if (!editor) {
     return null;
   }
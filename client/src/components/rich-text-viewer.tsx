@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { cn } from '@/lib/utils';
+import type { GlossaryTerm, SourceReference } from '@shared/schema';
 import '@/styles/rich-text-viewer.css';
 
 interface RichTextViewerProps {
@@ -8,14 +9,22 @@ interface RichTextViewerProps {
   enableCitations?: boolean;
   sourceReferences?: any[];
   onCitationClick?: (citationId: string) => void;
+  glossary?: GlossaryTerm[];
+  onGlossarySourceClick?: (reference: SourceReference) => void;
 }
 
+// Text inside these is never highlighted as a glossary term
+const GLOSSARY_SKIPPED_ELEMENTS = 'h1, h2, h3, h4, h5, h6, a, code, pre, .glossary-term';
+const GLOSSARY_PASSAGE_LENGTH = 160;
+
 export default function RichTextViewer({ 
   content, 
   className,
   enableCitations = false,
   sourceReferences = [],
-  onCitationClick
+  onCitationClick,
+  glossary = [],
+  onGlossarySourceClick
 }: RichTextViewerProps) {
   const contentRef = useRef<HTMLDivElement>(null);
 
@@ -77,8 +86,12 @@ export default function RichTextViewer({
 
       // Process special content blocks (key concepts, examples, etc.)
       processSpecialBlocks(contentRef.current);
+
+      if (glossary.length > 0) {
+        highlightGlossaryTerms(contentRef.current, glossary);
+      }
     }
-  }, [content, enableCitations, sourceReferences, onCitationClick]);
+  }, [content, enableCitations, sourceReferences, onCitationClick, glossary, onGlossarySourceClick]);
 
   const processCitations = (text: string, references: any[]) => {
     // Pattern to match citations like [1], [2], etc.
@@ -159,6 +172,77 @@ export default function RichTextViewer({
     });
   };
 
+  // Wrap the first occurrence of each glossary term in the content with a hover definition
+  const highlightGlossaryTerms = (container: HTMLElement, terms: GlossaryTerm[]) => {
+    // Longer terms first, so "net present value" is matched before "value"
+    const sorted = [...terms].sort((a, b) => b.term.length - a.term.length);
+
+    sorted.forEach((term) => {
+      const escaped = term.term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(^|[^\\w])(${escaped})(?!\\w)`, 'i');
+      const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const textNode = node as Text;
+        if (textNode.parentElement?.closest(GLOSSARY_SKIPPED_ELEMENTS)) continue;
+        const match = pattern.exec(textNode.data);
+        if (!match) continue;
+
+        const matched = textNode.splitText(match.index + match[1].length);
+        matched.splitText(match[2].length);
+        const highlight = createGlossaryTerm(term, matched.data);
+        matched.parentNode?.replaceChild(highlight, matched);
+        break;
+      }
+    });
+  };
+
+  const createGlossaryTerm = (term: GlossaryTerm, text: string) => {
+    const highlight = document.createElement('span');
+    highlight.className = 'glossary-term';
+    highlight.tabIndex = 0;
+    highlight.textContent = text;
+
+    const tooltip = document.createElement('span');
+    tooltip.className = 'glossary-tooltip';
+    tooltip.setAttribute('role', 'tooltip');
+
+    const title = document.createElement('strong');
+    title.className = 'glossary-tooltip-term';
+    title.textContent = term.term;
+    const definition = document.createElement('span');
+    definition.className = 'glossary-tooltip-definition';
+    definition.textContent = term.definition;
+    tooltip.append(title, definition);
+
+    const reference = term.sourceReference;
+    if (reference) {
+      const location = reference.pageNumber
+        ? `${reference.documentName}, page ${reference.pageNumber}`
+        : reference.documentName;
+      const source = document.createElement(onGlossarySourceClick ? 'button' : 'span');
+      source.className = 'glossary-tooltip-source';
+      source.textContent = `Source: ${location}`;
+      if (onGlossarySourceClick) {
+        (source as HTMLButtonElement).type = 'button';
+        source.addEventListener('click', (e) => {
+          e.preventDefault();
+          onGlossarySourceClick(reference);
+        });
+      }
+
+      const passage = document.createElement('q');
+      passage.className = 'glossary-tooltip-passage';
+      passage.textContent = reference.text.length > GLOSSARY_PASSAGE_LENGTH
+        ? `${reference.text.slice(0, GLOSSARY_PASSAGE_LENGTH).trimEnd()}…`
+        : reference.text;
+      tooltip.append(source, passage);
+    }
+
+    highlight.appendChild(tooltip);
+    return highlight;
+  };
+
   return (
     <div 
       ref={contentRef}
@@ -101,23 +101,47 @@ export function SourceViewer({
     </span>
   );
 
-  // Get context around the citation text (before and after)
-  const getContextAroundText = (fullText: string, citation: string) => {
-    if (!fullText || !citation) return citation;
-    
-    const index = fullText.toLowerCase().indexOf(citation.toLowerCase());
-    if (index === -1) return citation;
-    
+  // Get context around the citation (before and after), with the cited passage highlighted.
+  // Offsets point straight into processedContent; text search is the fallback for older references.
+  const getContextAroundText = (fullText: string, ref: SourceReference) => {
+    if (!fullText || !ref.text) return ref.text;
+
+    let index = -1;
+    let length = ref.text.length;
+    if (
+      ref.startOffset !== undefined &&
+      ref.endOffset !== undefined &&
+      ref.startOffset >= 0 &&
+      ref.endOffset > ref.startOffset &&
+      ref.endOffset <= fullText.length
+    ) {
+      index = ref.startOffset;
+      length = ref.endOffset - ref.startOffset;
+    } else {
+      index = fullText.toLowerCase().indexOf(ref.text.toLowerCase());
+    }
+    if (index === -1) return ref.text;
+
     const contextLength = 200;
     const start = Math.max(0, index - contextLength);
-    const end = Math.min(fullText.length, index + citation.length + contextLength);
-    
-    let result = '';
-    if (start > 0) result += '...';
-    result += fullText.substring(start, end);
-    if (end < fullText.length) result += '...';
-    
-    return result;
+    const end = Math.min(fullText.length, index + length + contextLength);
+
+    return (
+      <>
+        {start > 0 && '...'}
+        {fullText.substring(start, index)}
+        <mark className="bg-yellow-200 px-0.5 rounded">{fullText.substring(index, index + length)}</mark>
+        {fullText.substring(index + length, end)}
+        {end < fullText.length && '...'}
+      </>
+    );
+  };
+
+  const formatLocation = (ref: SourceReference) => {
+    return [
+      ref.pageNumber ? `Page ${ref.pageNumber}` : null,
+      ref.sectionTitle || null,
+    ].filter(Boolean).join(' • ');
   };
 
   return (
@@ -176,7 +200,7 @@ export function SourceViewer({
                       <div className="flex items-center gap-2">
                         <FileText className="w-4 h-4 text-blue-600" />
                         <span className="font-medium text-sm text-gray-900">
-                          {doc?.fileName || 'Unknown Document'}
+                          {doc?.fileName || refs[0]?.documentName || 'Unknown Document'}
                         </span>
                         <Badge variant="outline" className="text-xs">
                           {refs.length} citations
@@ -228,9 +252,14 @@ export function SourceViewer({
                                           <span className="font-semibold text-sm text-blue-800">
                                             Citation [{sourceReferences.indexOf(ref) + 1}]
                                           </span>
+                                          {formatLocation(ref) && (
+                                            <span className="text-xs text-blue-700 mt-0.5">
+                                              {formatLocation(ref)}
+                                            </span>
+                                          )}
                                         </div>
                                         <p className="text-gray-700 whitespace-pre-wrap">
-                                          {getContextAroundText(doc.processedContent, ref.text)}
+                                          {getContextAroundText(doc.processedContent, ref)}
                                         </p>
                                       </div>
                                     ))}
@@ -268,9 +297,9 @@ export function SourceViewer({
                                     <Quote className="w-3 h-3 inline mr-1 text-gray-400" />
                                     {ref.text}
                                   </p>
-                                  {ref.pageNumber && (
+                                  {formatLocation(ref) && (
                                     <p className="text-xs text-gray-500 mt-1">
-                                      Page {ref.pageNumber}
+                                      {formatLocation(ref)}
                                     </p>
                                   )}
                                 </div>
@@ -305,11 +334,11 @@ export function SourceViewer({
                         <div className="flex items-center gap-2 mb-1">
                           <FileText className="w-3 h-3 text-blue-600" />
                           <span className="text-xs font-medium text-gray-600">
-                            {doc?.fileName || 'Unknown Document'}
+                            {doc?.fileName || ref.documentName || 'Unknown Document'}
                           </span>
-                          {ref.pageNumber && (
+                          {formatLocation(ref) && (
                             <span className="text-xs text-gray-500">
-                              • Page {ref.pageNumber}
+                              • {formatLocation(ref)}
                             </span>
                           )}
                         </div>
@@ -352,11 +381,11 @@ export function SourceViewer({
               <div className="flex items-center gap-2 mt-2">
                 <FileText className="w-3 h-3 text-blue-600" />
                 <span className="text-xs text-gray-600">
-                  {getDocumentById(selectedReference.documentId)?.fileName}
+                  {getDocumentById(selectedReference.documentId)?.fileName || selectedReference.documentName}
                 </span>
-                {selectedReference.pageNumber && (
+                {formatLocation(selectedReference) && (
                   <span className="text-xs text-gray-500">
-                    • Page {selectedReference.pageNumber}
+                    • {formatLocation(selectedReference)}
                   </span>
                 )}
               </div>
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CitationRenderer } from "@/components/citation-renderer";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bot, Loader2, Send, Trash2 } from "lucide-react";
+import type { SourceReference, TutorMessage } from "@shared/schema";
+
+interface TutorChatProps {
+  courseId: string;
+  onCitationClick?: (citationId: string, sourceReferences: SourceReference[]) => void;
+}
+
+// Longest question the server accepts
+const MAX_QUESTION_LENGTH = 2000;
+
+/**
+ * A learner's conversation with the course tutor. Answers come from the
+ * course's documents and lessons, and cite the passages they draw on; a
+ * citation opens its passage through `onCitationClick`.
+ */
+export default function TutorChat({ courseId, onCitationClick }: TutorChatProps) {
+  const { toast } = useToast();
+  const [question, setQuestion] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const messagesKey = ['/api/courses', courseId, 'tutor', 'messages'];
+  const { data: messages = [], isLoading } = useQuery<TutorMessage[]>({
+    queryKey: messagesKey,
+    enabled: !!courseId,
+  });
+
+  const askMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const response = await apiRequest("POST", `/api/courses/${courseId}/tutor/messages`, { message });
+      return response.json() as Promise<TutorMessage[]>;
+    },
+    onSuccess: (exchange) => {
+      queryClient.setQueryData<TutorMessage[]>(messagesKey, (previous = []) => [...previous, ...exchange]);
+      setQuestion("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "The Tutor Couldn't Answer",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/courses/${courseId}/tutor/messages`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<TutorMessage[]>(messagesKey, []);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Clear Conversation",
+        description: error.message || "An error occurred while clearing the conversation.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages.length, askMutation.isPending]);
+
+  const ask = () => {
+    const message = question.trim();
+    if (message && !askMutation.isPending) {
+      askMutation.mutate(message);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="w-5 h-5" />
+          Ask the Tutor
+        </CardTitle>
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearMutation.mutate()}
+            disabled={clearMutation.isPending || askMutation.isPending}
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ScrollArea className="h-80 pr-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            </div>
+          ) : messages.length === 0 && !askMutation.isPending ? (
+            <p className="text-center text-sm text-gray-500 py-8">
+              Ask anything about this course. Answers come from its lessons and source documents.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {messages.map(message => {
+                const references = (message.sourceReferences as SourceReference[] | null) ?? [];
+                return message.role === "learner" ? (
+                  <div key={message.id} className="flex justify-end">
+                    <div className="max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white whitespace-pre-wrap">
+                      {message.content}
+                    </div>
+                  </div>
+                ) : (
+                  <div key={message.id} className="flex justify-start">
+                    <div className="max-w-[80%] rounded-lg bg-gray-100 px-3 py-2 text-sm text-gray-800 whitespace-pre-wrap">
+                      <CitationRenderer
+                        content={message.content}
+                        sourceReferences={references}
+                        onCitationClick={(citationId) => onCitationClick?.(citationId, references)}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+              {askMutation.isPending && (
+                <>
+                  <div className="flex justify-end">
+                    <div className="max-w-[80%] rounded-lg bg-blue-600 px-3 py-2 text-sm text-white whitespace-pre-wrap">
+                      {askMutation.variables}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    The tutor is looking through the course materials...
+                  </div>
+                </>
+              )}
+              <div ref={endRef} />
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                ask();
+              }
+            }}
+            placeholder="Ask a question about this course..."
+            maxLength={MAX_QUESTION_LENGTH}
+            rows={2}
+            disabled={askMutation.isPending}
+          />
+          <Button onClick={ask} disabled={!question.trim() || askMutation.isPending}>
+            {askMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,6 +18,13 @@ import RichTextViewer from "@/components/rich-text-viewer";
 import ModuleEditorDialog from "@/components/module-editor-dialog";
 import LessonEditorDialog from "@/components/lesson-editor-dialog";
 import QuizEditorDialog from "@/components/quiz-editor-dialog";
+import RegenerateDialog, { type RegenerateTarget } from "@/components/regenerate-dialog";
+import DocumentInsightsPanel from "@/components/document-insights";
+import ObjectiveCoveragePanel from "@/components/objective-coverage";
+import GlossaryEditor from "@/components/glossary-editor";
+import FlashcardDeckDialog from "@/components/flashcard-deck-dialog";
+import QuestionBankDialog from "@/components/question-bank-dialog";
+import GroundingScore from "@/components/grounding-score";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -37,8 +44,9 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { CourseWithDetails, Document } from "@shared/schema";
+import type { AiProcessingJob, CourseWithDetails, Document, GlossaryTerm, GroundedClaim, LearningObjective, Lesson, Module, SourceReference } from "@shared/schema";
 import { 
   ArrowLeft,
   Save,
@@ -57,6 +65,7 @@ import {
   Clock,
   Users,
   Layers,
+  Library,
   ScrollText,
   HelpCircle,
   ChevronRight,
@@ -65,7 +74,10 @@ import {
   FileUp,
   Link,
   FileQuestion,
-  ListChecks
+  ListChecks,
+  Wand2,
+  ShieldCheck,
+  Loader2
 } from "lucide-react";
 
 export default function CourseEditor() {
@@ -78,6 +90,7 @@ export default function CourseEditor() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [showDocumentSelector, setShowDocumentSelector] = useState(false);
+  const [replacingDocumentId, setReplacingDocumentId] = useState<string | null>(null);
   const [selectedDocuments, setSelectedDocuments] = useState<string[]>([]);
   const [showSourcePanel, setShowSourcePanel] = useState(false);
   const [showModuleEditor, setShowModuleEditor] = useState(false);
@@ -91,6 +104,9 @@ export default function CourseEditor() {
   const [activeSourceReference, setActiveSourceReference] = useState<string | null>(null);
   const [expandedLesson, setExpandedLesson] = useState<string | null>(null);
   const [moduleQuizzes, setModuleQuizzes] = useState<Record<string, any[]>>({});
+  const [regenerateTarget, setRegenerateTarget] = useState<RegenerateTarget | null>(null);
+  const [flashcardModule, setFlashcardModule] = useState<Module | null>(null);
+  const [questionBankModule, setQuestionBankModule] = useState<Module | null>(null);
   
   // Debug logging
   console.log('CourseEditor params:', params);
@@ -108,12 +124,42 @@ export default function CourseEditor() {
     enabled: !!courseId,
   });
 
+  // Objectives the quiz being edited can assess: its lesson's, or the module's and all of its lessons'
+  const quizModule = course?.modules?.find(module => module.id === selectedModuleId);
+  const quizObjectives: LearningObjective[] = quizModule
+    ? selectedLessonId
+      ? quizModule.lessons.find(lesson => lesson.id === selectedLessonId)?.objectives ?? []
+      : [...(quizModule.objectives ?? []), ...quizModule.lessons.flatMap(lesson => lesson.objectives ?? [])]
+    : [];
+
+  // Course glossary, highlighted in the lesson previews
+  const { data: glossary = [] } = useQuery<GlossaryTerm[]>({
+    queryKey: ['/api/courses', courseId, 'glossary'],
+    enabled: !!courseId,
+  });
+  // Glossary definitions cite the source passage they came from, shown in the source viewer like lesson citations
+  const glossarySourceReferences = glossary.flatMap(term => (term.sourceReference ? [term.sourceReference] : []));
+  const showGlossarySource = (reference: SourceReference) => {
+    setActiveSourceReference(reference.id);
+    setShowSourcePanel(true);
+  };
+
   // Fetch course documents (documents linked to this course)
   const { data: courseDocuments = [], isLoading: courseDocumentsLoading } = useQuery<Document[]>({
     queryKey: [`/api/courses/${courseId}/documents`],
     enabled: !!courseId,
+    // Keep polling while uploaded documents are still being parsed
+    refetchInterval: (query) =>
+      query.state.data?.some(doc => doc.status === 'pending' || doc.status === 'processing') ? 2000 : false,
   });
 
+  // Generation jobs paused for outline review, so the creator can pick up where they left off
+  const { data: outlineReviewJobs = [], refetch: refetchOutlineReviews } = useQuery<AiProcessingJob[]>({
+    queryKey: [`/api/courses/${courseId}/processing-jobs?status=awaiting_review`],
+    enabled: !!courseId,
+  });
+  const pendingReviewJobId = outlineReviewJobs[0]?.id ?? null;
+
   // Fetch all user documents (for selection dialog)
   const { data: allUserDocuments = [], isLoading: allDocumentsLoading } = useQuery<Document[]>({
     queryKey: ['/api/documents'],
@@ -130,27 +176,27 @@ export default function CourseEditor() {
   }, [course]);
 
   // Fetch quizzes for all modules
-  useEffect(() => {
-    if (course?.modules) {
-      const fetchQuizzes = async () => {
-        const quizzesByModule: Record<string, any[]> = {};
-        for (const module of course.modules) {
-          try {
-            const response = await fetch(`/api/modules/${module.id}/quizzes`, {
-              credentials: 'include'
-            });
-            if (response.ok) {
-              const quizzes = await response.json();
-              quizzesByModule[module.id] = quizzes;
-            }
-          } catch (error) {
-            console.error(`Error fetching quizzes for module ${module.id}:`, error);
-          }
+  const fetchModuleQuizzes = async () => {
+    if (!course?.modules) return;
+    const quizzesByModule: Record<string, any[]> = {};
+    for (const module of course.modules) {
+      try {
+        const response = await fetch(`/api/modules/${module.id}/quizzes`, {
+          credentials: 'include'
+        });
+        if (response.ok) {
+          const quizzes = await response.json();
+          quizzesByModule[module.id] = quizzes;
         }
-        setModuleQuizzes(quizzesByModule);
-      };
-      fetchQuizzes();
+      } catch (error) {
+        console.error(`Error fetching quizzes for module ${module.id}:`, error);
+      }
     }
+    setModuleQuizzes(quizzesByModule);
+  };
+
+  useEffect(() => {
+    fetchModuleQuizzes();
   }, [course]);
 
   // Update course mutation
@@ -174,6 +220,30 @@ export default function CourseEditor() {
     },
   });
 
+  // Check a lesson against the course's documents; the score is stored with the lesson
+  const checkGroundingMutation = useMutation({
+    mutationFn: async (lessonId: string) => {
+      const response = await apiRequest("POST", `/api/lessons/${lessonId}/grounding`);
+      return response.json();
+    },
+    onSuccess: (lesson: Lesson) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}`] });
+      toast({
+        title: "Lesson checked",
+        description: lesson.grounding
+          ? `${lesson.grounding.score}% of "${lesson.title}" is backed by the sources.`
+          : `"${lesson.title}" makes no claims to check against the sources.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Check failed",
+        description: error.message || "Failed to check the lesson against its sources",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Upload document mutation - supports multiple files
   const uploadDocumentMutation = useMutation({
     mutationFn: async (files: FileList) => {
@@ -275,6 +345,31 @@ export default function CourseEditor() {
     },
   });
 
+  // Replace a document's file; it is re-extracted and its cached analysis discarded
+  const replaceDocumentMutation = useMutation({
+    mutationFn: async ({ documentId, file }: { documentId: string; file: File }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await apiRequest("PUT", `/api/documents/${documentId}/file`, formData);
+      return response.json();
+    },
+    onSuccess: (document) => {
+      toast({
+        title: "Document replaced",
+        description: `${document.fileName} will be processed again before the next generation.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}/documents`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/documents'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to replace document",
+        description: error.message || "Failed to replace document",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSaveDetails = () => {
     updateCourseMutation.mutate({
       title: courseTitle,
@@ -363,6 +458,15 @@ export default function CourseEditor() {
     removeDocumentMutation.mutate(documentId);
   };
 
+  const handleReplaceDocument = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && replacingDocumentId) {
+      replaceDocumentMutation.mutate({ documentId: replacingDocumentId, file });
+    }
+    setReplacingDocumentId(null);
+    event.target.value = '';
+  };
+
   const handleDeleteModule = async (moduleId: string) => {
     if (confirm("Are you sure you want to delete this module? This will also delete all its lessons.")) {
       try {
@@ -415,23 +519,7 @@ export default function CourseEditor() {
           description: "The quiz has been deleted successfully.",
         });
         // Refresh quizzes
-        if (course?.modules) {
-          const quizzesByModule: Record<string, any[]> = {};
-          for (const module of course.modules) {
-            try {
-              const response = await fetch(`/api/modules/${module.id}/quizzes`, {
-                credentials: 'include'
-              });
-              if (response.ok) {
-                const quizzes = await response.json();
-                quizzesByModule[module.id] = quizzes;
-              }
-            } catch (error) {
-              console.error(`Error fetching quizzes for module ${module.id}:`, error);
-            }
-          }
-          setModuleQuizzes(quizzesByModule);
-        }
+        await fetchModuleQuizzes();
         queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}`] });
       } catch (error: any) {
         toast({
@@ -534,6 +622,7 @@ export default function CourseEditor() {
           <TabsList className="mb-8">
             <TabsTrigger value="details">Details</TabsTrigger>
             <TabsTrigger value="content">Content</TabsTrigger>
+            <TabsTrigger value="glossary">Glossary</TabsTrigger>
             <TabsTrigger value="documents">Documents</TabsTrigger>
           </TabsList>
 
@@ -632,6 +721,21 @@ export default function CourseEditor() {
                   </Select>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <label htmlFor="tutor-enabled" className="text-sm font-medium block">AI Tutor</label>
+                    <p className="text-sm text-gray-500">
+                      Let enrolled learners ask questions answered from the course's documents and lessons. Answers use your AI quota.
+                    </p>
+                  </div>
+                  <Switch
+                    id="tutor-enabled"
+                    checked={course?.tutorEnabled ?? true}
+                    onCheckedChange={(checked) => updateCourseMutation.mutate({ tutorEnabled: checked })}
+                    disabled={updateCourseMutation.isPending}
+                  />
+                </div>
+
                 <div className="flex justify-end">
                   <Button 
                     onClick={handleSaveDetails}
@@ -684,9 +788,12 @@ export default function CourseEditor() {
                 <div className="w-96 flex-shrink-0">
                   <Card className="h-[calc(100vh-300px)] overflow-hidden">
                     <SourceViewer
-                      sourceReferences={course?.modules?.flatMap(m => 
-                        m.lessons?.flatMap(l => l.sourceReferences || []) || []
-                      ) || []}
+                      sourceReferences={[
+                        ...(course?.modules?.flatMap(m => 
+                          m.lessons?.flatMap(l => l.sourceReferences || []) || []
+                        ) || []),
+                        ...glossarySourceReferences
+                      ]}
                       documents={courseDocuments.map(doc => ({
                         id: doc.id,
                         fileName: doc.fileName,
@@ -737,6 +844,14 @@ export default function CourseEditor() {
                 </div>
               </CardHeader>
               <CardContent>
+                {pendingReviewJobId && (
+                  <div className="mb-4 flex items-center justify-between rounded-lg border border-amber-200 bg-amber-50 p-3">
+                    <p className="text-sm text-amber-900">An AI-generated course outline is waiting for your review.</p>
+                    <Button size="sm" variant="outline" onClick={() => setShowAiGeneration(true)}>
+                      Review Outline
+                    </Button>
+                  </div>
+                )}
                 {course.modules && course.modules.length > 0 ? (
                   <div className="space-y-4">
                     {course.modules.map((module: any, index: number) => (
@@ -755,6 +870,15 @@ export default function CourseEditor() {
                               </div>
                             </div>
                             <div className="flex gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Regenerate with AI"
+                                disabled={!module.lessons?.length}
+                                onClick={() => setRegenerateTarget({ kind: 'module', id: module.id, title: module.title })}
+                              >
+                                <Wand2 className="w-4 h-4" />
+                              </Button>
                               <Button 
                                 variant="ghost" 
                                 size="sm"
@@ -801,6 +925,22 @@ export default function CourseEditor() {
                                 <Plus className="w-3 h-3 mr-1" />
                                 Add Quiz
                               </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setFlashcardModule(module)}
+                              >
+                                <Layers className="w-3 h-3 mr-1" />
+                                Flashcards
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setQuestionBankModule(module)}
+                              >
+                                <Library className="w-3 h-3 mr-1" />
+                                Question Bank
+                              </Button>
                             </div>
                           </div>
                           <Separator className="mb-4" />
@@ -812,8 +952,22 @@ export default function CourseEditor() {
                                     <div className="flex items-center gap-3">
                                       <span className="text-sm text-gray-500">{lessonIndex + 1}.</span>
                                       <span className="text-sm">{lesson.title}</span>
+                                      {courseDocuments.length > 0 && <GroundingScore grounding={lesson.grounding} />}
                                     </div>
                                     <div className="flex gap-1">
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Check against the sources"
+                                        disabled={courseDocuments.length === 0 || checkGroundingMutation.isPending}
+                                        onClick={() => checkGroundingMutation.mutate(lesson.id)}
+                                      >
+                                        {checkGroundingMutation.isPending && checkGroundingMutation.variables === lesson.id ? (
+                                          <Loader2 className="w-3 h-3 animate-spin" />
+                                        ) : (
+                                          <ShieldCheck className="w-3 h-3" />
+                                        )}
+                                      </Button>
                                       <Button 
                                         variant="ghost" 
                                         size="sm"
@@ -821,6 +975,14 @@ export default function CourseEditor() {
                                       >
                                         <Eye className="w-3 h-3" />
                                       </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Regenerate with AI"
+                                        onClick={() => setRegenerateTarget({ kind: 'lesson', id: lesson.id, title: lesson.title })}
+                                      >
+                                        <Wand2 className="w-3 h-3" />
+                                      </Button>
                                       <Button 
                                         variant="ghost" 
                                         size="sm"
@@ -866,10 +1028,38 @@ export default function CourseEditor() {
                                             setActiveSourceReference(citationId);
                                             setShowSourcePanel(true);
                                           }}
+                                          glossary={glossary}
+                                          onGlossarySourceClick={showGlossarySource}
                                         />
                                       ) : (
                                         <p className="text-sm text-gray-500">No content available</p>
                                       )}
+                                      {lesson.grounding?.claims.some((claim: GroundedClaim) => claim.verdict !== 'supported') && (
+                                        <div className="mt-4 border-t pt-3">
+                                          <h5 className="font-medium text-sm mb-2">Not backed by the sources</h5>
+                                          <ul className="space-y-2 text-sm">
+                                            {lesson.grounding.claims
+                                              .filter((claim: GroundedClaim) => claim.verdict !== 'supported')
+                                              .map((claim: GroundedClaim, claimIndex: number) => (
+                                                <li
+                                                  key={claimIndex}
+                                                  className={`border-l-4 pl-3 ${claim.verdict === 'partial' ? 'border-yellow-400' : 'border-red-400'}`}
+                                                >
+                                                  <p className="text-gray-800">{claim.sentence}</p>
+                                                  <p className="text-gray-500">
+                                                    {claim.verdict === 'partial' ? 'Partly supported' : 'Unsupported'}
+                                                    {claim.note ? ` — ${claim.note}` : ''}
+                                                  </p>
+                                                  {claim.passage && (
+                                                    <p className="text-xs text-gray-500 italic mt-1">
+                                                      Closest passage{claim.documentName ? ` in ${claim.documentName}` : ''}: "{claim.passage}"
+                                                    </p>
+                                                  )}
+                                                </li>
+                                              ))}
+                                          </ul>
+                                        </div>
+                                      )}
                                     </div>
                                   )}
                                 </div>
@@ -900,6 +1090,14 @@ export default function CourseEditor() {
                                       </div>
                                     </div>
                                     <div className="flex gap-1">
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Regenerate with AI"
+                                        onClick={() => setRegenerateTarget({ kind: 'quiz', id: quiz.id, title: quiz.title })}
+                                      >
+                                        <Wand2 className="w-3 h-3" />
+                                      </Button>
                                       <Button 
                                         variant="ghost" 
                                         size="sm"
@@ -962,11 +1160,17 @@ export default function CourseEditor() {
               </CardContent>
             </Card>
 
+            <ObjectiveCoveragePanel courseId={courseId!} />
 
               </div>
             </div>
           </TabsContent>
 
+          {/* Glossary Tab */}
+          <TabsContent value="glossary" className="space-y-6">
+            <GlossaryEditor courseId={courseId!} onSourceClick={showGlossarySource} />
+          </TabsContent>
+
           {/* Documents Tab */}
           <TabsContent value="documents" className="space-y-6">
             <Card>
@@ -1009,6 +1213,9 @@ export default function CourseEditor() {
                             <p className="text-sm text-gray-500">
                               {(doc.fileSize / 1024 / 1024).toFixed(2)} MB • {doc.fileType.toUpperCase()}
                             </p>
+                            {doc.status === 'failed' && doc.processingError && (
+                              <p className="text-sm text-red-600 mt-1">{doc.processingError}</p>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-3">
@@ -1039,6 +1246,18 @@ export default function CourseEditor() {
                           <Button variant="ghost" size="sm">
                             <Eye className="w-4 h-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Replace file"
+                            onClick={() => {
+                              setReplacingDocumentId(doc.id);
+                              document.getElementById('doc-replace')?.click();
+                            }}
+                            disabled={replaceDocumentMutation.isPending}
+                          >
+                            <FileUp className="w-4 h-4" />
+                          </Button>
                           <Button 
                             variant="ghost" 
                             size="sm"
@@ -1071,6 +1290,8 @@ export default function CourseEditor() {
               </CardContent>
             </Card>
 
+            <DocumentInsightsPanel courseId={courseId!} />
+
             {/* AI Module Generation Card */}
             <Card className="bg-amber-50 border-amber-200">
               <CardHeader>
@@ -1116,14 +1337,25 @@ export default function CourseEditor() {
           className="hidden"
           onChange={handleFileUpload}
         />
+        <input
+          id="doc-replace"
+          type="file"
+          accept=".pdf,.doc,.docx,.txt,.md"
+          className="hidden"
+          onChange={handleReplaceDocument}
+        />
 
         {/* AI Generation Dialog */}
         {showAiGeneration && (
           <AiGenerationDialog
             open={showAiGeneration}
-            onOpenChange={setShowAiGeneration}
+            onOpenChange={(open) => {
+              setShowAiGeneration(open);
+              if (!open) refetchOutlineReviews();
+            }}
             courseId={courseId!}
             documents={courseDocuments}
+            reviewJobId={pendingReviewJobId}
             onComplete={async () => {
               // Force refresh all course-related data with a small delay to ensure DB writes are complete
               setTimeout(async () => {
@@ -1131,6 +1363,7 @@ export default function CourseEditor() {
                 await queryClient.refetchQueries({ queryKey: ['/api/courses', courseId] });
                 // Also refresh documents in case they were processed
                 await queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}/documents`] });
+                await queryClient.invalidateQueries({ queryKey: [`/api/courses/${courseId}/insights`] });
                 // Explicitly refetch the course data
                 await refetchCourse();
                 // Switch to content tab to show the new modules
@@ -1333,7 +1566,7 @@ export default function CourseEditor() {
                 fileName: doc.fileName,
                 processedContent: doc.processedContent || undefined
               }))}
-              sourceReferences={[]}
+              sourceReferences={glossarySourceReferences}
               selectedCitationId={activeSourceReference || undefined}
               onClose={() => setShowSourcePanel(false)}
             />
@@ -1378,8 +1611,43 @@ export default function CourseEditor() {
             moduleId={selectedModuleId}
             lessonId={selectedLessonId}
             courseId={courseId!}
+            objectives={quizObjectives}
           />
         )}
+
+        {/* Flashcard Deck Dialog */}
+        <FlashcardDeckDialog
+          open={!!flashcardModule}
+          onOpenChange={(open) => !open && setFlashcardModule(null)}
+          module={flashcardModule}
+          onRegenerate={() => {
+            setRegenerateTarget({ kind: 'flashcards', id: flashcardModule!.id, title: flashcardModule!.title });
+            setFlashcardModule(null);
+          }}
+        />
+
+        {/* Question Bank Dialog */}
+        <QuestionBankDialog
+          open={!!questionBankModule}
+          onOpenChange={(open) => !open && setQuestionBankModule(null)}
+          module={questionBankModule}
+        />
+
+        {/* Regenerate Dialog */}
+        <RegenerateDialog
+          open={!!regenerateTarget}
+          onOpenChange={(open) => !open && setRegenerateTarget(null)}
+          target={regenerateTarget}
+          onSuccess={() => {
+            if (regenerateTarget?.kind === 'quiz') {
+              fetchModuleQuizzes();
+            } else if (regenerateTarget?.kind === 'flashcards') {
+              queryClient.invalidateQueries({ queryKey: ['/api/modules', regenerateTarget.id, 'flashcards'] });
+            } else {
+              queryClient.invalidateQueries({ queryKey: ['/api/courses', courseId] });
+            }
+          }}
+        />
       </div>
     </div>
   );
@@ -30,14 +30,18 @@ import {
   Globe,
   ChevronLeft,
   ChevronRight,
-  SidebarOpen
+  SidebarOpen,
+  Layers
 } from "lucide-react";
 import { LessonViewer } from "@/components/lesson-viewer";
 import { SourceViewer } from "@/components/source-viewer";
+import TutorChat from "@/components/tutor-chat";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { QuizViewer } from "@/components/quiz-viewer";
 import { CelebrationEffect } from "@/components/celebration-effect";
 import { useCelebration } from "@/hooks/use-celebration";
 import { FileQuestion } from "lucide-react";
+import type { SourceReference } from "@shared/schema";
 
 export default function CourseViewer() {
   const params = useParams();
@@ -58,6 +62,7 @@ export default function CourseViewer() {
   const [currentTime, setCurrentTime] = useState(0);
   const [showSources, setShowSources] = useState(false);
   const [selectedCitationId, setSelectedCitationId] = useState<string | null>(null);
+  const [citedReferences, setCitedReferences] = useState<SourceReference[]>([]);
   const [moduleQuizzes, setModuleQuizzes] = useState<Record<string, any>>({});
   const [lessonQuizzes, setLessonQuizzes] = useState<Record<string, any>>({});
   
@@ -262,6 +267,12 @@ export default function CourseViewer() {
     setShowSources(true);
   };
 
+  // A tutor answer's citation opens the source panel on the passage it cites
+  const handleTutorCitationClick = (citationId: string, references: SourceReference[]) => {
+    setCitedReferences(references);
+    handleCitationClick(citationId);
+  };
+
   const navigateToNextLesson = () => {
     if (!course || !selectedModule || !selectedLesson) return;
     
@@ -418,6 +429,14 @@ export default function CourseViewer() {
                   <CheckCircle className="w-3 h-3 mr-1" />
                   Enrolled
                 </Badge>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLocation(`/learner/flashcards?courseId=${courseId}`)}
+                >
+                  <Layers className="w-4 h-4 mr-1" />
+                  Review Flashcards
+                </Button>
               </div>
             ) : (
               <Button
@@ -615,8 +634,6 @@ export default function CourseViewer() {
                 <div className="w-full">
                   <QuizViewer
                     quiz={selectedQuizType === 'lesson' ? lessonQuizzes[selectedLesson!] : moduleQuizzes[selectedModule!]}
-                    lessonId={selectedQuizType === 'lesson' && selectedLesson ? selectedLesson : undefined}
-                    moduleId={selectedQuizType === 'module' && selectedModule ? selectedModule : undefined}
                     onComplete={(passed, score) => {
                       // Find quiz title for celebration
                       const quizTitle = selectedQuizType === 'lesson' 
@@ -653,6 +670,7 @@ export default function CourseViewer() {
                   {/* Use LessonViewer Component without citations */}
                   <LessonViewer
                     lesson={selectedLessonData}
+                    courseId={course.id}
                     moduleTitle={selectedModuleData?.title}
                     isCompleted={false}
                     onComplete={handleLessonComplete}
@@ -674,10 +692,30 @@ export default function CourseViewer() {
                 </CardContent>
               </Card>
             )}
+
+            {isEnrolled && course.tutorEnabled && (
+              <TutorChat courseId={course.id} onCitationClick={handleTutorCitationClick} />
+            )}
           </div>
         </div>
       </div>
       
+      {/* Source Viewer Dialog */}
+      <Dialog open={showSources} onOpenChange={setShowSources}>
+        <DialogContent className="max-w-6xl w-full h-[80vh] p-0">
+          <SourceViewer
+            documents={(documents as any[]).map(doc => ({
+              id: doc.id,
+              fileName: doc.fileName,
+              processedContent: doc.processedContent || undefined
+            }))}
+            sourceReferences={citedReferences}
+            selectedCitationId={selectedCitationId || undefined}
+            onClose={() => setShowSources(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
       {/* Celebration Effect */}
       {celebrationData && (
         <CelebrationEffect
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import Navigation from "@/components/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, CheckCircle, Layers, Loader2, RotateCcw } from "lucide-react";
+import type { FlashcardReviewQueue } from "@shared/schema";
+
+type QueueCard = FlashcardReviewQueue['cards'][number];
+
+// SM-2 self-grades sent for each answer button; "Again" brings the card back later in the session
+const GRADES = [
+  { label: "Again", quality: 1, className: "border-red-200 text-red-700 hover:bg-red-50" },
+  { label: "Hard", quality: 3, className: "border-yellow-200 text-yellow-700 hover:bg-yellow-50" },
+  { label: "Good", quality: 4, className: "border-green-200 text-green-700 hover:bg-green-50" },
+  { label: "Easy", quality: 5, className: "border-blue-200 text-blue-700 hover:bg-blue-50" },
+];
+const PASSING_QUALITY = 3;
+// Time on one card beyond this is treated as the learner having stepped away
+const MAX_CARD_MS = 2 * 60 * 1000;
+
+export default function FlashcardReview() {
+  const [, setLocation] = useLocation();
+  const courseId = new URLSearchParams(useSearch()).get("courseId") || undefined;
+  const { toast } = useToast();
+
+  const [queue, setQueue] = useState<QueueCard[]>([]);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [sessionSize, setSessionSize] = useState(0);
+  // Study time is reported in whole minutes, carried over between reviews
+  const lastActivityRef = useRef(Date.now());
+  const studiedMsRef = useRef(0);
+  const reportedMinutesRef = useRef(0);
+
+  const { data, isLoading } = useQuery<FlashcardReviewQueue>({
+    queryKey: ["/api/flashcards/review-queue", courseId ?? "all"],
+    queryFn: async () => {
+      const url = courseId
+        ? `/api/flashcards/review-queue?courseId=${encodeURIComponent(courseId)}`
+        : "/api/flashcards/review-queue";
+      const response = await apiRequest("GET", url);
+      return response.json();
+    },
+    // The session works from its own copy of the queue
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setQueue(data.cards);
+      setSessionSize(data.cards.length);
+      setReviewedCount(0);
+      setRevealed(false);
+      lastActivityRef.current = Date.now();
+    }
+  }, [data]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ card, quality, timeSpent }: { card: QueueCard; quality: number; timeSpent: number }) => {
+      const response = await apiRequest("POST", `/api/flashcards/${card.id}/review`, { quality, timeSpent });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/learner/metrics"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Review Not Saved",
+        description: error.message || "An error occurred while saving your review.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = queue[0];
+
+  const grade = (quality: number) => {
+    if (!current) return;
+
+    const now = Date.now();
+    studiedMsRef.current += Math.min(now - lastActivityRef.current, MAX_CARD_MS);
+    lastActivityRef.current = now;
+    const timeSpent = Math.floor(studiedMsRef.current / 60000) - reportedMinutesRef.current;
+    reportedMinutesRef.current += timeSpent;
+
+    reviewMutation.mutate({ card: current, quality, timeSpent });
+    setReviewedCount(count => count + 1);
+    setRevealed(false);
+    setQueue(([reviewed, ...rest]) => (quality < PASSING_QUALITY ? [...rest, reviewed] : rest));
+  };
+
+  const remaining = queue.length;
+  const done = !isLoading && remaining === 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2 -ml-3" onClick={() => setLocation(courseId ? `/courses/${courseId}` : "/learner")}>
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              {courseId ? "Back to course" : "Back to dashboard"}
+            </Button>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Layers className="w-6 h-6 text-primary" />
+              Flashcard Review
+            </h1>
+          </div>
+          {data && (
+            <div className="flex gap-2">
+              <Badge variant="secondary">{data.dueCount} due</Badge>
+              <Badge variant="secondary">{data.newCount} new</Badge>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+          </div>
+        ) : done ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                {sessionSize > 0 ? "You're done for today" : "Nothing to review right now"}
+              </h3>
+              <p className="text-gray-600">
+                {sessionSize > 0
+                  ? `You reviewed ${reviewedCount} card${reviewedCount === 1 ? "" : "s"}. Cards come back when they are due again.`
+                  : "Cards from your enrolled courses appear here when they are due."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : current ? (
+          <>
+            <div className="mb-4">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>{remaining} card{remaining === 1 ? "" : "s"} left</span>
+                <span>{reviewedCount} reviewed</span>
+              </div>
+              <Progress value={sessionSize > 0 ? ((sessionSize - Math.min(remaining, sessionSize)) / sessionSize) * 100 : 0} className="h-2" />
+            </div>
+
+            <Card className="min-h-[320px] flex flex-col">
+              <CardHeader>
+                <div className="flex items-center justify-between text-sm text-gray-500">
+                  <span>{current.courseTitle} · {current.moduleTitle}</span>
+                  {!current.schedule && <Badge variant="outline">New</Badge>}
+                </div>
+                <CardTitle className="text-xl pt-4 text-center">{current.front}</CardTitle>
+              </CardHeader>
+              <CardContent className="flex-1 flex flex-col justify-end">
+                {revealed ? (
+                  <>
+                    <p className="text-center text-gray-700 border-t pt-6 mb-8">{current.back}</p>
+                    <div className="grid grid-cols-4 gap-2">
+                      {GRADES.map(({ label, quality, className }) => (
+                        <Button key={label} variant="outline" className={className} onClick={() => grade(quality)}>
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <Button className="w-full" onClick={() => setRevealed(true)}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Show Answer
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
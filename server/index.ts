@@ -5,6 +5,7 @@ import { setupVite, serveStatic, log } from "./vite";
 import { runMigrations } from "./migrate.js";
 import { runDeploymentMigrations } from "./deployMigrate.js";
 import { validateEnvironment } from "./env-check.js";
+import { jobWorker } from "./services/jobQueue";
 
 const app = express();
 // Increase payload size limit to 100MB for large file uploads
@@ -116,4 +117,12 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Process AI generation jobs in this process unless a separate worker
+  // (npm run start:worker) has been deployed for them
+  if (process.env.AI_WORKER_MODE !== "external") {
+    jobWorker.start().catch((error) => {
+      log(`AI job worker failed to start: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
 })();
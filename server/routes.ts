@@ -2,10 +2,20 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import path from "path";
+import { z } from "zod";
 import { storage } from "./storage";
 import { documentProcessor } from "./services/documentProcessor";
-import { templateGenerator } from "./services/templateGenerator";
-import { insertDocumentSchema, insertCourseSchema, insertCourseTemplateSchema, insertEnrollmentSchema } from "@shared/schema";
+import { llmProvider } from "./services/llmProvider";
+import { enqueueGenerationJob } from "./services/jobQueue";
+import { streamJobEvents, notifyJobUpdated } from "./services/jobEvents";
+import { contentRegenerator } from "./services/contentRegenerator";
+import { lessonText } from "./services/groundingVerifier";
+import { askTutor } from "./services/courseTutor";
+import { AIQuotaExceededError, assertWithinQuota, estimateGenerationTokens, getAiUsageSummary, withAiUsageContext } from "./services/aiUsage";
+import { getObjectiveCoverage } from "./services/learningObjectives";
+import { getReviewQueue, recordReview, MIN_REVIEW_QUALITY, MAX_REVIEW_QUALITY } from "./services/spacedRepetition";
+import { prepareAttempt, QuizAttemptChangedError, QuizAttemptLimitError, submitQuizAttempt, toLearnerAttempt, toLearnerQuiz } from "./services/quizGrading";
+import { insertDocumentSchema, insertCourseSchema, insertCourseTemplateSchema, insertEnrollmentSchema, insertGlossaryTermSchema, insertFlashcardSchema, insertQuizSchema, insertQuestionBankItemSchema, quizAnswersSchema, quizBankDrawSchema, courseOutlineSchema, learningObjectiveSchema, type AiProcessingJob, type Document, type DocumentInsights, type LearningObjective } from "@shared/schema";
 import { authenticate, AuthRequest } from "./auth";
 import { setupAuthRoutes } from "./authRoutes";
 
@@ -100,6 +110,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!courseId) {
         return res.status(400).json({ message: 'Course ID is required' });
       }
+      const course = await storage.getCourse(courseId);
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
 
       // Save document
       const documentData = {
@@ -117,16 +131,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Link the document to the course immediately
       await storage.addDocumentToCourse(courseId, document.id);
       
-      // Start AI processing for the course
-      documentProcessor.processDocumentAsync(
-        document.id,
-        req.user.id,
+      // Queue AI processing for the course
+      await enqueueGenerationJob({
+        documentIds: [document.id],
+        userId: req.user.id,
         courseId,
-        undefined, // jobId will be created internally
-        {}
-      ).catch(error => {
-        console.error("Document processing error:", error);
-        storage.updateDocument(document.id, { status: 'failed' });
       });
 
       res.json({ 
@@ -152,11 +161,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fileType: path.extname(req.file.originalname).toLowerCase(),
         storageUrl: req.file.path,
         uploadedBy: req.user.id,
-        status: 'completed' as const,
+        status: 'pending' as const,
       };
 
       const validatedData = insertDocumentSchema.parse(documentData);
       const document = await storage.createDocument(validatedData);
+
+      // Parse the file in the background; failures are recorded on the document
+      documentProcessor.extractDocumentContent(document).catch(() => {});
       
       res.json(document);
     } catch (error) {
@@ -165,6 +177,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Replace a document's file; its extracted text and cached analysis are discarded
+  app.put('/api/documents/:id/file', upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ message: 'Document not found' });
+      }
+      if (document.uploadedBy !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to replace this document' });
+      }
+
+      const replaced = await documentProcessor.replaceDocumentFile(document, {
+        fileName: req.file.originalname,
+        fileSize: req.file.size,
+        fileType: path.extname(req.file.originalname).toLowerCase(),
+        storageUrl: req.file.path,
+      });
+
+      // Parse the new file in the background; failures are recorded on the document. A generation job
+      // reading the document extracts the new file itself, so extracting it here as well would race with it
+      const activeJobs = await storage.getDocumentAiProcessingJobs(document.id, ['pending', 'processing']);
+      if (activeJobs.length === 0) {
+        documentProcessor.extractDocumentContent(replaced).catch(() => {});
+      }
+
+      res.json(replaced);
+    } catch (error) {
+      console.error("Error replacing document:", error);
+      res.status(500).json({ message: "Failed to replace document" });
+    }
+  });
+
   // Upload documents endpoint (supports multiple files and course linking)
   app.post('/api/documents/upload', upload.array('documents', 10), async (req: any, res) => {
     try {
@@ -174,6 +221,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!files || files.length === 0) {
         return res.status(400).json({ message: 'No files uploaded' });
       }
+      if (courseId) {
+        const course = await storage.getCourse(courseId);
+        if (!course || course.creatorId !== req.user.id) {
+          return res.status(403).json({ message: 'Not authorized to edit this course' });
+        }
+      }
 
       const uploadedDocuments = [];
       
@@ -185,7 +238,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fileType: path.extname(file.originalname).toLowerCase(),
           storageUrl: file.path,
           uploadedBy: req.user.id,
-          status: 'completed' as const,
+          status: 'pending' as const,
         };
 
         const validatedData = insertDocumentSchema.parse(documentData);
@@ -193,6 +246,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         uploadedDocuments.push(document);
       }
 
+      // Parse the files in the background; failures are recorded on each document
+      for (const document of uploadedDocuments) {
+        documentProcessor.extractDocumentContent(document).catch(() => {});
+      }
+
       // If courseId provided, link documents to course
       if (courseId) {
         const documentIds = uploadedDocuments.map(doc => doc.id);
@@ -220,24 +278,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // AI usage: model calls are billed in tokens against the creator's monthly quota
+  const sendQuotaExceeded = (res: any, error: unknown): boolean => {
+    if (!(error instanceof AIQuotaExceededError)) return false;
+    res.status(402).json({ message: error.message, code: 'AI_QUOTA_EXCEEDED', usage: error.usage });
+    return true;
+  };
+  // Documents not extracted yet are estimated from their file size
+  const estimateDocumentsTokens = async (documentIds: string[], options: any) => {
+    const documents = await Promise.all(documentIds.map(id => storage.getDocument(id)));
+    const sourceChars = documents.reduce((sum, doc) => sum + (doc ? doc.processedContent?.length ?? doc.fileSize : 0), 0);
+    return estimateGenerationTokens(sourceChars, options);
+  };
+
+  // Generation only reads documents the creator uploaded, so nobody can build a course from someone else's files
+  const ownsDocuments = async (documentIds: string[], userId: string) => {
+    const documents = await Promise.all(documentIds.map(id => storage.getDocument(id)));
+    return documents.every(doc => doc?.uploadedBy === userId);
+  };
+
+  app.get('/api/ai-usage', async (req: any, res) => {
+    try {
+      const usage = await getAiUsageSummary(req.user.id);
+      res.json(usage);
+    } catch (error) {
+      console.error("Error fetching AI usage:", error);
+      res.status(500).json({ message: "Failed to fetch AI usage" });
+    }
+  });
+
   // Course generation routes
   app.post('/api/courses/generate', async (req: any, res) => {
     try {
-      const { documentId, options = {} } = req.body;
+      const { documentId, documentIds, options = {} } = req.body;
+      const inputDocumentIds: string[] = Array.isArray(documentIds) && documentIds.length > 0
+        ? documentIds
+        : documentId ? [documentId] : [];
       
-      if (!documentId) {
+      if (inputDocumentIds.length === 0) {
         return res.status(400).json({ message: 'Document ID is required' });
       }
+      if (!(await ownsDocuments(inputDocumentIds, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to use these documents' });
+      }
+
+      await assertWithinQuota(req.user.id, await estimateDocumentsTokens(inputDocumentIds, options));
 
       // Start async processing
-      const courseId = await documentProcessor.processDocument(
-        documentId,
+      const courseId = await withAiUsageContext({ userId: req.user.id }, () => documentProcessor.processDocuments(
+        inputDocumentIds,
         req.user.id,
         options
-      );
+      ));
 
       res.json({ courseId, status: 'completed' });
     } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
       console.error("Error generating course:", error);
       res.status(500).json({ message: "Failed to generate course" });
     }
@@ -248,35 +344,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { courseId, documentIds, options = {} } = req.body;
       
-      if (!courseId || !documentIds || documentIds.length === 0) {
+      if (!courseId || !Array.isArray(documentIds) || documentIds.length === 0) {
         return res.status(400).json({ message: 'Course ID and document IDs are required' });
       }
+      // Checked before anything is linked, since links outlive a job that never runs
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+      if (!(await ownsDocuments(documentIds, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to use these documents' });
+      }
 
-      // Create processing job and start async processing
-      const job = await storage.createAiProcessingJob({
-        documentId: documentIds[0], // For now, use first document
-        status: 'pending',
-        phase: 'document_analysis',
-        progress: 0,
-      });
+      // Generate from the selected documents plus everything already linked to the course
+      const linkedDocuments = await storage.getCourseDocuments(courseId);
+      const linkedIds = new Set(linkedDocuments.map(doc => doc.id));
+      const newIds = Array.from(new Set<string>(documentIds)).filter(id => !linkedIds.has(id));
+      if (newIds.length > 0) {
+        await storage.addMultipleDocumentsToCourse(courseId, newIds);
+      }
+      const inputDocumentIds = Array.from(new Set<string>([...documentIds, ...Array.from(linkedIds)]));
 
-      // Start processing in background
-      documentProcessor.processDocumentAsync(
-        documentIds[0],
-        req.user.id,
+      // Refuse up front rather than let the job fail halfway through
+      await assertWithinQuota(req.user.id, await estimateDocumentsTokens(inputDocumentIds, options));
+
+      // Queue the job; a worker picks it up and survives server restarts
+      const job = await enqueueGenerationJob({
+        documentIds: inputDocumentIds,
+        userId: req.user.id,
         courseId,
-        job.id,
-        options
-      ).catch(error => {
-        console.error("Background processing error:", error);
-        storage.updateAiProcessingJob(job.id, {
-          status: 'failed',
-          error: error.message
-        });
+        options,
       });
 
       res.json({ jobId: job.id, status: 'processing' });
     } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
       console.error("Error starting course generation:", error);
       res.status(500).json({ message: "Failed to start course generation" });
     }
@@ -289,13 +394,326 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!job) {
         return res.status(404).json({ message: 'Job not found' });
       }
-      res.json(job);
+      // Tokens and cost of every model call the job made, across attempts
+      const usage = await storage.getAiUsageTotals({ jobId: job.id });
+      res.json({ ...job, usage });
     } catch (error) {
       console.error("Error fetching job status:", error);
       res.status(500).json({ message: "Failed to fetch job status" });
     }
   });
 
+  // Jobs belong to the creator who started them; older jobs fall back to the course owner
+  const isJobOwner = async (job: AiProcessingJob, userId: string) => {
+    if (job.userId) return job.userId === userId;
+    if (!job.courseId) return false;
+    const course = await storage.getCourse(job.courseId);
+    return course?.creatorId === userId;
+  };
+
+  // Live job progress as Server-Sent Events
+  app.get('/api/processing-jobs/:id/events', async (req: any, res) => {
+    try {
+      const job = await storage.getAiProcessingJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (!(await isJobOwner(job, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to view this job' });
+      }
+
+      streamJobEvents(job.id, res);
+    } catch (error) {
+      console.error("Error streaming job events:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ message: "Failed to stream job events" });
+      }
+    }
+  });
+
+  // Cancel a generation job; the worker stops at the next phase boundary and rolls back
+  app.post('/api/processing-jobs/:id/cancel', async (req: any, res) => {
+    try {
+      const job = await storage.getAiProcessingJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (!(await isJobOwner(job, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to cancel this job' });
+      }
+
+      // Not picked up yet, waiting to retry or parked for outline review: cancel on the spot
+      const cancelledPending = await storage.transitionAiProcessingJob(job.id, ['pending', 'awaiting_review'], {
+        status: 'cancelled',
+        cancelRequestedAt: new Date(),
+        error: 'Cancelled by the creator; generated content was rolled back',
+      });
+      if (cancelledPending) {
+        await documentProcessor.rollbackGeneration(job.id);
+        notifyJobUpdated(job.id);
+        return res.json(cancelledPending);
+      }
+
+      // Running: flag it for the worker
+      const flagged = await storage.transitionAiProcessingJob(job.id, ['processing'], {
+        cancelRequestedAt: new Date(),
+      });
+      if (flagged) {
+        notifyJobUpdated(job.id);
+        return res.status(202).json(flagged);
+      }
+
+      res.status(409).json({ message: `Job is already ${job.status}` });
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ message: "Failed to cancel job" });
+    }
+  });
+
+  // Re-run a failed job; completed phases are skipped using the job's checkpoint
+  app.post('/api/processing-jobs/:id/retry', async (req: any, res) => {
+    try {
+      const job = await storage.getAiProcessingJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (!(await isJobOwner(job, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to retry this job' });
+      }
+      if (!job.courseId || !job.userId) {
+        return res.status(409).json({ message: 'This job was not queued and cannot be retried' });
+      }
+
+      const retried = await storage.transitionAiProcessingJob(job.id, ['failed'], {
+        status: 'pending',
+        attempts: 0,
+        runAfter: new Date(),
+        cancelRequestedAt: null,
+        error: null,
+        failedStep: null,
+      });
+      if (!retried) {
+        return res.status(409).json({ message: `Only failed jobs can be retried (job is ${job.status})` });
+      }
+
+      res.json({ ...retried, resumeFrom: documentProcessor.resumePhase(job) });
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  // Outline draft of a job paused for review
+  app.get('/api/processing-jobs/:id/outline', async (req: any, res) => {
+    try {
+      const job = await storage.getAiProcessingJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (!(await isJobOwner(job, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to view this job' });
+      }
+
+      const outline = documentProcessor.getOutlineDraft(job);
+      if (!outline) {
+        return res.status(404).json({ message: 'This job has no outline yet' });
+      }
+      res.json({ jobId: job.id, status: job.status, outline });
+    } catch (error) {
+      console.error("Error fetching outline:", error);
+      res.status(500).json({ message: "Failed to fetch outline" });
+    }
+  });
+
+  // Save the creator's edits to the outline draft (PUT) or approve it and write the lessons (POST .../approve)
+  const handleOutlineUpdate = (approve: boolean) => async (req: any, res: any) => {
+    try {
+      const job = await storage.getAiProcessingJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      if (!(await isJobOwner(job, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to edit this job' });
+      }
+
+      // Approving without a body keeps the draft as generated
+      const submitted = req.body?.outline ?? (approve ? documentProcessor.getOutlineDraft(job) : undefined);
+      const parsed = courseOutlineSchema.safeParse(submitted);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid outline', errors: parsed.error.flatten() });
+      }
+
+      const updated = await documentProcessor.saveOutlineDraft(job, parsed.data, approve);
+      if (!updated) {
+        return res.status(409).json({ message: `Only outlines awaiting review can be changed (job is ${job.status})` });
+      }
+      notifyJobUpdated(job.id);
+
+      res.json({ jobId: updated.id, status: updated.status, outline: parsed.data });
+    } catch (error) {
+      console.error("Error updating outline:", error);
+      res.status(500).json({ message: "Failed to update outline" });
+    }
+  };
+  app.put('/api/processing-jobs/:id/outline', handleOutlineUpdate(false));
+  app.post('/api/processing-jobs/:id/outline/approve', handleOutlineUpdate(true));
+
+  // Generation jobs of a course, newest first; ?status=awaiting_review finds outlines left for review
+  app.get('/api/courses/:id/processing-jobs', async (req: any, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to view this course' });
+      }
+
+      const statuses = typeof req.query.status === 'string'
+        ? req.query.status.split(',') as AiProcessingJob['status'][]
+        : undefined;
+      res.json(await storage.getCourseAiProcessingJobs(course.id, statuses));
+    } catch (error) {
+      console.error("Error fetching course jobs:", error);
+      res.status(500).json({ message: "Failed to fetch course jobs" });
+    }
+  });
+
+  // Document insights: the structured analysis of the course's newest generation that produced one
+  app.get('/api/courses/:id/insights', async (req: any, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to view this course' });
+      }
+
+      const jobs = await storage.getCourseAiProcessingJobs(course.id);
+      const job = jobs.find(candidate => documentProcessor.getAnalysis(candidate));
+      if (!job) {
+        return res.status(404).json({ message: 'No document insights yet. Generate content from the course documents first.' });
+      }
+
+      const documentIds = job.documentIds && job.documentIds.length > 0 ? job.documentIds : [job.documentId];
+      const documents = await Promise.all(documentIds.map(id => storage.getDocument(id)));
+      const insights: DocumentInsights = {
+        jobId: job.id,
+        analyzedAt: job.updatedAt ? job.updatedAt.toISOString() : null,
+        documents: documents
+          .filter((document): document is Document => Boolean(document))
+          .map(document => ({ id: document.id, fileName: document.fileName })),
+        analysis: documentProcessor.getAnalysis(job)!,
+      };
+      res.json(insights);
+    } catch (error) {
+      console.error("Error fetching document insights:", error);
+      res.status(500).json({ message: "Failed to fetch document insights" });
+    }
+  });
+
+  // Objective coverage: how many quiz questions assess each module and lesson objective of the course
+  app.get('/api/courses/:id/objective-coverage', async (req: any, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to view this course' });
+      }
+
+      res.json(await getObjectiveCoverage(course.id));
+    } catch (error) {
+      console.error("Error fetching objective coverage:", error);
+      res.status(500).json({ message: "Failed to fetch objective coverage" });
+    }
+  });
+
+  // Glossary routes: learners read a course's glossary, its creator edits it
+  app.get('/api/courses/:id/glossary', async (req: any, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      // Terms quote passages of the creator's documents, so only the creator and enrolled learners see them
+      if (course.creatorId !== req.user.id && !(await storage.getEnrollment(req.user.id, course.id))) {
+        return res.status(403).json({ message: 'Enroll in the course to see its glossary' });
+      }
+
+      res.json(await storage.getCourseGlossary(course.id));
+    } catch (error) {
+      console.error("Error fetching glossary:", error);
+      res.status(500).json({ message: "Failed to fetch glossary" });
+    }
+  });
+
+  app.post('/api/courses/:id/glossary', async (req: any, res) => {
+    try {
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const parsed = insertGlossaryTermSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid glossary term', errors: parsed.error.flatten() });
+      }
+      const term = await storage.createGlossaryTerm({ ...parsed.data, courseId: course.id });
+      res.json(term);
+    } catch (error) {
+      console.error("Error creating glossary term:", error);
+      res.status(500).json({ message: "Failed to create glossary term" });
+    }
+  });
+
+  app.patch('/api/glossary/:id', async (req: any, res) => {
+    try {
+      const term = await storage.getGlossaryTerm(req.params.id);
+      if (!term) {
+        return res.status(404).json({ message: 'Glossary term not found' });
+      }
+      const course = await storage.getCourse(term.courseId);
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const parsed = insertGlossaryTermSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid glossary term', errors: parsed.error.flatten() });
+      }
+      const updated = await storage.updateGlossaryTerm(term.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating glossary term:", error);
+      res.status(500).json({ message: "Failed to update glossary term" });
+    }
+  });
+
+  app.delete('/api/glossary/:id', async (req: any, res) => {
+    try {
+      const term = await storage.getGlossaryTerm(req.params.id);
+      if (!term) {
+        return res.status(404).json({ message: 'Glossary term not found' });
+      }
+      const course = await storage.getCourse(term.courseId);
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      await storage.deleteGlossaryTerm(term.id);
+      res.json({ message: 'Glossary term deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting glossary term:", error);
+      res.status(500).json({ message: "Failed to delete glossary term" });
+    }
+  });
+
   // Course routes
   app.get('/api/courses', async (req: any, res) => {
     try {
@@ -440,6 +858,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!documentIds || !Array.isArray(documentIds)) {
         return res.status(400).json({ message: 'Document IDs are required' });
       }
+      if (!(await ownsDocuments(documentIds, req.user.id))) {
+        return res.status(403).json({ message: 'Not authorized to use these documents' });
+      }
 
       const courseDocuments = await storage.addMultipleDocumentsToCourse(req.params.id, documentIds);
       res.json(courseDocuments);
@@ -507,6 +928,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Learning objectives sent with a module or lesson; null when any is malformed
+  const INVALID_OBJECTIVES_MESSAGE = "Each learning objective needs an id, text and a Bloom's level";
+  const readObjectives = (value: unknown): LearningObjective[] | null => {
+    const parsed = learningObjectiveSchema.array().safeParse(value);
+    return parsed.success ? parsed.data : null;
+  };
+
   // Module routes
   app.post('/api/modules', async (req: any, res) => {
     try {
@@ -538,6 +966,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.patch('/api/modules/:id', async (req: any, res) => {
     try {
+      if (req.body.objectives !== undefined && !readObjectives(req.body.objectives)) {
+        return res.status(400).json({ message: INVALID_OBJECTIVES_MESSAGE });
+      }
       const updated = await storage.updateModule(req.params.id, req.body);
       res.json(updated);
     } catch (error) {
@@ -578,7 +1009,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.patch('/api/lessons/:id', async (req: any, res) => {
     try {
-      const updated = await storage.updateLesson(req.params.id, req.body);
+      if (req.body.objectives !== undefined && !readObjectives(req.body.objectives)) {
+        return res.status(400).json({ message: INVALID_OBJECTIVES_MESSAGE });
+      }
+      // The grounding check is the server's: it is kept while the lesson's text stays as it was checked
+      const { grounding: _grounding, ...updates } = req.body;
+      if (typeof updates.content === 'string') {
+        const lesson = await storage.getLesson(req.params.id);
+        if (lesson && lessonText(lesson.content) !== lessonText(updates.content)) {
+          updates.grounding = null;
+        }
+      }
+      const updated = await storage.updateLesson(req.params.id, updates);
       res.json(updated);
     } catch (error) {
       console.error("Error updating lesson:", error);
@@ -596,6 +1038,312 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Regeneration: rewrite existing content from the course's linked documents following creator instructions
+  const MAX_REGENERATE_INSTRUCTIONS = 2000;
+  const readRegenerateInstructions = (body: any): string | null => {
+    const instructions = body?.instructions ?? '';
+    if (typeof instructions !== 'string' || instructions.length > MAX_REGENERATE_INSTRUCTIONS) return null;
+    return instructions.trim();
+  };
+  const hasSourceDocuments = async (courseId: string) =>
+    (await storage.getCourseDocuments(courseId)).length > 0;
+
+  app.post('/api/lessons/:id/regenerate', async (req: any, res) => {
+    try {
+      const lesson = await storage.getLesson(req.params.id);
+      if (!lesson) {
+        return res.status(404).json({ message: 'Lesson not found' });
+      }
+      const module = await storage.getModule(lesson.moduleId);
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!module || !course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const instructions = readRegenerateInstructions(req.body);
+      if (instructions === null) {
+        return res.status(400).json({ message: `Instructions must be text of at most ${MAX_REGENERATE_INSTRUCTIONS} characters` });
+      }
+      if (!(await hasSourceDocuments(course.id))) {
+        return res.status(409).json({ message: 'Link source documents to the course before regenerating content' });
+      }
+      await assertWithinQuota(req.user.id);
+
+      const updated = await withAiUsageContext({ userId: req.user.id }, () =>
+        contentRegenerator.regenerateLesson(lesson, module, course, instructions));
+      res.json(updated);
+    } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
+      console.error("Error regenerating lesson:", error);
+      res.status(500).json({ message: "Failed to regenerate lesson" });
+    }
+  });
+
+  // Check the lesson as saved against the course's documents; the result is stored with the lesson
+  app.post('/api/lessons/:id/grounding', async (req: any, res) => {
+    try {
+      const lesson = await storage.getLesson(req.params.id);
+      if (!lesson) {
+        return res.status(404).json({ message: 'Lesson not found' });
+      }
+      const module = await storage.getModule(lesson.moduleId);
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!module || !course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      if (!(await hasSourceDocuments(course.id))) {
+        return res.status(409).json({ message: 'Link source documents to the course before checking lessons against them' });
+      }
+      await assertWithinQuota(req.user.id);
+
+      const updated = await withAiUsageContext({ userId: req.user.id }, () =>
+        contentRegenerator.checkGrounding(lesson, course));
+      res.json(updated);
+    } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
+      console.error("Error checking lesson grounding:", error);
+      res.status(500).json({ message: "Failed to check the lesson against its sources" });
+    }
+  });
+
+  app.post('/api/modules/:id/regenerate', async (req: any, res) => {
+    try {
+      const module = await storage.getModule(req.params.id);
+      if (!module) {
+        return res.status(404).json({ message: 'Module not found' });
+      }
+      const course = await storage.getCourse(module.courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const instructions = readRegenerateInstructions(req.body);
+      if (instructions === null) {
+        return res.status(400).json({ message: `Instructions must be text of at most ${MAX_REGENERATE_INSTRUCTIONS} characters` });
+      }
+      if (!(await hasSourceDocuments(course.id))) {
+        return res.status(409).json({ message: 'Link source documents to the course before regenerating content' });
+      }
+      await assertWithinQuota(req.user.id);
+
+      const lessons = await withAiUsageContext({ userId: req.user.id }, () =>
+        contentRegenerator.regenerateModule(module, course, instructions));
+      res.json({ module, lessons });
+    } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
+      console.error("Error regenerating module:", error);
+      res.status(500).json({ message: "Failed to regenerate module" });
+    }
+  });
+
+  app.post('/api/quizzes/:quizId/regenerate', async (req: any, res) => {
+    try {
+      const quiz = await storage.getQuiz(req.params.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: 'Quiz not found' });
+      }
+      const module = quiz.moduleId ? await storage.getModule(quiz.moduleId) : undefined;
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const instructions = readRegenerateInstructions(req.body);
+      if (instructions === null) {
+        return res.status(400).json({ message: `Instructions must be text of at most ${MAX_REGENERATE_INSTRUCTIONS} characters` });
+      }
+      if (!(await hasSourceDocuments(course.id))) {
+        return res.status(409).json({ message: 'Link source documents to the course before regenerating content' });
+      }
+      await assertWithinQuota(req.user.id);
+
+      const updated = await withAiUsageContext({ userId: req.user.id }, () =>
+        contentRegenerator.regenerateQuiz(quiz, course, instructions));
+      res.json(updated);
+    } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
+      console.error("Error regenerating quiz:", error);
+      res.status(500).json({ message: "Failed to regenerate quiz" });
+    }
+  });
+
+  // Flashcard routes: a module's deck is edited by the course creator and reviewed by enrolled learners
+  const flashcardContentSchema = insertFlashcardSchema.pick({ front: true, back: true });
+  // Study time a single review may add, so a card left open overnight does not count as hours of study
+  const MAX_REVIEW_MINUTES = 5;
+
+  app.get('/api/modules/:id/flashcards', async (req: any, res) => {
+    try {
+      const module = await storage.getModule(req.params.id);
+      if (!module) {
+        return res.status(404).json({ message: 'Module not found' });
+      }
+      const course = await storage.getCourse(module.courseId);
+      if (!course || (course.creatorId !== req.user.id && !(await storage.getEnrollment(req.user.id, course.id)))) {
+        return res.status(403).json({ message: 'Enroll in the course to review its flashcards' });
+      }
+
+      res.json(await storage.getModuleFlashcards(module.id));
+    } catch (error) {
+      console.error("Error fetching flashcards:", error);
+      res.status(500).json({ message: "Failed to fetch flashcards" });
+    }
+  });
+
+  app.post('/api/modules/:id/flashcards', async (req: any, res) => {
+    try {
+      const module = await storage.getModule(req.params.id);
+      if (!module) {
+        return res.status(404).json({ message: 'Module not found' });
+      }
+      const course = await storage.getCourse(module.courseId);
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const parsed = flashcardContentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid flashcard', errors: parsed.error.flatten() });
+      }
+      const deck = await storage.getModuleFlashcards(module.id);
+      const card = await storage.createFlashcard({ ...parsed.data, moduleId: module.id, orderIndex: deck.length });
+      res.json(card);
+    } catch (error) {
+      console.error("Error creating flashcard:", error);
+      res.status(500).json({ message: "Failed to create flashcard" });
+    }
+  });
+
+  app.post('/api/modules/:id/flashcards/regenerate', async (req: any, res) => {
+    try {
+      const module = await storage.getModule(req.params.id);
+      if (!module) {
+        return res.status(404).json({ message: 'Module not found' });
+      }
+      const course = await storage.getCourse(module.courseId);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const instructions = readRegenerateInstructions(req.body);
+      if (instructions === null) {
+        return res.status(400).json({ message: `Instructions must be text of at most ${MAX_REGENERATE_INSTRUCTIONS} characters` });
+      }
+      await assertWithinQuota(req.user.id);
+
+      const cards = await withAiUsageContext({ userId: req.user.id }, () =>
+        contentRegenerator.regenerateFlashcards(module, instructions));
+      res.json(cards);
+    } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
+      console.error("Error regenerating flashcards:", error);
+      res.status(500).json({ message: "Failed to regenerate flashcards" });
+    }
+  });
+
+  app.patch('/api/flashcards/:id', async (req: any, res) => {
+    try {
+      const card = await storage.getFlashcard(req.params.id);
+      if (!card) {
+        return res.status(404).json({ message: 'Flashcard not found' });
+      }
+      const module = await storage.getModule(card.moduleId);
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const parsed = flashcardContentSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid flashcard', errors: parsed.error.flatten() });
+      }
+      const updated = await storage.updateFlashcard(card.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating flashcard:", error);
+      res.status(500).json({ message: "Failed to update flashcard" });
+    }
+  });
+
+  app.delete('/api/flashcards/:id', async (req: any, res) => {
+    try {
+      const card = await storage.getFlashcard(req.params.id);
+      if (!card) {
+        return res.status(404).json({ message: 'Flashcard not found' });
+      }
+      const module = await storage.getModule(card.moduleId);
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      await storage.deleteFlashcard(card.id);
+      res.json({ message: 'Flashcard deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting flashcard:", error);
+      res.status(500).json({ message: "Failed to delete flashcard" });
+    }
+  });
+
+  // Today's review queue across the learner's enrolled courses, or of one course with ?courseId=
+  app.get('/api/flashcards/review-queue', async (req: any, res) => {
+    try {
+      const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+      res.json(await getReviewQueue(req.user.id, courseId));
+    } catch (error) {
+      console.error("Error fetching flashcard review queue:", error);
+      res.status(500).json({ message: "Failed to fetch flashcard review queue" });
+    }
+  });
+
+  // Grade a review (quality 0-5) and schedule the card's next one; timeSpent (minutes) counts as study time
+  app.post('/api/flashcards/:id/review', async (req: any, res) => {
+    try {
+      const { quality, timeSpent = 0 } = req.body;
+      if (!Number.isInteger(quality) || quality < MIN_REVIEW_QUALITY || quality > MAX_REVIEW_QUALITY) {
+        return res.status(400).json({ message: `Quality must be a whole number from ${MIN_REVIEW_QUALITY} to ${MAX_REVIEW_QUALITY}` });
+      }
+      if (typeof timeSpent !== 'number' || timeSpent < 0) {
+        return res.status(400).json({ message: 'Time spent must be a non-negative number of minutes' });
+      }
+
+      const card = await storage.getFlashcard(req.params.id);
+      if (!card) {
+        return res.status(404).json({ message: 'Flashcard not found' });
+      }
+      const module = await storage.getModule(card.moduleId);
+      if (!module || !(await storage.getEnrollment(req.user.id, module.courseId))) {
+        return res.status(403).json({ message: 'Enroll in the course to review its flashcards' });
+      }
+
+      const schedule = await recordReview(req.user.id, card.id, quality);
+      const studyMinutes = Math.min(Math.round(timeSpent), MAX_REVIEW_MINUTES);
+      if (studyMinutes > 0) {
+        await storage.updateLearningMetrics(req.user.id, studyMinutes);
+      }
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error recording flashcard review:", error);
+      res.status(500).json({ message: "Failed to record flashcard review" });
+    }
+  });
+
   // Course Template routes
   app.get('/api/templates', async (req: any, res) => {
     try {
@@ -632,12 +1380,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { title, targetAudience, difficultyLevel } = req.body;
 
+      await assertWithinQuota(req.user.id, estimateGenerationTokens(0));
+
       // Generate course structure from template
-      const courseStructure = await templateGenerator.generateCourseFromTemplate(template, {
+      const courseStructure = await withAiUsageContext({ userId: req.user.id }, () => llmProvider.generateCourseFromTemplate(template, {
         title,
         targetAudience,
         difficultyLevel
-      });
+      }));
 
       // Create the course
       const courseData = {
@@ -684,6 +1434,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedCourse = await storage.getCourse(course.id);
       res.json({ course: updatedCourse, message: 'Course generated successfully from template' });
     } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
       console.error("Error generating course from template:", error);
       res.status(500).json({ message: "Failed to generate course from template" });
     }
@@ -693,15 +1444,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { title, description, category, difficultyLevel, targetAudience, estimatedDuration } = req.body;
 
+      await assertWithinQuota(req.user.id, estimateGenerationTokens(0));
+
       // Generate custom course structure
-      const courseStructure = await templateGenerator.createCustomTemplate({
+      const courseStructure = await withAiUsageContext({ userId: req.user.id }, () => llmProvider.createCustomTemplate({
         title,
         description,
         category,
         difficultyLevel,
         targetAudience,
         estimatedDuration
-      });
+      }));
 
       // Create the course directly
       const courseData = {
@@ -747,6 +1500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedCourse = await storage.getCourse(course.id);
       res.json({ course: updatedCourse, message: 'Custom course generated successfully' });
     } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
       console.error("Error generating custom course:", error);
       res.status(500).json({ message: "Failed to generate custom course" });
     }
@@ -949,13 +1703,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Quiz routes
+  // Quiz routes. Learners get quizzes without their answers; attempts are graded on submission
   app.get('/api/quizzes/lesson/:lessonId', async (req: any, res) => {
     try {
       const { lessonId } = req.params;
       const quiz = await storage.getQuizByLessonId(lessonId);
-      console.log(`Quiz for lesson ${lessonId}:`, quiz);
-      res.json(quiz);
+      res.json(quiz ? toLearnerQuiz(quiz) : quiz);
     } catch (error) {
       console.error("Error fetching quiz for lesson:", error);
       res.status(500).json({ message: "Failed to fetch quiz" });
@@ -966,18 +1719,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { moduleId } = req.params;
       const quiz = await storage.getQuizByModuleId(moduleId);
-      res.json(quiz);
+      res.json(quiz ? toLearnerQuiz(quiz) : quiz);
     } catch (error) {
       console.error("Error fetching quiz for module:", error);
       res.status(500).json({ message: "Failed to fetch quiz" });
     }
   });
 
-  // Get all quizzes for a module (including lesson quizzes)
+  // Get all quizzes for a module (including lesson quizzes), answers included, for the course creator
   app.get('/api/modules/:moduleId/quizzes', async (req: any, res) => {
     try {
-      const { moduleId } = req.params;
-      const quizzes = await storage.getModuleQuizzes(moduleId);
+      const module = await storage.getModule(req.params.moduleId);
+      if (!module) {
+        return res.status(404).json({ message: 'Module not found' });
+      }
+      const course = await storage.getCourse(module.courseId);
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+
+      const quizzes = await storage.getModuleQuizzes(module.id);
       res.json(quizzes);
     } catch (error) {
       console.error("Error fetching module quizzes:", error);
@@ -988,18 +1749,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create a new quiz
   app.post('/api/quizzes', async (req: any, res) => {
     try {
-      const { moduleId, lessonId, title, questions, passingScore } = req.body;
+      const { moduleId, lessonId, title, questions, passingScore, maxAttempts, bankDraw } = req.body;
       
       if (!moduleId || !title || !questions) {
         return res.status(400).json({ message: "Missing required fields" });
       }
+      if (maxAttempts != null && !(Number.isInteger(maxAttempts) && maxAttempts >= 0)) {
+        return res.status(400).json({ message: 'Max attempts must be a whole number; 0 allows unlimited attempts' });
+      }
+      const parsedQuestions = insertQuizSchema.shape.questions.safeParse(questions);
+      if (!parsedQuestions.success) {
+        return res.status(400).json({ message: 'Invalid quiz questions', errors: parsedQuestions.error.flatten() });
+      }
+      const parsedBankDraw = quizBankDrawSchema.nullish().safeParse(bankDraw);
+      if (!parsedBankDraw.success) {
+        return res.status(400).json({ message: 'Invalid question bank rules', errors: parsedBankDraw.error.flatten() });
+      }
+
+      const module = await storage.getModule(moduleId);
+      if (!module) {
+        return res.status(404).json({ message: 'Module not found' });
+      }
+      const course = await storage.getCourse(module.courseId);
+      if (!course || course.creatorId !== req.user.id) {
+        return res.status(403).json({ message: 'Not authorized to edit this course' });
+      }
+      if (lessonId) {
+        const lesson = await storage.getLesson(lessonId);
+        if (!lesson || lesson.moduleId !== module.id) {
+          return res.status(400).json({ message: 'The lesson is not part of this module' });
+        }
+      }
 
       const quiz = await storage.createQuiz({
         moduleId,
         lessonId,
         title,
-        questions,
-        passingScore: passingScore || 70
+        questions: parsedQuestions.data,
+        passingScore: passingScore || 70,
+        ...(maxAttempts !== undefined ? { maxAttempts } : {}),
+        bankDraw: parsedBankDraw.data ?? null
       });
 
       res.json(quiz);
@@ -1009,16 +1798,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The quiz and its course, or the response already sent when the user may not edit it.
+  // Stored quizzes carry their answers, so only the course creator may change or read them back
+  const loadEditableQuiz = async (quizId: string, req: any, res: any) => {
+    const quiz = await storage.getQuiz(quizId);
+    if (!quiz) {
+      res.status(404).json({ message: 'Quiz not found' });
+      return null;
+    }
+    const module = quiz.moduleId ? await storage.getModule(quiz.moduleId) : undefined;
+    const course = module ? await storage.getCourse(module.courseId) : undefined;
+    if (!course || course.creatorId !== req.user.id) {
+      res.status(403).json({ message: 'Not authorized to edit this course' });
+      return null;
+    }
+    return quiz;
+  };
+
   // Update an existing quiz
   app.patch('/api/quizzes/:quizId', async (req: any, res) => {
     try {
       const { quizId } = req.params;
-      const { title, questions, passingScore } = req.body;
-      
+      if (!(await loadEditableQuiz(quizId, req, res))) return;
+      const { title, questions, passingScore, maxAttempts, bankDraw } = req.body;
+      if (maxAttempts != null && !(Number.isInteger(maxAttempts) && maxAttempts >= 0)) {
+        return res.status(400).json({ message: 'Max attempts must be a whole number; 0 allows unlimited attempts' });
+      }
+
       const updates: any = {};
       if (title !== undefined) updates.title = title;
-      if (questions !== undefined) updates.questions = questions;
+      if (questions !== undefined) {
+        const parsedQuestions = insertQuizSchema.shape.questions.safeParse(questions);
+        if (!parsedQuestions.success) {
+          return res.status(400).json({ message: 'Invalid quiz questions', errors: parsedQuestions.error.flatten() });
+        }
+        updates.questions = parsedQuestions.data;
+      }
       if (passingScore !== undefined) updates.passingScore = passingScore;
+      if (maxAttempts !== undefined) updates.maxAttempts = maxAttempts;
+      if (bankDraw !== undefined) {
+        const parsedBankDraw = quizBankDrawSchema.nullable().safeParse(bankDraw);
+        if (!parsedBankDraw.success) {
+          return res.status(400).json({ message: 'Invalid question bank rules', errors: parsedBankDraw.error.flatten() });
+        }
+        updates.bankDraw = parsedBankDraw.data;
+      }
 
       const quiz = await storage.updateQuiz(quizId, updates);
       res.json(quiz);
@@ -1032,6 +1856,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/quizzes/:quizId', async (req: any, res) => {
     try {
       const { quizId } = req.params;
+      if (!(await loadEditableQuiz(quizId, req, res))) return;
       await storage.deleteQuiz(quizId);
       res.json({ message: "Quiz deleted successfully" });
     } catch (error) {
@@ -1040,25 +1865,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Question bank routes: a module's pool of questions that bank-drawn quizzes sample each attempt from.
+  // The questions carry their answers, so only the course creator sees them
+  const questionBankEntrySchema = insertQuestionBankItemSchema.omit({ moduleId: true });
+  const MAX_BANK_ITEMS_PER_REQUEST = 100;
+  const MAX_BANK_QUESTIONS_PER_DIFFICULTY = 5;
+
+  // The module and course of a bank, or the response already sent when the user may not edit it
+  const loadEditableBankModule = async (moduleId: string, req: any, res: any) => {
+    const module = await storage.getModule(moduleId);
+    if (!module) {
+      res.status(404).json({ message: 'Module not found' });
+      return null;
+    }
+    const course = await storage.getCourse(module.courseId);
+    if (!course || course.creatorId !== req.user.id) {
+      res.status(403).json({ message: 'Not authorized to edit this course' });
+      return null;
+    }
+    return { module, course };
+  };
+
+  // Questions must belong to one of the module's lessons, or to none
+  const foreignLessonId = async (moduleId: string, lessonIds: (string | null | undefined)[]) => {
+    const moduleLessonIds = new Set((await storage.getModuleLessons(moduleId)).map(lesson => lesson.id));
+    return lessonIds.find(lessonId => lessonId && !moduleLessonIds.has(lessonId));
+  };
+
+  app.get('/api/modules/:id/question-bank', async (req: any, res) => {
+    try {
+      const loaded = await loadEditableBankModule(req.params.id, req, res);
+      if (!loaded) return;
+
+      res.json(await storage.getModuleQuestionBank(loaded.module.id));
+    } catch (error) {
+      console.error("Error fetching question bank:", error);
+      res.status(500).json({ message: "Failed to fetch question bank" });
+    }
+  });
+
+  // Add questions to the bank: { items: [{ question, lessonId?, difficulty? }] }
+  app.post('/api/modules/:id/question-bank', async (req: any, res) => {
+    try {
+      const loaded = await loadEditableBankModule(req.params.id, req, res);
+      if (!loaded) return;
+
+      const parsed = z.array(questionBankEntrySchema).min(1).max(MAX_BANK_ITEMS_PER_REQUEST).safeParse(req.body?.items);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid question bank items', errors: parsed.error.flatten() });
+      }
+      const foreign = await foreignLessonId(loaded.module.id, parsed.data.map(item => item.lessonId));
+      if (foreign) {
+        return res.status(400).json({ message: `Lesson ${foreign} is not part of this module` });
+      }
+
+      const items = await storage.createQuestionBankItems(parsed.data.map(item => ({ ...item, moduleId: loaded.module.id })));
+      res.json(items);
+    } catch (error) {
+      console.error("Error adding to question bank:", error);
+      res.status(500).json({ message: "Failed to add to question bank" });
+    }
+  });
+
+  // Generate easy, medium and hard questions on each lesson of the module into its bank
+  app.post('/api/modules/:id/question-bank/generate', async (req: any, res) => {
+    try {
+      const loaded = await loadEditableBankModule(req.params.id, req, res);
+      if (!loaded) return;
+
+      const perDifficulty = req.body?.perDifficulty ?? 2;
+      if (!Number.isInteger(perDifficulty) || perDifficulty < 1 || perDifficulty > MAX_BANK_QUESTIONS_PER_DIFFICULTY) {
+        return res.status(400).json({ message: `perDifficulty must be a whole number from 1 to ${MAX_BANK_QUESTIONS_PER_DIFFICULTY}` });
+      }
+      const instructions = readRegenerateInstructions(req.body);
+      if (instructions === null) {
+        return res.status(400).json({ message: `Instructions must be text of at most ${MAX_REGENERATE_INSTRUCTIONS} characters` });
+      }
+      await assertWithinQuota(req.user.id);
+
+      const items = await withAiUsageContext({ userId: req.user.id }, () =>
+        contentRegenerator.generateBankQuestions(loaded.module, loaded.course, perDifficulty, instructions));
+      res.json(items);
+    } catch (error) {
+      if (sendQuotaExceeded(res, error)) return;
+      console.error("Error generating question bank:", error);
+      res.status(500).json({ message: "Failed to generate question bank questions" });
+    }
+  });
+
+  app.patch('/api/question-bank/:id', async (req: any, res) => {
+    try {
+      const item = await storage.getQuestionBankItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+      const loaded = await loadEditableBankModule(item.moduleId, req, res);
+      if (!loaded) return;
+
+      const parsed = questionBankEntrySchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid question bank item', errors: parsed.error.flatten() });
+      }
+      const foreign = await foreignLessonId(item.moduleId, [parsed.data.lessonId]);
+      if (foreign) {
+        return res.status(400).json({ message: `Lesson ${foreign} is not part of this module` });
+      }
+
+      res.json(await storage.updateQuestionBankItem(item.id, parsed.data));
+    } catch (error) {
+      console.error("Error updating question bank item:", error);
+      res.status(500).json({ message: "Failed to update question bank item" });
+    }
+  });
+
+  app.delete('/api/question-bank/:id', async (req: any, res) => {
+    try {
+      const item = await storage.getQuestionBankItem(req.params.id);
+      if (!item) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+      const loaded = await loadEditableBankModule(item.moduleId, req, res);
+      if (!loaded) return;
+
+      await storage.deleteQuestionBankItem(item.id);
+      res.json({ message: 'Question deleted successfully' });
+    } catch (error) {
+      console.error("Error deleting question bank item:", error);
+      res.status(500).json({ message: "Failed to delete question bank item" });
+    }
+  });
+
+  // The learner's next attempt at a quiz; bank-drawn quizzes draw its questions from the module's bank
+  // Enrolled learners take a course's quizzes; its creator may too, to preview them
+  const canTakeQuizzes = async (course: { id: string; creatorId: string }, userId: string) =>
+    course.creatorId === userId || Boolean(await storage.getEnrollment(userId, course.id));
+
+  app.get('/api/quizzes/:quizId/attempt', async (req: any, res) => {
+    try {
+      const quiz = await storage.getQuiz(req.params.quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: 'Quiz not found' });
+      }
+      const module = quiz.moduleId ? await storage.getModule(quiz.moduleId) : undefined;
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (!(await canTakeQuizzes(course, req.user.id))) {
+        return res.status(403).json({ message: 'Enroll in the course to take its quizzes' });
+      }
+
+      res.json(await prepareAttempt(quiz, req.user.id));
+    } catch (error) {
+      console.error("Error preparing quiz attempt:", error);
+      res.status(500).json({ message: "Failed to prepare quiz attempt" });
+    }
+  });
+
+  // Grade a learner's answers against the stored questions and record the attempt.
+  // Short answers are graded by the model, billed to the course creator
   app.post('/api/quiz-attempts', async (req: any, res) => {
     try {
-      const { quizId, lessonId, moduleId, score, answers, attemptNumber } = req.body;
       const userId = req.user?.id;
-      
       if (!userId) {
         return res.status(401).json({ message: "User not authenticated" });
       }
+      const { quizId, seed } = req.body;
+      if (typeof quizId !== 'string') {
+        return res.status(400).json({ message: 'quizId is required' });
+      }
+      if (seed !== undefined && !Number.isInteger(seed)) {
+        return res.status(400).json({ message: 'seed must be the whole number the attempt was served with' });
+      }
+      const parsedAnswers = quizAnswersSchema.safeParse(req.body.answers);
+      if (!parsedAnswers.success) {
+        return res.status(400).json({ message: 'Invalid quiz answers', errors: parsedAnswers.error.flatten() });
+      }
 
-      const attempt = await storage.createQuizAttempt({
-        quizId,
-        learnerId: userId,
-        score,
-        answers,
-        attemptNumber: attemptNumber || 1
-      });
+      const quiz = await storage.getQuiz(quizId);
+      if (!quiz) {
+        return res.status(404).json({ message: 'Quiz not found' });
+      }
+      const module = quiz.moduleId ? await storage.getModule(quiz.moduleId) : undefined;
+      const course = module ? await storage.getCourse(module.courseId) : undefined;
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (!(await canTakeQuizzes(course, userId))) {
+        return res.status(403).json({ message: 'Enroll in the course to take its quizzes' });
+      }
 
-      res.json(attempt);
+      const result = await withAiUsageContext({ userId: course.creatorId }, () =>
+        submitQuizAttempt(quiz, userId, parsedAnswers.data, seed));
+      res.json(result);
     } catch (error) {
+      if (error instanceof QuizAttemptLimitError) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error instanceof QuizAttemptChangedError) {
+        return res.status(409).json({ message: error.message });
+      }
+      // The learner can't do anything about the creator's quota, so it isn't reported as theirs; the attempt isn't used up
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(503).json({ message: 'Your answers cannot be graded right now. Please try again later.' });
+      }
       console.error("Error saving quiz attempt:", error);
       res.status(500).json({ message: "Failed to save quiz attempt" });
     }
@@ -1074,18 +2084,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const attempts = await storage.getUserQuizAttempts(userId, quizId);
-      res.json(attempts);
+      res.json(attempts.map(toLearnerAttempt));
     } catch (error) {
       console.error("Error fetching quiz attempts:", error);
       res.status(500).json({ message: "Failed to fetch quiz attempts" });
     }
   });
 
+  // Tutor routes: each enrolled learner has their own conversation with a course's tutor.
+  // Answers are billed to the course creator, who can turn the tutor off
+  const tutorQuestionSchema = z.object({ message: z.string().trim().min(1).max(2000) });
+
+  // The course of a tutor conversation, or the response already sent when the user can't use it
+  const loadTutorCourse = async (courseId: string, req: any, res: any) => {
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      res.status(404).json({ message: 'Course not found' });
+      return undefined;
+    }
+    if (course.creatorId !== req.user.id && !(await storage.getEnrollment(req.user.id, course.id))) {
+      res.status(403).json({ message: 'Enroll in the course to ask its tutor' });
+      return undefined;
+    }
+    return course;
+  };
+
+  app.get('/api/courses/:id/tutor/messages', async (req: any, res) => {
+    try {
+      const course = await loadTutorCourse(req.params.id, req, res);
+      if (!course) return;
+
+      res.json(await storage.getTutorMessages(req.user.id, course.id));
+    } catch (error) {
+      console.error("Error fetching tutor messages:", error);
+      res.status(500).json({ message: "Failed to fetch tutor messages" });
+    }
+  });
+
+  app.post('/api/courses/:id/tutor/messages', async (req: any, res) => {
+    try {
+      const course = await loadTutorCourse(req.params.id, req, res);
+      if (!course) return;
+      if (!course.tutorEnabled) {
+        return res.status(403).json({ message: 'The tutor is turned off for this course' });
+      }
+
+      const parsed = tutorQuestionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid question', errors: parsed.error.flatten() });
+      }
+
+      const messages = await withAiUsageContext({ userId: course.creatorId }, () =>
+        askTutor(course, req.user.id, parsed.data.message));
+      res.json(messages);
+    } catch (error) {
+      // As with quiz grading, the creator's quota isn't the learner's to fix
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(503).json({ message: "The tutor can't answer right now. Please try again later." });
+      }
+      console.error("Error answering tutor question:", error);
+      res.status(500).json({ message: "Failed to answer question" });
+    }
+  });
+
+  app.delete('/api/courses/:id/tutor/messages', async (req: any, res) => {
+    try {
+      const course = await loadTutorCourse(req.params.id, req, res);
+      if (!course) return;
+
+      await storage.deleteTutorMessages(req.user.id, course.id);
+      res.json({ message: 'Conversation cleared' });
+    } catch (error) {
+      console.error("Error clearing tutor messages:", error);
+      res.status(500).json({ message: "Failed to clear conversation" });
+    }
+  });
+
   // Create module
   app.post('/api/courses/:courseId/modules', async (req: any, res) => {
     try {
       const { courseId } = req.params;
       const { title, description } = req.body;
+      const objectives = readObjectives(req.body.objectives ?? []);
+      if (!objectives) {
+        return res.status(400).json({ message: INVALID_OBJECTIVES_MESSAGE });
+      }
       
       // Get the current modules to determine the order index
       const existingModules = await storage.getCourseModules(courseId);
@@ -1096,7 +2179,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title,
         description,
         orderIndex,
-        estimatedDuration: 0
+        estimatedDuration: 0,
+        objectives
       };
       
       const module = await storage.createModule(moduleData);
@@ -1145,6 +2229,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { moduleId } = req.params;
       const { title, content } = req.body;
+      const objectives = readObjectives(req.body.objectives ?? []);
+      if (!objectives) {
+        return res.status(400).json({ message: INVALID_OBJECTIVES_MESSAGE });
+      }
       
       // Get the current lessons to determine the order index
       const existingLessons = await storage.getModuleLessons(moduleId);
@@ -1155,7 +2243,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         title,
         content,
         orderIndex,
-        estimatedDuration: 5
+        estimatedDuration: 5,
+        objectives
       };
       
       const lesson = await storage.createLesson(lessonData);
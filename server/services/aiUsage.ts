@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { storage } from '../storage';
+import type { AIGenerationOptions } from './llmProvider';
+import type { AiUsageSummary } from '@shared/schema';
+
+// Monthly token budget of creators without their own aiMonthlyTokenQuota
+export const DEFAULT_MONTHLY_TOKEN_QUOTA = parseInt(process.env.AI_MONTHLY_TOKEN_QUOTA || '', 10) || 5_000_000;
+
+// USD per million tokens. AI_MODEL_PRICES (JSON, same shape) adds or overrides models
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+  ...parseModelPrices(process.env.AI_MODEL_PRICES),
+};
+
+// Who a model call is billed to; set around a job run or a request that calls the model
+export interface AiUsageContext {
+  userId: string;
+  jobId?: string;
+}
+
+// Thrown before a model call or generation that the creator's remaining monthly quota cannot cover
+export class AIQuotaExceededError extends Error {
+  constructor(readonly usage: AiUsageSummary, readonly estimatedTokens = 0) {
+    super(estimatedTokens > 0
+      ? `This generation needs about ${estimatedTokens.toLocaleString('en-US')} tokens but only ${usage.remainingTokens.toLocaleString('en-US')} of your ${usage.quotaTokens.toLocaleString('en-US')} monthly AI tokens remain`
+      : `Your monthly AI quota of ${usage.quotaTokens.toLocaleString('en-US')} tokens is used up`);
+    this.name = 'AIQuotaExceededError';
+  }
+}
+
+const usageScope = new AsyncLocalStorage<AiUsageContext>();
+
+// Run `fn` with every model call made inside it billed to `context`
+export function withAiUsageContext<T>(context: AiUsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageScope.run(context, fn);
+}
+
+export async function getAiUsageSummary(userId: string, now = new Date()): Promise<AiUsageSummary> {
+  const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const periodEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+  const [user, totals] = await Promise.all([
+    storage.getUser(userId),
+    storage.getAiUsageTotals({ userId, since: periodStart }),
+  ]);
+  const quotaTokens = user?.aiMonthlyTokenQuota ?? DEFAULT_MONTHLY_TOKEN_QUOTA;
+  const usedTokens = totals.inputTokens + totals.outputTokens;
+
+  return {
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    quotaTokens,
+    usedTokens,
+    remainingTokens: Math.max(0, quotaTokens - usedTokens),
+    inputTokens: totals.inputTokens,
+    outputTokens: totals.outputTokens,
+    costUsd: Math.round(totals.costUsd * 10_000) / 10_000,
+    calls: totals.calls,
+  };
+}
+
+// Throw AIQuotaExceededError unless `estimatedTokens` (at least one) fit in the creator's remaining quota
+export async function assertWithinQuota(userId: string, estimatedTokens = 0): Promise<AiUsageSummary> {
+  const usage = await getAiUsageSummary(userId);
+  if (usage.remainingTokens < Math.max(estimatedTokens, 1)) {
+    throw new AIQuotaExceededError(usage, estimatedTokens);
+  }
+  return usage;
+}
+
+// Checked before each model call so a running job stops once its creator's quota is spent
+export async function assertCallWithinQuota(): Promise<void> {
+  const context = usageScope.getStore();
+  if (context) {
+    await assertWithinQuota(context.userId);
+  }
+}
+
+export async function recordModelUsage(
+  call: string,
+  provider: string,
+  model: string,
+  usage: { inputTokens: number; outputTokens: number }
+): Promise<void> {
+  const context = usageScope.getStore();
+  if (!context) {
+    console.warn(`Model call ${call} was made outside a usage context and is not attributed to a creator`);
+    return;
+  }
+
+  const price = MODEL_PRICES[model];
+  const costUsd = price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000 : 0;
+  try {
+    await storage.createAiUsageEvent({
+      userId: context.userId,
+      jobId: context.jobId ?? null,
+      provider,
+      model,
+      call,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd,
+    });
+  } catch (error) {
+    // Losing one accounting row must not fail the generation that already paid for the call
+    console.error(`Failed to record AI usage for ${call}:`, error);
+  }
+}
+
+/**
+ * Rough upper bound of the tokens a course generation uses, checked against
+ * the quota before the job is queued: the source is read about twice
+ * (analysis and writing), each lesson is ~1,500 output tokens plus ~12,000
+ * to check it against the source passages, each quiz question ~150 and each
+ * flashcard ~60.
+ */
+export function estimateGenerationTokens(sourceChars: number, options: AIGenerationOptions = {}): number {
+  const moduleCount = options.moduleCount || 3;
+  const lessonCount = moduleCount * 4;
+  const quizCount = options.generateQuizzes ? (options.quizFrequency === 'lesson' ? lessonCount : moduleCount) : 0;
+  const flashcardCount = options.generateFlashcards ? moduleCount * (options.flashcardsPerModule || 10) : 0;
+  return Math.ceil(sourceChars / 4) * 2 + lessonCount * (1_500 + 12_000) + quizCount * (options.questionsPerQuiz || 5) * 150
+    + flashcardCount * 60;
+}
+
+function parseModelPrices(raw: string | undefined): Record<string, { input: number; output: number }> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.warn('AI_MODEL_PRICES is not valid JSON; using the built-in prices');
+    return {};
+  }
+}
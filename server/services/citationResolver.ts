@@ -0,0 +1,165 @@
+import type { DocumentChunk, SourceReference } from '@shared/schema';
+
+export interface CitableChunk {
+  chunk: DocumentChunk;
+  documentName: string;
+}
+
+export interface ResolvedCitations {
+  content: string;
+  sourceReferences: SourceReference[];
+}
+
+// Matches chunk citations emitted by the model, e.g. [C4] or [C4, C7]
+const CHUNK_CITATION_PATTERN = /\[\s*(C\d+(?:\s*[,;]\s*C\d+)*)\s*\]/g;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'one', 'our', 'has', 'have',
+  'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'which', 'when',
+  'into', 'than', 'then', 'them', 'these', 'those', 'such', 'also', 'been', 'were', 'its', 'each',
+]);
+
+/**
+ * Replace chunk citations such as [C4] in generated lesson HTML with the
+ * numbered markers the viewers render ([1], [2], ...) and build a
+ * SourceReference for each one. References point at the sentence inside the
+ * cited chunk that best matches the claim, using offsets into the original
+ * document text. `sourceReferences[n - 1]` always backs marker `[n]`.
+ */
+export function resolveChunkCitations(content: string, chunksByLabel: Map<string, CitableChunk>): ResolvedCitations {
+  const sourceReferences: SourceReference[] = [];
+  const numberByKey = new Map<string, number>();
+
+  const resolved = content.replace(CHUNK_CITATION_PATTERN, (match, labels: string, offset: number) => {
+    const claim = lastSentence(stripHtml(content.slice(Math.max(0, offset - 400), offset)));
+
+    const markers = labels
+      .split(/[,;]/)
+      .map(label => label.trim().toUpperCase())
+      .map(label => {
+        const reference = resolveChunkReference(label, claim, chunksByLabel);
+        if (!reference) return '';
+
+        let number = numberByKey.get(reference.id);
+        if (!number) {
+          number = sourceReferences.length + 1;
+          numberByKey.set(reference.id, number);
+          sourceReferences.push(reference);
+        }
+        return `[${number}]`;
+      });
+
+    return markers.join('');
+  });
+
+  return { content: resolved, sourceReferences };
+}
+
+// The reference for a claim citing one chunk label, pointing at the chunk's best matching sentence
+export function resolveChunkReference(
+  label: string,
+  claim: string,
+  chunksByLabel: Map<string, CitableChunk>
+): SourceReference | undefined {
+  const citable = chunksByLabel.get(label.trim().toUpperCase());
+  if (!citable) return undefined;
+
+  const span = bestMatchingSpan(citable.chunk, claim);
+  return {
+    id: `ref-${citable.chunk.id}-${span.start}`,
+    documentId: citable.chunk.documentId,
+    documentName: citable.documentName,
+    pageNumber: citable.chunk.pageNumber ?? undefined,
+    sectionTitle: citable.chunk.sectionTitle ?? undefined,
+    chunkId: citable.chunk.id,
+    startOffset: citable.chunk.startOffset + span.start,
+    endOffset: citable.chunk.startOffset + span.end,
+    text: citable.chunk.content.slice(span.start, span.end).trim(),
+    context: citable.chunk.content,
+  };
+}
+
+// The label of the chunk a saved reference points at. Older references have no chunkId; the chunk whose range and text contain them is accepted instead
+export function labelForReference(reference: SourceReference, chunksByLabel: Map<string, CitableChunk>): string | undefined {
+  let found: string | undefined;
+  chunksByLabel.forEach(({ chunk }, label) => {
+    if (found) return;
+    const matches = reference.chunkId
+      ? chunk.id === reference.chunkId
+      : chunk.documentId === reference.documentId
+        && chunk.startOffset <= reference.startOffset
+        && reference.startOffset < chunk.endOffset
+        && chunk.content.includes(reference.text.slice(0, 60));
+    if (matches) found = label;
+  });
+  return found;
+}
+
+// Replace the [n] markers of saved content with the chunk labels of the references behind them, the reverse of resolveChunkCitations
+export function toChunkCitations(content: string, references: SourceReference[], chunksByLabel: Map<string, CitableChunk>): string {
+  return content.replace(/\[(\d+)\]/g, (marker, number: string) => {
+    const reference = references[parseInt(number, 10) - 1];
+    const label = reference ? labelForReference(reference, chunksByLabel) : undefined;
+    // References that no longer map to a chunk (document unlinked or re-extracted) are dropped
+    return label ? `[${label}]` : '';
+  });
+}
+
+/**
+ * Find the sentence in a chunk sharing the most significant words with the
+ * claim. Offsets are relative to the chunk content.
+ */
+function bestMatchingSpan(chunk: DocumentChunk, claim: string): { start: number; end: number } {
+  const claimWords = significantWords(claim);
+  const sentencePattern = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+
+  let best = { start: 0, end: chunk.content.length };
+  let bestScore = 0;
+  let match;
+  while ((match = sentencePattern.exec(chunk.content)) !== null) {
+    if (match[0].length === 0) {
+      sentencePattern.lastIndex++;
+      continue;
+    }
+    const sentence = match[0];
+    if (sentence.trim().length < 20) continue;
+
+    const words = significantWords(sentence);
+    let overlap = 0;
+    words.forEach(word => {
+      if (claimWords.has(word)) overlap++;
+    });
+    const score = words.size > 0 ? overlap / Math.sqrt(words.size) : 0;
+
+    if (score > bestScore) {
+      bestScore = score;
+      const leading = sentence.length - sentence.trimStart().length;
+      best = {
+        start: match.index + leading,
+        end: match.index + sentence.trimEnd().length,
+      };
+    }
+  }
+
+  return best;
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/&[a-z]+;/gi, ' ');
+}
+
+function lastSentence(text: string): string {
+  const sentences = text.split(/[.!?]\s/).map(s => s.trim()).filter(Boolean);
+  return sentences[sentences.length - 1] || text.trim();
+}
@@ -0,0 +1,232 @@
+import { llmProvider } from './llmProvider';
+import { documentProcessor, type SourceMaterial } from './documentProcessor';
+import { findRelevantChunks, formatLabelledChunks } from './mapReduceGenerator';
+import { labelForReference, resolveChunkCitations, toChunkCitations } from './citationResolver';
+import { storage } from '../storage';
+import { isTitleDuplicate } from '../utils/deduplication';
+import { reviewQuestion } from '@shared/quizQuality';
+import { withoutRepeats } from './similarity';
+import { verifyGrounding } from './groundingVerifier';
+import { AIQuotaExceededError } from './aiUsage';
+import { QUESTION_DIFFICULTIES } from '@shared/schema';
+import type { Course, Flashcard, InsertQuestionBankItem, Lesson, LessonGrounding, Module, QuestionBankItem, QuestionDifficulty, Quiz, SourceReference } from '@shared/schema';
+
+// Chunks sent with a revision: those the lesson already cites plus the best matches for the instructions
+const MAX_REVISION_CHUNKS = 12;
+const RELEVANT_CHUNKS_PER_REVISION = 6;
+const MAX_QUIZ_SOURCE_CHUNKS = 8;
+const DEFAULT_DECK_SIZE = 10;
+// Bank questions of each difficulty are generated at the matching course difficulty level
+const BANK_DIFFICULTY_LEVELS: Record<QuestionDifficulty, string> = {
+  easy: 'beginner',
+  medium: 'intermediate',
+  hard: 'advanced',
+};
+
+/**
+ * Rewrites one lesson, every lesson of a module, one quiz or a module's
+ * flashcard deck of an existing course following free-text creator
+ * instructions, and adds generated questions to a module's question bank.
+ * Revisions are grounded in
+ * the course's linked documents: existing [n] markers are mapped back to
+ * their chunk labels before the rewrite and resolved again afterwards, so
+ * citations keep pointing at the same source passages. Revised lessons are
+ * checked against those passages again, as is a lesson a creator asks to
+ * have checked.
+ */
+export class ContentRegenerator {
+  async regenerateLesson(lesson: Lesson, module: Module, course: Course, instructions: string): Promise<Lesson> {
+    const source = await this.loadCourseSource(course.id);
+    return this.reviseLesson(lesson, module, course, instructions, source);
+  }
+
+  async regenerateModule(module: Module, course: Course, instructions: string): Promise<Lesson[]> {
+    const source = await this.loadCourseSource(course.id);
+    const lessons = await storage.getModuleLessons(module.id);
+
+    const revised: Lesson[] = [];
+    for (const lesson of lessons) {
+      revised.push(await this.reviseLesson(lesson, module, course, instructions, source));
+    }
+    return revised;
+  }
+
+  // Check the lesson as it is saved against the course's documents and store the result
+  async checkGrounding(lesson: Lesson, course: Course): Promise<Lesson> {
+    const source = await this.loadCourseSource(course.id);
+    const references = (lesson.sourceReferences as SourceReference[] | null) ?? [];
+    const grounding = await verifyGrounding(lesson.content, source.citableChunks, references);
+    return storage.updateLesson(lesson.id, { grounding });
+  }
+
+  async regenerateQuiz(quiz: Quiz, course: Course, instructions: string): Promise<Quiz> {
+    const lessons = quiz.lessonId
+      ? [await storage.getLesson(quiz.lessonId)].filter((lesson): lesson is Lesson => Boolean(lesson))
+      : quiz.moduleId ? await storage.getModuleLessons(quiz.moduleId) : [];
+    if (lessons.length === 0) {
+      throw new Error('The quiz has no lesson content to generate questions from');
+    }
+
+    const source = await this.loadCourseSource(course.id);
+    const content = this.quizContent(lessons, source);
+
+    // New questions assess the same objectives a generated quiz would: the lesson's, or the module's and its lessons'
+    const module = !quiz.lessonId && quiz.moduleId ? await storage.getModule(quiz.moduleId) : undefined;
+    const objectives = [...(module?.objectives ?? []), ...lessons.flatMap(lesson => lesson.objectives ?? [])];
+
+    // The new questions keep the quiz's size and the question types it uses
+    const existing = Array.isArray(quiz.questions) ? quiz.questions : [];
+    const count = existing.length > 0 ? existing.length : 5;
+    const questionTypes = Array.from(new Set(existing.map(question => question.type)));
+    const generated = await llmProvider.generateQuizQuestions(
+      content,
+      count,
+      course.difficultyLevel || 'intermediate',
+      instructions || undefined,
+      objectives,
+      questionTypes.length > 0 ? questionTypes : undefined
+    );
+
+    const questions = (await withoutRepeats(generated, question => question.question)).map(question => reviewQuestion(question, content));
+    if (questions.length === 0) {
+      throw new Error('No quiz questions were generated');
+    }
+
+    return storage.updateQuiz(quiz.id, { questions });
+  }
+
+  /**
+   * Add `perDifficulty` easy, medium and hard questions on each of the
+   * module's lessons to its question bank. Questions the bank already asks
+   * are skipped.
+   */
+  async generateBankQuestions(module: Module, course: Course, perDifficulty: number, instructions: string): Promise<QuestionBankItem[]> {
+    const lessons = await storage.getModuleLessons(module.id);
+    if (lessons.length === 0) {
+      throw new Error('The module has no lesson content to generate questions from');
+    }
+
+    const source = await this.loadCourseSource(course.id);
+    const questionTexts = (await storage.getModuleQuestionBank(module.id)).map(item => item.question.question);
+    const items: InsertQuestionBankItem[] = [];
+    for (const lesson of lessons) {
+      const content = this.quizContent([lesson], source);
+      for (const difficulty of QUESTION_DIFFICULTIES) {
+        const generated = await llmProvider.generateQuizQuestions(
+          content,
+          perDifficulty,
+          BANK_DIFFICULTY_LEVELS[difficulty],
+          instructions || undefined,
+          lesson.objectives ?? []
+        );
+        for (const question of await withoutRepeats(generated, question => question.question, questionTexts)) {
+          items.push({ moduleId: module.id, lessonId: lesson.id, question: reviewQuestion(question, content), difficulty });
+          questionTexts.push(question.question);
+        }
+      }
+    }
+    if (items.length === 0) {
+      throw new Error('No new questions were generated');
+    }
+
+    return storage.createQuestionBankItems(items);
+  }
+
+  // A new deck from the module's lessons replaces the old one, keeping its size
+  async regenerateFlashcards(module: Module, instructions: string): Promise<Flashcard[]> {
+    const lessons = await storage.getModuleLessons(module.id);
+    if (lessons.length === 0) {
+      throw new Error('The module has no lesson content to generate flashcards from');
+    }
+
+    const existing = await storage.getModuleFlashcards(module.id);
+    const generated = await llmProvider.generateFlashcards(
+      lessons.map(lesson => `${lesson.title}\n${lesson.content}`).join('\n\n'),
+      existing.length || DEFAULT_DECK_SIZE,
+      instructions || undefined
+    );
+
+    const cards: typeof generated = [];
+    const fronts: string[] = [];
+    for (const card of generated) {
+      if (!isTitleDuplicate(card.front, fronts, 0.85)) {
+        cards.push(card);
+        fronts.push(card.front);
+      }
+    }
+    if (cards.length === 0) {
+      throw new Error('No flashcards were generated');
+    }
+
+    return storage.replaceModuleFlashcards(module.id, cards.map((card, index) => ({ ...card, orderIndex: index })));
+  }
+
+  // Lesson text plus the source passages it cites keeps quiz questions grounded in the documents
+  private quizContent(lessons: Lesson[], source: SourceMaterial): string {
+    const citedLabels = lessons.flatMap(lesson => this.citedLabels(lesson, source)).slice(0, MAX_QUIZ_SOURCE_CHUNKS);
+    const excerpts = Array.from(new Set(citedLabels)).map(label => source.citableChunks.get(label)!.chunk.content);
+    return [
+      ...lessons.map(lesson => `${lesson.title}\n${lesson.content}`),
+      ...(excerpts.length > 0 ? [`Source excerpts:\n${excerpts.join('\n\n')}`] : []),
+    ].join('\n\n');
+  }
+
+  private async loadCourseSource(courseId: string): Promise<SourceMaterial> {
+    const documents = await storage.getCourseDocuments(courseId);
+    return documentProcessor.loadSourceMaterial(documents.map(document => document.id));
+  }
+
+  private async reviseLesson(
+    lesson: Lesson,
+    module: Module,
+    course: Course,
+    instructions: string,
+    source: SourceMaterial
+  ): Promise<Lesson> {
+    const labelledContent = toChunkCitations(lesson.content, (lesson.sourceReferences as SourceReference[] | null) ?? [], source.citableChunks);
+    const labels = Array.from(new Set([
+      ...this.citedLabels(lesson, source),
+      ...findRelevantChunks(`${lesson.title} ${instructions}`, source.citableChunks, RELEVANT_CHUNKS_PER_REVISION),
+    ])).slice(0, MAX_REVISION_CHUNKS);
+
+    const context = [
+      `Course: ${course.title}`,
+      `Module: ${module.title}`,
+      `Lesson: ${lesson.title}`,
+      `Creator instructions: ${instructions || 'Improve clarity and add examples from the source'}`,
+    ].join('\n');
+
+    const revised = await llmProvider.enhanceContent(
+      labelledContent,
+      context,
+      labels.length > 0 ? formatLabelledChunks(labels, source.citableChunks) : undefined
+    );
+
+    const { content, sourceReferences } = resolveChunkCitations(revised, source.citableChunks);
+    return storage.updateLesson(lesson.id, {
+      content,
+      sourceReferences,
+      grounding: await this.revisedGrounding(lesson, revised, source),
+    });
+  }
+
+  // The check of a revised lesson, still citing chunk labels; the revision is kept unchecked when the check fails
+  private async revisedGrounding(lesson: Lesson, revised: string, source: SourceMaterial): Promise<LessonGrounding | null> {
+    try {
+      return await verifyGrounding(revised, source.citableChunks);
+    } catch (error) {
+      if (error instanceof AIQuotaExceededError) throw error;
+      console.warn(`Could not check the revised lesson "${lesson.title}" against the sources:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private citedLabels(lesson: Lesson, source: SourceMaterial): string[] {
+    const references = (lesson.sourceReferences as SourceReference[] | null) ?? [];
+    return references
+      .map(reference => labelForReference(reference, source.citableChunks))
+      .filter((label): label is string => Boolean(label));
+  }
+}
+
+export const contentRegenerator = new ContentRegenerator();
@@ -0,0 +1,78 @@
+import { llmProvider, type TutorTurn } from './llmProvider';
+import { documentProcessor } from './documentProcessor';
+import { findRelevantChunks, formatLabelledChunks } from './mapReduceGenerator';
+import { resolveChunkCitations, toChunkCitations, type CitableChunk } from './citationResolver';
+import { compareTexts } from './similarity';
+import { storage } from '../storage';
+import type { Course, SourceReference, TutorMessage } from '@shared/schema';
+
+// Earlier messages sent with a question, so follow-up questions are understood
+const MAX_HISTORY_MESSAGES = 10;
+// Source chunks and lessons retrieved for a question
+const MAX_SOURCE_CHUNKS = 8;
+const MAX_LESSONS = 3;
+// Characters of each retrieved lesson sent with a question
+const MAX_LESSON_CHARS = 4000;
+
+const CITATION_MARKER_PATTERN = /\s*\[\d+\]/g;
+
+// The course's linked documents as labelled chunks, or none when it has no documents
+async function loadCourseChunks(courseId: string): Promise<Map<string, CitableChunk>> {
+  const documents = await storage.getCourseDocuments(courseId);
+  if (documents.length === 0) return new Map();
+  return (await documentProcessor.loadSourceMaterial(documents.map(document => document.id))).citableChunks;
+}
+
+// The lessons closest in meaning to the question, each citing the chunk labels its references point at
+async function relevantLessons(courseId: string, query: string, citableChunks: Map<string, CitableChunk>): Promise<string[]> {
+  const course = await storage.getCourseWithDetails(courseId);
+  const lessons = (course?.modules ?? []).flatMap(module => module.lessons.map(lesson => ({
+    title: `${module.title} — ${lesson.title}`,
+    content: toChunkCitations(lesson.content, (lesson.sourceReferences as SourceReference[] | null) ?? [], citableChunks)
+      .slice(0, MAX_LESSON_CHARS),
+  })));
+  if (lessons.length === 0) return [];
+
+  const similarity = await compareTexts([query, ...lessons.map(lesson => `${lesson.title}\n${lesson.content}`)]);
+  return lessons
+    .map((lesson, index) => ({ lesson, score: similarity.score(0, index + 1) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_LESSONS)
+    .map(({ lesson }) => `=== Lesson: ${lesson.title} ===\n${lesson.content}`);
+}
+
+/**
+ * Answer a learner's question about a course and add the exchange to their
+ * conversation. The chunks of the course's linked documents and the lessons
+ * that best match the question (and the learner's previous question, for
+ * follow-ups) are sent to the LLM provider with the recent conversation;
+ * the chunk labels the answer cites become [n] markers backed by source
+ * references, as in lessons. Returns the saved question and answer.
+ */
+export async function askTutor(course: Course, learnerId: string, question: string): Promise<TutorMessage[]> {
+  const history = await storage.getTutorMessages(learnerId, course.id);
+  const recent = history.slice(-MAX_HISTORY_MESSAGES);
+  const previousQuestion = recent.filter(message => message.role === 'learner').pop()?.content ?? '';
+  const query = `${previousQuestion} ${question}`;
+
+  const citableChunks = await loadCourseChunks(course.id);
+  const chunkLabels = findRelevantChunks(query, citableChunks, MAX_SOURCE_CHUNKS);
+  const lessons = await relevantLessons(course.id, query, citableChunks);
+
+  const answer = await llmProvider.answerTutorQuestion({
+    courseTitle: course.title,
+    question,
+    // Old answers' markers number references the model never sees, so they are left out
+    history: recent.map((message): TutorTurn => ({ role: message.role, content: message.content.replace(CITATION_MARKER_PATTERN, '') })),
+    lessonContent: lessons.join('\n\n'),
+    sourceContent: chunkLabels.length > 0 ? formatLabelledChunks(chunkLabels, citableChunks) : '',
+  });
+
+  // Labels that match no chunk are dropped, so courses without documents get answers without citations
+  const { content, sourceReferences } = resolveChunkCitations(answer, citableChunks);
+  return storage.createTutorMessages([
+    { courseId: course.id, learnerId, role: 'learner', content: question, sourceReferences: [] },
+    { courseId: course.id, learnerId, role: 'tutor', content: content.trim(), sourceReferences },
+  ]);
+}
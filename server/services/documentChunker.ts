@@ -0,0 +1,169 @@
+import type { DocumentChunk, InsertDocumentChunk } from '@shared/schema';
+import { PAGE_MARKER_PATTERN } from './textExtractor';
+
+// Chunks are grown paragraph by paragraph up to the target size; a single
+// paragraph longer than the maximum is split at sentence boundaries.
+const TARGET_CHUNK_LENGTH = 1200;
+const MAX_CHUNK_LENGTH = 2000;
+
+const HEADING_PATTERN = /^#{1,6}\s+(.+)$/;
+
+interface Block {
+  start: number;
+  end: number;
+  pageNumber: number | null;
+  sectionTitle: string | null;
+  isHeading: boolean;
+}
+
+/**
+ * Split a document's processedContent into addressable chunks. Every chunk
+ * records the page and section it came from and its exact character range,
+ * so `content === text.slice(startOffset, endOffset)` always holds.
+ */
+export function chunkDocument(documentId: string, text: string): InsertDocumentChunk[] {
+  const blocks = splitIntoBlocks(text);
+  const chunks: InsertDocumentChunk[] = [];
+
+  let current: Block | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      documentId,
+      chunkIndex: chunks.length,
+      pageNumber: current.pageNumber,
+      sectionTitle: current.sectionTitle,
+      startOffset: current.start,
+      endOffset: current.end,
+      content: text.slice(current.start, current.end),
+    });
+    current = null;
+  };
+
+  for (const block of blocks) {
+    if (block.end - block.start > MAX_CHUNK_LENGTH) {
+      flush();
+      for (const piece of splitLongBlock(text, block)) {
+        current = piece;
+        flush();
+      }
+      continue;
+    }
+
+    const startsNewChunk = !current
+      || block.isHeading
+      || block.pageNumber !== current.pageNumber
+      || block.end - current.start > TARGET_CHUNK_LENGTH;
+
+    if (startsNewChunk) {
+      flush();
+      current = { ...block };
+    } else {
+      current!.end = block.end;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Render chunks for a generation prompt. Each chunk is introduced by its
+ * label so the model can cite it as [C3].
+ */
+export function formatChunksForPrompt(chunks: DocumentChunk[], labelFor: (chunk: DocumentChunk) => string): string {
+  return chunks.map(chunk => {
+    const location = [
+      chunk.pageNumber ? `page ${chunk.pageNumber}` : null,
+      chunk.sectionTitle ? `section "${chunk.sectionTitle}"` : null,
+    ].filter(Boolean).join(', ');
+
+    return `[${labelFor(chunk)}]${location ? ` (${location})` : ''}\n${chunk.content}`;
+  }).join('\n\n');
+}
+
+function splitIntoBlocks(text: string): Block[] {
+  const blocks: Block[] = [];
+  let pageNumber: number | null = null;
+  let sectionTitle: string | null = null;
+  let blockStart: number | null = null;
+  let blockEnd = 0;
+  let blockIsHeading = false;
+
+  const closeBlock = () => {
+    if (blockStart !== null) {
+      blocks.push({ start: blockStart, end: blockEnd, pageNumber, sectionTitle, isHeading: blockIsHeading });
+    }
+    blockStart = null;
+    blockIsHeading = false;
+  };
+
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const lineStart = offset;
+    const lineEnd = offset + line.length;
+    offset = lineEnd + 1;
+
+    const trimmed = line.trim();
+    const pageMatch = trimmed.match(PAGE_MARKER_PATTERN);
+    if (pageMatch) {
+      closeBlock();
+      pageNumber = parseInt(pageMatch[1], 10);
+      continue;
+    }
+
+    if (!trimmed) {
+      closeBlock();
+      continue;
+    }
+
+    const headingMatch = trimmed.match(HEADING_PATTERN);
+    if (headingMatch) {
+      // Headings always open their own block so the next chunk starts at them
+      closeBlock();
+      sectionTitle = headingMatch[1].trim();
+      blockIsHeading = true;
+    }
+
+    if (blockStart === null) {
+      blockStart = lineStart;
+    }
+    blockEnd = lineEnd;
+  }
+  closeBlock();
+
+  return blocks;
+}
+
+function splitLongBlock(text: string, block: Block): Block[] {
+  const pieces: Block[] = [];
+  const sentencePattern = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+  const content = text.slice(block.start, block.end);
+
+  let pieceStart = block.start;
+  let pieceEnd = block.start;
+  let match;
+  while ((match = sentencePattern.exec(content)) !== null) {
+    if (match[0].length === 0) {
+      sentencePattern.lastIndex++;
+      continue;
+    }
+    const sentenceEnd = block.start + match.index + match[0].length;
+    if (sentenceEnd - pieceStart > TARGET_CHUNK_LENGTH && pieceEnd > pieceStart) {
+      pieces.push({ ...block, start: pieceStart, end: pieceEnd, isHeading: false });
+      pieceStart = skipWhitespace(text, pieceEnd);
+    }
+    pieceEnd = sentenceEnd;
+  }
+  if (pieceEnd > pieceStart) {
+    pieces.push({ ...block, start: pieceStart, end: pieceEnd, isHeading: false });
+  }
+
+  return pieces;
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index])) index++;
+  return index;
+}
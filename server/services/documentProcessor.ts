@@ -1,9 +1,36 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { geminiService, type AIGenerationOptions } from './gemini';
-import { storage } from '../storage';
-import type { InsertCourse, InsertModule, InsertLesson, InsertQuiz, SourceReference } from '@shared/schema';
+import { llmProvider, type AIGenerationOptions, type CourseStructure, type GeneratedFlashcard, type GeneratedQuiz } from './llmProvider';
+import { textExtractor } from './textExtractor';
+import { chunkDocument, formatChunksForPrompt } from './documentChunker';
+import { resolveChunkCitations, resolveChunkReference, type CitableChunk } from './citationResolver';
+import { storage, type GeneratedModuleRecord } from '../storage';
+import { notifyJobUpdated } from './jobEvents';
+import { cached, hashContent, invalidateDocumentCache } from './generationCache';
+import { assignObjectiveIds, toLearningObjectives } from './learningObjectives';
+import {
+  needsMapReduce,
+  outlineSources,
+  formatOutlinesForAnalysis,
+  planCourseOutline,
+  writeCourseFromPlan,
+  findRelevantChunks,
+  formatLabelledChunks,
+  type MapReduceHooks,
+  type MapReduceState,
+} from './mapReduceGenerator';
+import { reviewQuestion } from '@shared/quizQuality';
+import { documentAnalysisSchema } from '@shared/schema';
+import type { AiProcessingJob, CourseOutline, Document, DocumentAnalysis, DocumentChunk, GenerationSummary, InsertGlossaryTerm, JobProgressDetail, LearningObjective, LessonGrounding, SourceReference } from '@shared/schema';
 import { validateCourseStructure, cleanCourseStructure, generateUniqueTitle, isTitleDuplicate } from '../utils/deduplication';
+import { withoutRepeats } from './similarity';
+import { verifyGrounding } from './groundingVerifier';
+import { AIQuotaExceededError } from './aiUsage';
+
+// Chunks sent for glossary extraction when the whole source does not fit in one prompt
+const MAX_GLOSSARY_CHUNKS = 24;
+// Numbered citations such as [2] or [1, 3], which models sometimes write instead of chunk labels
+const PLAIN_CITATION_PATTERN = /\s*\[\d+(?:\s*[,;]\s*\d+)*\]/g;
 
 export interface ProcessingPhase {
   name: string;
@@ -11,6 +38,71 @@ export interface ProcessingPhase {
   status: 'pending' | 'processing' | 'completed' | 'failed';
 }
 
+// Saved in the job's result between phases so a retried job resumes where it stopped
+export interface GenerationCheckpoint {
+  // Plain text in checkpoints written before the analysis was structured
+  analysis?: DocumentAnalysis | string;
+  courseStructure?: CourseStructure;
+  // Section outlines, course plan and written lessons of a map-reduce run
+  mapReduce?: MapReduceState;
+  // Set when the creator approved the outline draft (mapReduce.coursePlan)
+  outlineApprovedAt?: string;
+  // Quizzes prepared during finalization, keyed "moduleIndex:lessonIndex" or "moduleIndex"
+  generatedQuizzes?: Record<string, GeneratedQuiz>;
+  // Flashcard decks prepared during finalization, keyed by module index
+  generatedFlashcards?: Record<string, GeneratedFlashcard[]>;
+  // Grounding checks of the validation phase, keyed "moduleIndex:lessonIndex"; null for lessons without claims
+  grounding?: Record<string, LessonGrounding | null>;
+  // Glossary extracted during finalization, definitions already tied to their source passages
+  glossary?: Omit<InsertGlossaryTerm, 'courseId'>[];
+  createdModuleIds?: string[];
+  createdGlossaryTermIds?: string[];
+  // Course fields as they were before finalization overwrote them, for rollback
+  originalCourse?: { title: string; description: string | null };
+}
+
+// Thrown at a phase boundary once the creator has asked to cancel the job
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Thrown at the next step once the queue worker has lost the job's lease; another worker may be running it,
+// so this run stops without writing anything more
+export class JobLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost the lease on job ${jobId}`);
+    this.name = 'JobLeaseLostError';
+  }
+}
+
+// Thrown once the outline draft is saved when the creator asked to review it first
+export class OutlineReviewRequiredError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} is waiting for its outline to be reviewed`);
+    this.name = 'OutlineReviewRequiredError';
+  }
+}
+
+// Wraps a failure with the generation step it happened in, recorded on the job as failedStep
+export class GenerationStepError extends Error {
+  constructor(readonly step: string, cause: unknown) {
+    super(`${step} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'GenerationStepError';
+  }
+}
+
+// Everything generation needs from the input documents, merged in request order
+export interface SourceMaterial {
+  documents: Document[];
+  sourceName: string;
+  analysisContent: string;
+  promptContent: string;
+  citableChunks: Map<string, CitableChunk>;
+}
+
 export class DocumentProcessor {
   private phases: ProcessingPhase[] = [
     { name: 'document_analysis', progress: 0, status: 'pending' },
@@ -19,586 +111,831 @@ export class DocumentProcessor {
     { name: 'validation', progress: 0, status: 'pending' },
     { name: 'finalization', progress: 0, status: 'pending' },
   ];
+  // Aborted by the queue worker when it loses a running job's lease
+  private leaseSignals = new Map<string, AbortSignal>();
 
-  async processDocumentAsync(
-    documentId: string,
+  async processDocumentsAsync(
+    documentIds: string[],
     userId: string,
     courseId: string,
     jobId?: string,
-    options: AIGenerationOptions = {}
+    options: AIGenerationOptions = {},
+    leaseSignal?: AbortSignal
   ): Promise<void> {
+    if (jobId && leaseSignal) {
+      this.leaseSignals.set(jobId, leaseSignal);
+    }
     try {
+      const checkpoint = await this.loadCheckpoint(jobId);
+
       // Phase 1: Document Analysis (0-30%)
       if (jobId) {
-        await this.updateJobPhase(jobId, 'document_analysis', 10, 'processing');
+        await this.updateJobPhase(jobId, 'document_analysis', 10,
+          `Reading ${documentIds.length} document${documentIds.length === 1 ? '' : 's'}`);
       }
       
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        throw new Error('Document not found');
-      }
-
-      let documentContent = document.processedContent;
-      if (!documentContent) {
-        // Extract content from file if not already processed
-        documentContent = await this.extractTextFromFile(document.storageUrl, document.fileType);
-        await storage.updateDocumentContent(documentId, documentContent);
-      }
+      const source = await this.loadSourceMaterial(documentIds);
 
       if (jobId) {
-        await this.updateJobPhase(jobId, 'document_analysis', 30, 'completed');
+        await this.updateJobPhase(jobId, 'document_analysis', 30);
       }
 
       // Phase 2: Content Analysis (30-50%)
       if (jobId) {
-        await this.updateJobPhase(jobId, 'content_analysis', 35, 'processing');
+        await this.updateJobPhase(jobId, 'content_analysis', 35, `Analyzing ${source.sourceName}`);
       }
       
-      const analysis = await geminiService.analyzeDocument(documentContent, document.fileName);
+      // Sources too large for one prompt are outlined section by section first. Outline review
+      // uses the same path so the creator approves the plan lessons are written from.
+      const reviewOutline = Boolean(jobId && options.reviewOutline);
+      const useMapReduce = reviewOutline || needsMapReduce(source.promptContent);
+      const mapReduceState = checkpoint.mapReduce ?? {};
+      const mapReduceHooks: MapReduceHooks = jobId ? {
+        onProgress: (message, detail) => this.reportProgress(jobId, message, detail),
+        onStateChange: async state => {
+          checkpoint.mapReduce = state;
+          await this.saveCheckpoint(jobId, checkpoint);
+        },
+      } : {};
+
+      // Text analyses from older checkpoints cannot guide the structure, so they are redone
+      let analysis = typeof checkpoint.analysis === 'object' ? checkpoint.analysis : undefined;
+      if (!analysis) {
+        if (useMapReduce) {
+          console.log(`Generating ${source.sourceName} (${source.promptContent.length} characters) map-reduce style`);
+          const outlines = await outlineSources(source.citableChunks, source.sourceName, options, mapReduceState, mapReduceHooks);
+          analysis = await this.analyzeSource(formatOutlinesForAnalysis(outlines), source);
+        } else {
+          analysis = await this.analyzeSource(source.analysisContent, source);
+        }
+      }
+      checkpoint.analysis = analysis;
       
       if (jobId) {
-        await this.updateJobPhase(jobId, 'content_analysis', 50, 'completed');
+        await this.saveCheckpoint(jobId, checkpoint);
+        await this.updateJobPhase(jobId, 'content_analysis', 50);
+      }
+
+      // Phase 3: Content Generation (50-85%) and Phase 4: Validation (85-95%)
+      let courseStructure: CourseStructure;
+      if (checkpoint.courseStructure) {
+        console.log(`Resuming job ${jobId} from its validated course structure`);
+        courseStructure = checkpoint.courseStructure;
+      } else {
+        if (jobId) {
+          await this.updateJobPhase(jobId, 'content_generation', 55, 'Generating modules and lessons');
+        }
+        
+        if (useMapReduce) {
+          const outlines = await outlineSources(source.citableChunks, source.sourceName, options, mapReduceState, mapReduceHooks);
+          const plan = await planCourseOutline(outlines, source.sourceName, options, mapReduceState, mapReduceHooks, analysis);
+
+          if (reviewOutline && !checkpoint.outlineApprovedAt) {
+            await this.updateJobPhase(jobId!, 'content_generation', 60, 'Outline ready for review');
+            throw new OutlineReviewRequiredError(jobId!);
+          }
+
+          courseStructure = await writeCourseFromPlan(source.citableChunks, plan, options, mapReduceState, mapReduceHooks);
+        } else {
+          courseStructure = await llmProvider.generateCourseStructure(
+            source.promptContent,
+            source.sourceName,
+            options,
+            analysis
+          );
+        }
+
+        if (jobId) {
+          await this.updateJobPhase(jobId, 'content_generation', 85);
+        }
+
+        if (jobId) {
+          await this.updateJobPhase(jobId, 'validation', 90, 'Checking the course structure for duplicates');
+        }
+        
+        // Validate the generated structure
+        if (!courseStructure || !courseStructure.modules || courseStructure.modules.length === 0) {
+          throw new Error('Generated course structure is invalid');
+        }
+        
+        // Clean and deduplicate the course structure
+        console.log('Validating course structure for duplicates...');
+        const validation = await validateCourseStructure(courseStructure);
+        if (!validation.isValid) {
+          console.warn('Duplicate content detected:', validation.issues);
+        }
+        
+        console.log('Cleaning course structure to remove duplicates...');
+        courseStructure = await cleanCourseStructure(courseStructure);
+        checkpoint.courseStructure = courseStructure;
+
+        if (jobId) {
+          await this.saveCheckpoint(jobId, checkpoint);
+          await this.updateJobPhase(jobId, 'validation', 92);
+        }
+      }
+
+      await this.checkGrounding(courseStructure, source, checkpoint, jobId);
+      if (jobId) {
+        await this.updateJobPhase(jobId, 'validation', 95);
       }
 
-      // Phase 3: Content Generation (50-85%)
+      // Phase 5: Finalization (95-100%). Lessons and quizzes are prepared in memory first and then
+      // written in one transaction, so a failure at any step leaves the course as it was
       if (jobId) {
-        await this.updateJobPhase(jobId, 'content_generation', 55, 'processing');
+        await this.updateJobPhase(jobId, 'finalization', 96, 'Preparing lessons and quizzes');
       }
-      
-      let courseStructure = await geminiService.generateCourseStructure(
-        documentContent,
-        document.fileName,
-        options
-      );
+
+      // Remember the course fields generation replaces, so cancelling later can restore them
+      if (!checkpoint.originalCourse) {
+        const existingCourse = await storage.getCourse(courseId);
+        if (existingCourse) {
+          checkpoint.originalCourse = { title: existingCourse.title, description: existingCourse.description };
+          if (jobId) {
+            await this.saveCheckpoint(jobId, checkpoint);
+          }
+        }
+      }
+
+      if (!checkpoint.glossary) {
+        if (jobId) {
+          await this.updateJobPhase(jobId, 'finalization', 96, 'Extracting the glossary');
+        }
+        try {
+          checkpoint.glossary = await this.extractGlossary(source, analysis, options);
+        } catch (error) {
+          throw new GenerationStepError('finalization: glossary', error);
+        }
+        if (jobId) {
+          await this.saveCheckpoint(jobId, checkpoint);
+        }
+      }
+
+      const prepared = await this.prepareCourseRecords(courseStructure, source, options, checkpoint, jobId);
 
       if (jobId) {
-        await this.updateJobPhase(jobId, 'content_generation', 85, 'completed');
+        await this.updateJobPhase(jobId, 'finalization', 99, 'Saving the course');
       }
 
-      // Phase 4: Validation (85-95%)
+      // Modules a previous attempt saved (it stopped before the job completed) are replaced in the same transaction;
+      // its glossary terms are already defined, so they are kept. A worker that lost the lease must not save a second copy
       if (jobId) {
-        await this.updateJobPhase(jobId, 'validation', 90, 'processing');
+        this.throwIfLeaseLost(jobId);
       }
-      
-      // Validate the generated structure
-      if (!courseStructure || !courseStructure.modules || courseStructure.modules.length === 0) {
-        throw new Error('Generated course structure is invalid');
+      try {
+        const saved = await storage.saveGeneratedCourse(
+          courseId,
+          { title: courseStructure.title, description: courseStructure.description },
+          prepared.modules,
+          checkpoint.createdModuleIds ?? [],
+          checkpoint.glossary
+        );
+        checkpoint.createdModuleIds = saved.moduleIds;
+        checkpoint.createdGlossaryTermIds = [...(checkpoint.createdGlossaryTermIds ?? []), ...saved.glossaryTermIds];
+      } catch (error) {
+        throw new GenerationStepError('finalization: saving the course', error);
       }
-      
-      // Clean and deduplicate the course structure
-      console.log('Validating course structure for duplicates...');
-      const validation = validateCourseStructure(courseStructure);
-      if (!validation.isValid) {
-        console.warn('Duplicate content detected:', validation.issues);
+      if (jobId) {
+        await this.saveCheckpoint(jobId, checkpoint);
       }
-      
-      console.log('Cleaning course structure to remove duplicates...');
-      courseStructure = cleanCourseStructure(courseStructure);
 
       if (jobId) {
-        await this.updateJobPhase(jobId, 'validation', 95, 'completed');
+        const summary: GenerationSummary = {
+          courseId,
+          title: courseStructure.title,
+          moduleCount: prepared.modules.length,
+          lessonCount: prepared.lessonCount,
+          quizCount: prepared.quizCount,
+        };
+        await this.updateJobPhase(jobId, 'finalization', 100,
+          `Created ${summary.moduleCount} modules, ${summary.lessonCount} lessons and ${summary.quizCount} quizzes`);
+        await storage.updateAiProcessingJob(jobId, {
+          result: {
+            courseId,
+            analysis,
+            summary,
+            createdModuleIds: checkpoint.createdModuleIds,
+            createdGlossaryTermIds: checkpoint.createdGlossaryTermIds,
+            originalCourse: checkpoint.originalCourse,
+          },
+        });
       }
 
-      // Phase 5: Finalization (95-100%)
+    } catch (error) {
+      // The job's final status is owned by the queue worker, which decides whether to retry
+      console.error('Document processing error:', error);
+      throw error;
+    } finally {
       if (jobId) {
-        await this.updateJobPhase(jobId, 'finalization', 96, 'processing');
+        this.leaseSignals.delete(jobId);
       }
+    }
+  }
 
-      // Update the existing course with generated content
-      await storage.updateCourse(courseId, {
-        title: courseStructure.title,
-        description: courseStructure.description,
-      });
+  /**
+   * Check every lesson against the source passages it was written from, so
+   * creators see which sentences the documents don't back. A lesson whose
+   * check fails is left unchecked rather than failing the job; the creator
+   * can run the check again from the course editor.
+   */
+  private async checkGrounding(
+    courseStructure: CourseStructure,
+    source: SourceMaterial,
+    checkpoint: GenerationCheckpoint,
+    jobId?: string
+  ): Promise<void> {
+    const grounding = { ...(checkpoint.grounding ?? {}) };
+    const lessons = courseStructure.modules.flatMap((module, moduleIndex) =>
+      module.lessons.map((lesson, lessonIndex) => ({ key: `${moduleIndex}:${lessonIndex}`, lesson })));
 
-      // Track created module and lesson titles to ensure uniqueness
-      const createdModuleTitles: string[] = [];
-      
-      // Create modules and lessons
-      for (let moduleIndex = 0; moduleIndex < courseStructure.modules.length; moduleIndex++) {
-        const module = courseStructure.modules[moduleIndex];
-        
-        // Ensure unique module title
-        let moduleTitle = module.title;
-        if (isTitleDuplicate(moduleTitle, createdModuleTitles, 0.9)) {
-          moduleTitle = generateUniqueTitle(moduleTitle, createdModuleTitles);
-          console.log(`Renamed duplicate module from "${module.title}" to "${moduleTitle}"`);
+    for (let index = 0; index < lessons.length; index++) {
+      const { key, lesson } = lessons[index];
+      if (key in grounding) continue;
+
+      if (jobId) {
+        await this.reportProgress(jobId, `Checking lesson ${index + 1} of ${lessons.length} against the sources: ${lesson.title}`, {
+          step: 'lesson',
+          current: index + 1,
+          total: lessons.length,
+          title: lesson.title,
+        }, 92 + Math.floor((3 * index) / Math.max(lessons.length, 1)));
+      }
+
+      try {
+        grounding[key] = await verifyGrounding(lesson.content, source.citableChunks);
+      } catch (error) {
+        if (error instanceof AIQuotaExceededError) throw error;
+        console.warn(`Could not check lesson "${lesson.title}" against the sources:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+      checkpoint.grounding = { ...grounding };
+      if (jobId) {
+        await this.saveCheckpoint(jobId, checkpoint);
+      }
+    }
+  }
+
+  /**
+   * Turn the validated structure into the records finalization writes:
+   * unique titles, resolved citations, objective ids and the quizzes linked
+   * to those objectives, and each module's flashcard deck. Nothing is saved
+   * here; generated quizzes and decks are checkpointed so a retry does not
+   * ask for them again.
+   */
+  private async prepareCourseRecords(
+    courseStructure: CourseStructure,
+    source: SourceMaterial,
+    options: AIGenerationOptions,
+    checkpoint: GenerationCheckpoint,
+    jobId?: string
+  ): Promise<{ modules: GeneratedModuleRecord[]; lessonCount: number; quizCount: number }> {
+    // Ids are checkpointed with the structure so questions generated by an earlier attempt still point at them
+    if (assignObjectiveIds(courseStructure)) {
+      checkpoint.courseStructure = courseStructure;
+      if (jobId) {
+        await this.saveCheckpoint(jobId, checkpoint);
+      }
+    }
+
+    const generatedQuizzes = { ...(checkpoint.generatedQuizzes ?? {}) };
+    // Questions of the quizzes prepared so far, which later quizzes must not repeat
+    const courseQuestions: string[] = [];
+    const generateQuiz = async (
+      key: string,
+      step: string,
+      content: string,
+      title: string,
+      objectives: LearningObjective[]
+    ): Promise<GeneratedQuiz> => {
+      if (!generatedQuizzes[key]) {
+        try {
+          generatedQuizzes[key] = { title, questions: await this.generateQuizQuestions(content, options, objectives, courseQuestions) };
+        } catch (error) {
+          throw new GenerationStepError(step, error);
         }
-        createdModuleTitles.push(moduleTitle);
-        
-        const moduleData: InsertModule = {
-          courseId: courseId,
+        checkpoint.generatedQuizzes = { ...generatedQuizzes };
+        if (jobId) {
+          await this.saveCheckpoint(jobId, checkpoint);
+        }
+      }
+      courseQuestions.push(...generatedQuizzes[key].questions.map(question => question.question));
+      return generatedQuizzes[key];
+    };
+
+    const generatedFlashcards = { ...(checkpoint.generatedFlashcards ?? {}) };
+
+    // Track created module and lesson titles to ensure uniqueness
+    const createdModuleTitles: string[] = [];
+    const totalLessons = courseStructure.modules.reduce((sum, module) => sum + module.lessons.length, 0);
+    const records: GeneratedModuleRecord[] = [];
+    let lessonNumber = 0;
+    let quizCount = 0;
+
+    for (let moduleIndex = 0; moduleIndex < courseStructure.modules.length; moduleIndex++) {
+      const module = courseStructure.modules[moduleIndex];
+
+      // Ensure unique module title
+      let moduleTitle = module.title;
+      if (isTitleDuplicate(moduleTitle, createdModuleTitles, 0.9)) {
+        moduleTitle = generateUniqueTitle(moduleTitle, createdModuleTitles);
+        console.log(`Renamed duplicate module from "${module.title}" to "${moduleTitle}"`);
+      }
+      createdModuleTitles.push(moduleTitle);
+
+      const record: GeneratedModuleRecord = {
+        module: {
           title: moduleTitle,
           description: module.description || '',
           orderIndex: moduleIndex,
-        };
-        const createdModule = await storage.createModule(moduleData);
-
-        // Store lesson IDs for quiz generation
-        const createdLessonIds: string[] = [];
-        const createdLessonTitles: string[] = [];
-
-        // Create lessons for this module
-        for (let lessonIndex = 0; lessonIndex < module.lessons.length; lessonIndex++) {
-          const lesson = module.lessons[lessonIndex];
-          
-          // Ensure unique lesson title within module
-          let lessonTitle = lesson.title;
-          if (isTitleDuplicate(lessonTitle, createdLessonTitles, 0.9)) {
-            lessonTitle = generateUniqueTitle(lessonTitle, createdLessonTitles);
-            console.log(`Renamed duplicate lesson from "${lesson.title}" to "${lessonTitle}"`);
-          }
-          createdLessonTitles.push(lessonTitle);
-          
-          // Generate source references from content citations
-          const doc = await storage.getDocument(documentId);
-          const documentName = doc?.fileName || 'Document';
-          const sourceReferences = this.extractSourceReferences(lesson.content, documentId, documentName);
-          
-          const lessonData: InsertLesson = {
-            moduleId: createdModule.id,
+          objectives: toLearningObjectives(module.objectives),
+        },
+        lessons: [],
+        quizzes: [],
+      };
+      const createdLessonTitles: string[] = [];
+
+      for (let lessonIndex = 0; lessonIndex < module.lessons.length; lessonIndex++) {
+        const lesson = module.lessons[lessonIndex];
+
+        // Ensure unique lesson title within module
+        let lessonTitle = lesson.title;
+        if (isTitleDuplicate(lessonTitle, createdLessonTitles, 0.9)) {
+          lessonTitle = generateUniqueTitle(lessonTitle, createdLessonTitles);
+          console.log(`Renamed duplicate lesson from "${lesson.title}" to "${lessonTitle}"`);
+        }
+        createdLessonTitles.push(lessonTitle);
+
+        lessonNumber++;
+        if (jobId) {
+          await this.reportProgress(jobId, `Preparing lesson ${lessonNumber} of ${totalLessons}: ${lessonTitle}`, {
+            step: 'lesson',
+            current: lessonNumber,
+            total: totalLessons,
             title: lessonTitle,
-            content: lesson.content,
+          }, 96 + Math.floor((3 * (lessonNumber - 1)) / Math.max(totalLessons, 1)));
+        }
+
+        // Resolve chunk citations into source references pointing at the original text
+        const { content: lessonContent, sourceReferences } = this.resolveLessonCitations(lesson.content, source);
+
+        let quiz: GeneratedModuleRecord['lessons'][number]['quiz'];
+        if (options.generateQuizzes && options.quizFrequency === 'lesson') {
+          const generated = await generateQuiz(
+            `${moduleIndex}:${lessonIndex}`,
+            `finalization: quiz for lesson ${moduleIndex + 1}.${lessonIndex + 1} "${lessonTitle}"`,
+            lesson.content,
+            `${lessonTitle} - Quiz`,
+            toLearningObjectives(lesson.objectives)
+          );
+          quiz = { title: generated.title, questions: generated.questions, passingScore: 70 };
+          quizCount++;
+        }
+
+        record.lessons.push({
+          lesson: {
+            title: lessonTitle,
+            content: lessonContent,
             orderIndex: lessonIndex,
             estimatedDuration: lesson.estimatedDuration || 10,
             videoUrl: undefined,
             attachments: [],
-            sourceReferences: sourceReferences
-          };
-          const createdLesson = await storage.createLesson(lessonData);
-          createdLessonIds.push(createdLesson.id);
-
-          // MANDATORY: Generate quiz per lesson if that's the selected frequency
-          if (options.generateQuizzes && options.quizFrequency === 'lesson') {
-            // Ensure we always have a question count - use user setting or reasonable default
-            const questionsCount = options.questionsPerQuiz || 5;
-            const difficulty = options.difficultyLevel || 'intermediate';
-            
-            console.log(`[MANDATORY] Generating quiz for lesson: ${lessonTitle} (Questions: ${questionsCount}, Difficulty: ${difficulty})`);
-            
-            // Retry logic for quiz generation
-            let quizQuestions = null;
-            let retryCount = 0;
-            const maxRetries = 3;
-            
-            while ((!quizQuestions || quizQuestions.length === 0) && retryCount < maxRetries) {
-              if (retryCount > 0) {
-                console.log(`Retrying quiz generation for lesson: ${lessonTitle} (Attempt ${retryCount + 1}/${maxRetries})`);
-              }
-              
-              quizQuestions = await geminiService.generateQuizQuestions(
-                lesson.content,
-                questionsCount,
-                difficulty
-              );
-              
-              if (!quizQuestions || quizQuestions.length === 0) {
-                console.error(`Failed to generate quiz for lesson: ${lessonTitle} - Attempt ${retryCount + 1}`);
-                retryCount++;
-                if (retryCount < maxRetries) {
-                  await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds before retry
-                }
-              }
-            }
-
-            if (quizQuestions && quizQuestions.length > 0) {
-              // Deduplicate quiz questions
-              const uniqueQuestions: any[] = [];
-              const questionTexts: string[] = [];
-              
-              for (const q of quizQuestions) {
-                if (!isTitleDuplicate(q.question, questionTexts, 0.85)) {
-                  uniqueQuestions.push(q);
-                  questionTexts.push(q.question);
-                } else {
-                  console.log(`Removed duplicate quiz question: "${q.question.substring(0, 50)}..."`);
-                }
-              }
-              
-              if (uniqueQuestions.length > 0) {
-                const quizData: InsertQuiz = {
-                  moduleId: createdModule.id,
-                  lessonId: createdLesson.id,
-                  title: `${lessonTitle} - Quiz`,
-                  questions: uniqueQuestions,
-                  passingScore: 70,
-                };
-                await storage.createQuiz(quizData);
-                console.log(`✓ Successfully created quiz for lesson: ${lessonTitle} with ${uniqueQuestions.length} questions`);
-              } else {
-                console.error(`ERROR: No unique questions generated for lesson: ${lessonTitle} after deduplication`);
-                throw new Error(`Failed to generate quiz for lesson: ${lessonTitle} - No unique questions after deduplication`);
-              }
-            } else {
-              console.error(`CRITICAL ERROR: Failed to generate quiz for lesson: ${lessonTitle} after ${maxRetries} attempts`);
-              throw new Error(`Failed to generate quiz for lesson: ${lessonTitle} after ${maxRetries} attempts`);
-            }
-          }
-        }
+            sourceReferences,
+            objectives: toLearningObjectives(lesson.objectives),
+            grounding: checkpoint.grounding?.[`${moduleIndex}:${lessonIndex}`] ?? null,
+          },
+          quiz,
+        });
+      }
 
-        // MANDATORY: Generate quiz per module if that's the selected frequency
-        if (options.generateQuizzes && options.quizFrequency === 'module') {
-          // Ensure we always have a question count - use user setting or reasonable default
-          const questionsCount = options.questionsPerQuiz || 5;
-          const difficulty = options.difficultyLevel || 'intermediate';
-          
-          console.log(`[MANDATORY] Generating module quiz for: ${moduleTitle} (Questions: ${questionsCount}, Difficulty: ${difficulty})`);
-          
-          // Combine all lesson content for module quiz
-          const moduleContent = module.lessons.map(l => l.content).join('\n\n');
-          
-          // Retry logic for quiz generation
-          let quizQuestions = null;
-          let retryCount = 0;
-          const maxRetries = 3;
-          
-          while ((!quizQuestions || quizQuestions.length === 0) && retryCount < maxRetries) {
-            if (retryCount > 0) {
-              console.log(`Retrying module quiz generation for: ${moduleTitle} (Attempt ${retryCount + 1}/${maxRetries})`);
-            }
-            
-            quizQuestions = await geminiService.generateQuizQuestions(
-              moduleContent,
-              questionsCount,
-              difficulty
+      if (options.generateQuizzes && options.quizFrequency === 'module') {
+        const generated = await generateQuiz(
+          `${moduleIndex}`,
+          `finalization: quiz for module ${moduleIndex + 1} "${moduleTitle}"`,
+          module.lessons.map(lesson => lesson.content).join('\n\n'),
+          `${moduleTitle} - Module Quiz`,
+          // A module quiz also assesses its lessons' objectives, which have no quiz of their own
+          [module.objectives, ...module.lessons.map(lesson => lesson.objectives)].flatMap(toLearningObjectives)
+        );
+        record.quizzes.push({ title: generated.title, questions: generated.questions, passingScore: 70 });
+        quizCount++;
+      }
+
+      if (options.generateFlashcards) {
+        const key = `${moduleIndex}`;
+        if (!generatedFlashcards[key]) {
+          try {
+            generatedFlashcards[key] = await this.generateFlashcards(
+              module.lessons.map(lesson => lesson.content).join('\n\n'),
+              options
             );
-            
-            if (!quizQuestions || quizQuestions.length === 0) {
-              console.error(`Failed to generate module quiz for: ${moduleTitle} - Attempt ${retryCount + 1}`);
-              retryCount++;
-              if (retryCount < maxRetries) {
-                await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds before retry
-              }
-            }
+          } catch (error) {
+            throw new GenerationStepError(`finalization: flashcards for module ${moduleIndex + 1} "${moduleTitle}"`, error);
           }
-
-          if (quizQuestions && quizQuestions.length > 0) {
-            // Deduplicate quiz questions
-            const uniqueQuestions: any[] = [];
-            const questionTexts: string[] = [];
-            
-            for (const q of quizQuestions) {
-              if (!isTitleDuplicate(q.question, questionTexts, 0.85)) {
-                uniqueQuestions.push(q);
-                questionTexts.push(q.question);
-              } else {
-                console.log(`Removed duplicate quiz question: "${q.question.substring(0, 50)}..."`);
-              }
-            }
-            
-            if (uniqueQuestions.length > 0) {
-              const quizData: InsertQuiz = {
-                moduleId: createdModule.id,
-                title: `${moduleTitle} - Module Quiz`,
-                questions: uniqueQuestions,
-                passingScore: 70,
-              };
-              await storage.createQuiz(quizData);
-              console.log(`✓ Successfully created module quiz for: ${moduleTitle} with ${uniqueQuestions.length} questions`);
-            } else {
-              console.error(`ERROR: No unique questions generated for module: ${moduleTitle} after deduplication`);
-              throw new Error(`Failed to generate quiz for module: ${moduleTitle} - No unique questions after deduplication`);
-            }
-          } else {
-            console.error(`CRITICAL ERROR: Failed to generate quiz for module: ${moduleTitle} after ${maxRetries} attempts`);
-            throw new Error(`Failed to generate quiz for module: ${moduleTitle} after ${maxRetries} attempts`);
+          checkpoint.generatedFlashcards = { ...generatedFlashcards };
+          if (jobId) {
+            await this.saveCheckpoint(jobId, checkpoint);
           }
         }
-
-        // DEPRECATED: Legacy quiz support - should not be used with new generation
-        if (module.quiz && !options.generateQuizzes) {
-          console.warn('Legacy quiz found in module structure - this should not happen with new generation');
-          const quizData: InsertQuiz = {
-            moduleId: createdModule.id,
-            title: module.quiz.title,
-            questions: module.quiz.questions,
-            passingScore: 70,
-          };
-          await storage.createQuiz(quizData);
-        }
+        record.flashcards = generatedFlashcards[key].map((card, index) => ({ ...card, orderIndex: index }));
       }
 
-      if (jobId) {
-        await this.updateJobPhase(jobId, 'finalization', 100, 'completed');
+      // DEPRECATED: Legacy quiz support - should not be used with new generation
+      if (module.quiz && !options.generateQuizzes) {
+        console.warn('Legacy quiz found in module structure - this should not happen with new generation');
+        record.quizzes.push({ title: module.quiz.title, questions: module.quiz.questions, passingScore: 70 });
+        quizCount++;
       }
-      if (jobId) {
-        await storage.updateAiProcessingJob(jobId, { status: 'completed' });
+
+      records.push(record);
+    }
+
+    return { modules: records, lessonCount: totalLessons, quizCount };
+  }
+
+  // Quiz questions for lesson or module content, retried when the model returns none, deduplicated against each other
+  // and the `courseQuestions` of earlier quizzes, and quality-checked against the content
+  private async generateQuizQuestions(
+    content: string,
+    options: AIGenerationOptions,
+    objectives: LearningObjective[] = [],
+    courseQuestions: string[] = []
+  ): Promise<GeneratedQuiz['questions']> {
+    // Ensure we always have a question count - use user setting or reasonable default
+    const questionsCount = options.questionsPerQuiz || 5;
+    const difficulty = options.difficultyLevel || 'intermediate';
+    const maxRetries = 3;
+
+    let quizQuestions: GeneratedQuiz['questions'] = [];
+    for (let attempt = 1; attempt <= maxRetries && quizQuestions.length === 0; attempt++) {
+      if (attempt > 1) {
+        console.log(`Retrying quiz generation (Attempt ${attempt}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds before retry
       }
+      quizQuestions = (await llmProvider.generateQuizQuestions(content, questionsCount, difficulty, undefined, objectives, options.questionTypes)) || [];
+    }
+    if (quizQuestions.length === 0) {
+      throw new Error(`No questions were generated after ${maxRetries} attempts`);
+    }
 
-    } catch (error) {
-      console.error('Document processing error:', error);
-      if (jobId) {
-        await storage.updateAiProcessingJob(jobId, {
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error occurred'
-        });
+    // Deduplicate quiz questions; a quiz whose every question an earlier quiz asks keeps them rather than being left empty
+    let uniqueQuestions = await withoutRepeats(quizQuestions, question => question.question, courseQuestions);
+    if (uniqueQuestions.length === 0) {
+      uniqueQuestions = await withoutRepeats(quizQuestions, question => question.question);
+    }
+    return uniqueQuestions.map(question => reviewQuestion(question, content));
+  }
+
+  // A module's flashcard deck, without cards that repeat the front of an earlier one
+  private async generateFlashcards(content: string, options: AIGenerationOptions): Promise<GeneratedFlashcard[]> {
+    const cards = await llmProvider.generateFlashcards(content, options.flashcardsPerModule || 10);
+    const unique: GeneratedFlashcard[] = [];
+    const fronts: string[] = [];
+    for (const card of cards) {
+      if (!isTitleDuplicate(card.front, fronts, 0.85)) {
+        unique.push(card);
+        fronts.push(card.front);
       }
-      throw error;
     }
+    return unique;
   }
 
-  private extractSourceReferences(content: string, documentId: string, documentName: string): SourceReference[] {
-    const references: SourceReference[] = [];
-    const citationPattern = /\[(\d+)\]/g;
-    let match;
-    
-    // Extract all citations and create proper source references
-    while ((match = citationPattern.exec(content)) !== null) {
-      const citationNum = parseInt(match[1]);
-      const citationId = `ref-${documentId}-${citationNum}`;
-      
-      // Get meaningful context around the citation
-      const beforeStart = Math.max(0, match.index - 200);
-      const beforeText = content.substring(beforeStart, match.index);
-      
-      // Extract the sentence containing the citation
-      const sentences = beforeText.split(/[.!?]/);
-      const relevantText = sentences[sentences.length - 1]?.trim() || 
-                           sentences[sentences.length - 2]?.trim() || 
-                           beforeText.trim();
-      
-      // Get broader context
-      const contextStart = Math.max(0, match.index - 300);
-      const contextEnd = Math.min(content.length, match.index + 100);
-      const contextText = content.substring(contextStart, contextEnd).trim();
-      
-      references.push({
-        id: citationId,
-        documentId: documentId,
-        documentName: documentName,
-        text: relevantText || `Reference ${citationNum}`,
-        context: contextText,
-        startOffset: contextStart,
-        endOffset: contextEnd,
-        pageNumber: undefined
-      });
+  /**
+   * Extract the course glossary and tie each definition to the source
+   * passage it is based on. A source too long for one prompt is represented
+   * by the chunks that best match the analysis's key concepts.
+   */
+  private async extractGlossary(
+    source: SourceMaterial,
+    analysis: DocumentAnalysis,
+    options: AIGenerationOptions
+  ): Promise<Omit<InsertGlossaryTerm, 'courseId'>[]> {
+    let content = source.promptContent;
+    if (needsMapReduce(content)) {
+      const labels = Array.from(new Set(analysis.keyConcepts.flatMap(concept =>
+        findRelevantChunks(`${concept.term} ${concept.explanation}`, source.citableChunks, 2)
+      ))).slice(0, MAX_GLOSSARY_CHUNKS);
+      if (labels.length === 0) return [];
+      content = formatLabelledChunks(labels, source.citableChunks);
     }
-    
-    return references;
+
+    const entries = await cached(
+      'glossary',
+      {
+        provider: llmProvider.name,
+        content: hashContent(content),
+        sourceName: source.sourceName,
+        language: options.language,
+        targetAudience: options.targetAudience,
+      },
+      source.documents.map(document => document.id),
+      () => llmProvider.extractGlossary(content, source.sourceName, options)
+    );
+    return entries.map(entry => ({
+      term: entry.term.trim(),
+      definition: entry.definition.trim(),
+      sourceReference: resolveChunkReference(entry.chunkLabel, entry.definition, source.citableChunks) ?? null,
+    }));
   }
 
-  private async updateJobPhase(
-    jobId: string,
-    phase: 'document_analysis' | 'content_analysis' | 'content_generation' | 'validation' | 'finalization',
-    progress: number,
-    status: 'pending' | 'processing' | 'completed' | 'failed'
-  ): Promise<void> {
-    await storage.updateAiProcessingJob(jobId, {
-      phase,
-      progress,
-      status
-    });
+  // The analysis reads no generation options, so every run over the same text shares it
+  private analyzeSource(content: string, source: SourceMaterial): Promise<DocumentAnalysis> {
+    return cached(
+      'analysis',
+      { provider: llmProvider.name, content: hashContent(content), sourceName: source.sourceName },
+      source.documents.map(document => document.id),
+      () => llmProvider.analyzeDocument(content, source.sourceName)
+    );
   }
 
-  async processDocument(
-    documentId: string,
-    userId: string,
-    options: AIGenerationOptions = {},
-    onProgressUpdate?: (phase: string, progress: number) => void
-  ): Promise<string> {
-    try {
-      // Create AI processing job
-      const job = await storage.createAiProcessingJob({
-        documentId,
-        status: 'processing',
-        phase: 'document_analysis',
-        progress: 0,
-      });
+  private async loadCheckpoint(jobId?: string): Promise<GenerationCheckpoint> {
+    if (!jobId) return {};
+    const job = await storage.getAiProcessingJob(jobId);
+    return { ...((job?.result as GenerationCheckpoint | null) ?? {}) };
+  }
 
-      // Phase 1: Document Analysis (0-30%)
-      await this.updatePhase(job.id, 'document_analysis', 10, 'processing', onProgressUpdate);
-      
-      const document = await storage.getDocument(documentId);
-      if (!document) {
-        throw new Error('Document not found');
-      }
+  private async saveCheckpoint(jobId: string, checkpoint: GenerationCheckpoint): Promise<void> {
+    this.throwIfLeaseLost(jobId);
+    const job = await storage.updateAiProcessingJob(jobId, { result: checkpoint });
+    this.throwIfCancelled(job);
+  }
 
-      let documentContent = document.processedContent;
-      if (!documentContent) {
-        // Extract content from file if not already processed
-        documentContent = await this.extractTextFromFile(document.storageUrl, document.fileType);
-        await storage.updateDocumentContent(documentId, documentContent);
-      }
+  // The structured analysis a job produced, if it got that far
+  getAnalysis(job: AiProcessingJob): DocumentAnalysis | undefined {
+    const analysis = ((job.result as GenerationCheckpoint | null) ?? {}).analysis;
+    const parsed = documentAnalysisSchema.safeParse(analysis);
+    return parsed.success ? parsed.data : undefined;
+  }
 
-      await this.updatePhase(job.id, 'document_analysis', 30, 'completed', onProgressUpdate);
+  // The outline draft of a job that stopped for review
+  getOutlineDraft(job: AiProcessingJob): CourseOutline | undefined {
+    return ((job.result as GenerationCheckpoint | null) ?? {}).mapReduce?.coursePlan;
+  }
 
-      // Phase 2: Content Analysis (30-50%)
-      await this.updatePhase(job.id, 'content_analysis', 35, 'processing', onProgressUpdate);
-      
-      const analysis = await geminiService.analyzeDocument(documentContent, document.fileName);
-      
-      await this.updatePhase(job.id, 'content_analysis', 50, 'completed', onProgressUpdate);
+  /**
+   * Replace the outline draft with the creator's edits. With `approve`, the
+   * job is queued again and lessons are written from this outline only.
+   * Returns undefined when the job is no longer awaiting review.
+   */
+  async saveOutlineDraft(job: AiProcessingJob, outline: CourseOutline, approve = false): Promise<AiProcessingJob | undefined> {
+    const checkpoint = (job.result as GenerationCheckpoint | null) ?? {};
+    const updated: GenerationCheckpoint = {
+      ...checkpoint,
+      // Lessons are keyed by position, so nothing written for an earlier outline can be reused
+      mapReduce: { ...checkpoint.mapReduce, coursePlan: outline, writtenLessons: {} },
+      ...(approve ? { outlineApprovedAt: new Date().toISOString() } : {}),
+    };
 
-      // Phase 3: Content Generation (50-85%)
-      await this.updatePhase(job.id, 'content_generation', 55, 'processing', onProgressUpdate);
-      
-      const courseStructure = await geminiService.generateCourseStructure(
-        documentContent,
-        document.fileName,
-        options
-      );
+    return storage.transitionAiProcessingJob(job.id, ['awaiting_review'], approve
+      ? { result: updated, status: 'pending', attempts: 0, runAfter: new Date(), error: null, progressMessage: 'Outline approved' }
+      : { result: updated });
+  }
 
-      // Log the structure to debug quiz generation
-      console.log('Generated course structure:', JSON.stringify(courseStructure, null, 2));
-      console.log('Quiz generation options:', options);
+  // First phase a re-run of this job will actually execute
+  resumePhase(job: AiProcessingJob): AiProcessingJob['phase'] {
+    const checkpoint = (job.result as GenerationCheckpoint | null) ?? {};
+    if (checkpoint.courseStructure) return 'finalization';
+    if (typeof checkpoint.analysis === 'object') return 'content_generation';
+    return 'document_analysis';
+  }
 
-      await this.updatePhase(job.id, 'content_generation', 85, 'completed', onProgressUpdate);
+  private throwIfCancelled(job: AiProcessingJob | undefined): void {
+    if (job?.cancelRequestedAt) {
+      throw new JobCancelledError(job.id);
+    }
+  }
 
-      // Phase 4: Validation (85-95%)
-      await this.updatePhase(job.id, 'validation', 90, 'processing', onProgressUpdate);
-      
-      // Validate the generated structure
-      this.validateCourseStructure(courseStructure);
-      
-      await this.updatePhase(job.id, 'validation', 95, 'completed', onProgressUpdate);
+  private throwIfLeaseLost(jobId: string): void {
+    if (this.leaseSignals.get(jobId)?.aborted) {
+      throw new JobLeaseLostError(jobId);
+    }
+  }
 
-      // Phase 5: Finalization (95-100%)
-      await this.updatePhase(job.id, 'finalization', 96, 'processing', onProgressUpdate);
-      
-      const courseId = await this.createCourseFromStructure(courseStructure, userId, documentId, options);
-      
-      await this.updatePhase(job.id, 'finalization', 100, 'completed', onProgressUpdate);
+  /**
+   * Undo what a job has built so far: delete the modules it created (with
+   * their lessons and quizzes) and the glossary terms it added, and restore
+   * the course title and description. Safe to call more than once.
+   */
+  async rollbackGeneration(jobId: string): Promise<void> {
+    const job = await storage.getAiProcessingJob(jobId);
+    if (!job) return;
+    const checkpoint = (job.result as GenerationCheckpoint | null) ?? {};
 
-      // Update job as completed
-      await storage.updateAiProcessingJob(job.id, {
-        status: 'completed',
-        progress: 100,
-        result: { courseId, analysis },
+    if (checkpoint.createdModuleIds && checkpoint.createdModuleIds.length > 0) {
+      console.log(`Rolling back ${checkpoint.createdModuleIds.length} modules created by job ${jobId}`);
+      await storage.deleteGeneratedModules(checkpoint.createdModuleIds);
+    }
+    if (checkpoint.createdGlossaryTermIds && checkpoint.createdGlossaryTermIds.length > 0) {
+      await storage.deleteGlossaryTerms(checkpoint.createdGlossaryTermIds);
+    }
+    if (job.courseId && checkpoint.originalCourse) {
+      await storage.updateCourse(job.courseId, {
+        title: checkpoint.originalCourse.title,
+        description: checkpoint.originalCourse.description,
       });
-
-      return courseId;
-    } catch (error) {
-      console.error('Document processing failed:', error);
-      throw error;
     }
-  }
 
-  private async updatePhase(
-    jobId: string,
-    phase: string,
-    progress: number,
-    status: 'pending' | 'processing' | 'completed' | 'failed',
-    onProgressUpdate?: (phase: string, progress: number) => void
-  ): Promise<void> {
     await storage.updateAiProcessingJob(jobId, {
-      phase: phase as any,
-      progress,
+      result: { ...checkpoint, createdModuleIds: [], createdGlossaryTermIds: [], originalCourse: undefined },
     });
+  }
 
-    if (onProgressUpdate) {
-      onProgressUpdate(phase, progress);
+  private async getOrCreateDocumentChunks(documentId: string, documentContent: string): Promise<DocumentChunk[]> {
+    const existing = await storage.getDocumentChunks(documentId);
+    if (existing.length > 0) {
+      return existing;
     }
-
-    // Small delay to simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // Documents extracted before chunking existed are chunked on first use
+    return storage.replaceDocumentChunks(documentId, chunkDocument(documentId, documentContent));
   }
 
-  private async extractTextFromFile(filePath: string, fileType: string): Promise<string> {
-    // For demo purposes, return placeholder content
-    // In production, implement actual file parsing based on fileType
-    return `Processed content from ${fileType} file. This would contain the actual extracted text from the uploaded document.`;
-  }
+  /**
+   * Load, extract and chunk every input document. Chunk labels run across all
+   * documents ([C1]..[Cn]) so a single citation identifies both the document
+   * and the passage.
+   */
+  async loadSourceMaterial(documentIds: string[]): Promise<SourceMaterial> {
+    const documents: Document[] = [];
+    const analysisSections: string[] = [];
+    const promptSections: string[] = [];
+    const citableChunks = new Map<string, CitableChunk>();
+
+    for (const documentId of Array.from(new Set(documentIds))) {
+      const document = await storage.getDocument(documentId);
+      if (!document) {
+        throw new Error(`Document not found: ${documentId}`);
+      }
 
-  private validateCourseStructure(structure: any): void {
-    if (!structure.title || !structure.modules || !Array.isArray(structure.modules)) {
-      throw new Error('Invalid course structure generated');
+      let documentContent = document.processedContent;
+      if (!documentContent) {
+        // Extract content from file if not already processed
+        documentContent = await this.extractDocumentContent(document);
+      }
+
+      const chunks = await this.getOrCreateDocumentChunks(document.id, documentContent);
+      const labels = new Map<string, string>();
+      for (const chunk of chunks) {
+        const label = `C${citableChunks.size + 1}`;
+        labels.set(chunk.id, label);
+        citableChunks.set(label, { chunk, documentName: document.fileName });
+      }
+
+      documents.push(document);
+      const header = `=== Document ${documents.length}: ${document.fileName} ===`;
+      analysisSections.push(`${header}\n${documentContent}`);
+      promptSections.push(`${header}\n${formatChunksForPrompt(chunks, chunk => labels.get(chunk.id)!)}`);
     }
 
-    if (structure.modules.length === 0) {
-      throw new Error('No modules generated');
+    if (documents.length === 0) {
+      throw new Error('No documents to process');
     }
 
-    for (const module of structure.modules) {
-      if (!module.title || !module.lessons || !Array.isArray(module.lessons)) {
-        throw new Error('Invalid module structure');
-      }
+    return {
+      documents,
+      sourceName: documents.map(doc => doc.fileName).join(', '),
+      analysisContent: analysisSections.join('\n\n'),
+      promptContent: promptSections.join('\n\n'),
+      citableChunks,
+    };
+  }
 
-      if (module.lessons.length === 0) {
-        throw new Error('Module has no lessons');
-      }
-    }
+  private resolveLessonCitations(
+    content: string,
+    source: SourceMaterial
+  ): { content: string; sourceReferences: SourceReference[] } {
+    // Plain [n] markers name no chunk, so there is no source span to point them at
+    return resolveChunkCitations(content.replace(PLAIN_CITATION_PATTERN, ''), source.citableChunks);
   }
 
-  private async createCourseFromStructure(
-    structure: any,
+  private async updateJobPhase(
+    jobId: string,
+    phase: 'document_analysis' | 'content_analysis' | 'content_generation' | 'validation' | 'finalization',
+    progress: number,
+    message?: string
+  ): Promise<void> {
+    this.throwIfLeaseLost(jobId);
+    // Only phase and progress here - the job status belongs to the queue worker
+    const job = await storage.updateAiProcessingJob(jobId, {
+      phase,
+      progress,
+      progressMessage: message ?? null,
+      progressDetail: null,
+    });
+    notifyJobUpdated(jobId);
+    this.throwIfCancelled(job);
+  }
+
+  // Step-level progress within the current phase, streamed to the generation dialog
+  private async reportProgress(
+    jobId: string,
+    message: string,
+    detail: JobProgressDetail,
+    progress?: number
+  ): Promise<void> {
+    this.throwIfLeaseLost(jobId);
+    const job = await storage.updateAiProcessingJob(jobId, {
+      progressMessage: message,
+      progressDetail: detail,
+      ...(progress !== undefined ? { progress } : {}),
+    });
+    notifyJobUpdated(jobId);
+    this.throwIfCancelled(job);
+  }
+
+  /**
+   * Generate a new draft course from documents without queueing a job. The
+   * course goes through the same steps as a queued job, and its modules,
+   * lessons and quizzes are saved in one transaction; the draft is removed
+   * again when generation fails, so no empty course is left behind.
+   */
+  async processDocuments(
+    documentIds: string[],
     userId: string,
-    documentId: string,
-    options: AIGenerationOptions
+    options: AIGenerationOptions = {}
   ): Promise<string> {
-    // Create course
-    const courseData: InsertCourse = {
-      title: structure.title,
-      description: structure.description,
+    // Generation replaces the placeholder title and adds the description when it saves the course
+    const document = await storage.getDocument(documentIds[0]);
+    const course = await storage.createCourse({
+      title: document ? `Course from ${document.fileName}` : 'Generated course',
       creatorId: userId,
       status: 'draft',
       language: options.language || 'en',
       targetAudience: options.targetAudience,
       contentFocus: options.contentFocus,
-      difficultyLevel: structure.difficultyLevel,
-      estimatedDuration: structure.estimatedDuration,
-    };
-
-    const course = await storage.createCourse(courseData);
-
-    // Create modules and lessons
-    for (let i = 0; i < structure.modules.length; i++) {
-      const moduleData = structure.modules[i];
-      
-      const moduleRecord: InsertModule = {
-        courseId: course.id,
-        title: moduleData.title,
-        description: moduleData.description,
-        orderIndex: i,
-        estimatedDuration: moduleData.estimatedDuration,
-      };
-
-      const module = await storage.createModule(moduleRecord);
-
-      // Create lessons
-      for (let j = 0; j < moduleData.lessons.length; j++) {
-        const lessonData = moduleData.lessons[j];
-        
-        const lessonRecord: InsertLesson = {
-          moduleId: module.id,
-          title: lessonData.title,
-          content: lessonData.content,
-          orderIndex: j,
-          estimatedDuration: lessonData.estimatedDuration,
-        };
-
-        const lesson = await storage.createLesson(lessonRecord);
-        
-        // Create lesson-level quiz if present
-        if (lessonData.quiz) {
-          console.log(`Creating quiz for lesson: ${lesson.title}`);
-          const quizRecord: InsertQuiz = {
-            lessonId: lesson.id,
-            moduleId: module.id,
-            title: lessonData.quiz.title,
-            questions: lessonData.quiz.questions,
-            passingScore: 70,
-            maxAttempts: 3,
-          };
-
-          const createdQuiz = await storage.createQuiz(quizRecord);
-          console.log(`Quiz created with ID: ${createdQuiz.id}`);
-        }
-      }
+    });
 
-      // Create module-level quiz if present
-      if (moduleData.quiz) {
-        const quizRecord: InsertQuiz = {
-          moduleId: module.id,
-          title: moduleData.quiz.title,
-          questions: moduleData.quiz.questions,
-          passingScore: 70,
-          maxAttempts: 3,
-        };
+    try {
+      await this.processDocumentsAsync(documentIds, userId, course.id, undefined, options);
+      await storage.addMultipleDocumentsToCourse(course.id, documentIds);
+      return course.id;
+    } catch (error) {
+      await storage.deleteCourse(course.id);
+      throw error;
+    }
+  }
 
-        await storage.createQuiz(quizRecord);
-      }
+  /**
+   * Point a document at a newly uploaded file. Its text, chunks and every
+   * cached result derived from the old file are dropped, and so is the old
+   * file; the new file is extracted again on the next extraction or
+   * generation.
+   */
+  async replaceDocumentFile(
+    document: Document,
+    file: Pick<Document, 'fileName' | 'fileSize' | 'fileType' | 'storageUrl'>
+  ): Promise<Document> {
+    await invalidateDocumentCache(document.id);
+    await storage.replaceDocumentChunks(document.id, []);
+    await storage.updateDocument(document.id, {
+      ...file,
+      processedContent: null,
+      processingError: null,
+      contentHash: null,
+      status: 'pending',
+    });
+    if (document.storageUrl !== file.storageUrl) {
+      await fs.promises.unlink(document.storageUrl).catch(error => {
+        console.warn(`Could not delete the replaced file of ${document.fileName}:`, error instanceof Error ? error.message : error);
+      });
     }
+    return { ...document, ...file, processedContent: null, processingError: null, contentHash: null, status: 'pending' };
+  }
 
-    return course.id;
+  /**
+   * Parse the uploaded file into text and store it on the document.
+   * On failure the document moves to 'failed' with a readable reason.
+   */
+  async extractDocumentContent(document: Document): Promise<string> {
+    try {
+      await storage.updateDocument(document.id, { status: 'processing', processingError: null });
+
+      // The same file uploaded again (or under another name) reuses its earlier extraction
+      const contentHash = fs.existsSync(document.storageUrl)
+        ? hashContent(await fs.promises.readFile(document.storageUrl))
+        : undefined;
+      const fileType = textExtractor.resolveType(document.fileName, document.fileType);
+      const extract = async () => {
+        const extracted = await textExtractor.extract(document.storageUrl, document.fileName, document.fileType);
+        return { text: extracted.text, pageCount: extracted.pages.length };
+      };
+      const extracted = contentHash && fileType
+        ? await cached('extraction', { contentHash, fileType }, [document.id], extract)
+        : await extract();
+
+      await storage.updateDocument(document.id, {
+        processedContent: extracted.text,
+        processingError: null,
+        contentHash: contentHash ?? null,
+        status: 'completed',
+      });
+      await storage.replaceDocumentChunks(document.id, chunkDocument(document.id, extracted.text));
+      console.log(`✓ Extracted ${extracted.text.length} characters (${extracted.pageCount} pages) from ${document.fileName}`);
+      return extracted.text;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error while reading the document';
+      console.error(`Text extraction failed for ${document.fileName}:`, reason);
+      await storage.updateDocument(document.id, { status: 'failed', processingError: reason });
+      throw new Error(reason);
+    }
   }
 
   async getProcessingStatus(jobId: string): Promise<any> {
@@ -0,0 +1,61 @@
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import type { GenerationCacheEntry, InsertGenerationCacheEntry } from '@shared/schema';
+
+// Bump when a cached result's shape or the prompt behind it changes, so older entries stop matching
+const CACHE_VERSION = 2;
+
+export type GenerationCacheKind = GenerationCacheEntry['kind'];
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Return the stored result for `inputs`, or compute it and store it. `inputs`
+ * must hold everything the result depends on (content hashes, the provider
+ * and only the options the call actually reads), so runs that differ in
+ * unrelated settings such as quizzes or audience still hit. `documentIds`
+ * tags the entry for invalidation. A cache that cannot be read or written
+ * never fails generation; the result is just computed again.
+ */
+export async function cached<T>(
+  kind: GenerationCacheKind,
+  inputs: Record<string, unknown>,
+  documentIds: string[],
+  compute: () => Promise<T>
+): Promise<T> {
+  const key = hashContent(JSON.stringify({ version: CACHE_VERSION, kind, inputs }));
+
+  try {
+    const entry = await storage.useGenerationCacheEntry(key);
+    if (entry) {
+      console.log(`✓ Reused cached ${kind} (${key.slice(0, 12)})`);
+      return entry.value as T;
+    }
+  } catch (error) {
+    console.error(`Failed to read cached ${kind}:`, error);
+  }
+
+  const value = await compute();
+
+  try {
+    await storage.saveGenerationCacheEntry({
+      key,
+      kind,
+      documentIds: Array.from(new Set(documentIds)),
+      value: value as InsertGenerationCacheEntry['value'],
+    });
+  } catch (error) {
+    console.error(`Failed to cache ${kind}:`, error);
+  }
+  return value;
+}
+
+// Drop everything derived from a document whose file was replaced
+export async function invalidateDocumentCache(documentId: string): Promise<void> {
+  const removed = await storage.deleteGenerationCacheEntriesForDocument(documentId);
+  if (removed > 0) {
+    console.log(`Invalidated ${removed} cached results of document ${documentId}`);
+  }
+}
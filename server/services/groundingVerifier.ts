@@ -0,0 +1,142 @@
+import { llmProvider, type ClaimCheck } from './llmProvider';
+import { resolveChunkReference, type CitableChunk } from './citationResolver';
+import { findRelevantChunks } from './mapReduceGenerator';
+import type { GroundedClaim, LessonGrounding, SourceReference } from '@shared/schema';
+
+// Words a sentence needs to make a claim worth checking; shorter ones are labels and transitions
+const MIN_CLAIM_WORDS = 5;
+// Chunks matched by wording that are checked besides the ones a sentence cites
+const RELATED_CHUNKS = 2;
+const MAX_PASSAGES_PER_CLAIM = 4;
+// Source characters kept on each side of a chunk's best matching sentence
+const PASSAGE_CONTEXT_CHARS = 300;
+
+// Chunk citations ([C4], [C4, C7]) before they are resolved, and the numbered markers ([2]) after
+const CITATION_MARKER_PATTERN = /\[\s*(C?\d+(?:\s*[,;]\s*C?\d+)*)\s*\]/gi;
+// A sentence ends at its punctuation and any citation markers following it
+const SENTENCE_BOUNDARY_PATTERN = /(?<=[.!?]["”)]?(?:\s*\[[^\]]*\])*)\s+(?=["“(]?[A-Z0-9])/;
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", apos: "'" };
+
+interface LessonSentence {
+  text: string;
+  citations: string[];
+}
+
+// Lesson HTML as lines of plain text, one per block; headings are titles rather than claims
+function lessonLines(html: string): string[] {
+  return html
+    .replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, '\n')
+    .replace(/<\/?(?:p|div|li|ul|ol|br|tr|td|th|blockquote|pre|section|table)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39|apos);/gi, (_entity, name: string) => HTML_ENTITIES[name.toLowerCase()])
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+// The text of lesson HTML, so a check is kept when only the markup of a lesson changes
+export function lessonText(html: string): string {
+  return lessonLines(html).join('\n');
+}
+
+function splitLessonSentences(html: string): LessonSentence[] {
+  return lessonLines(html).flatMap(line => line.split(SENTENCE_BOUNDARY_PATTERN)).map(sentence => {
+    const citations: string[] = [];
+    const text = sentence.replace(CITATION_MARKER_PATTERN, (_marker, labels: string) => {
+      citations.push(...labels.split(/[,;]/).map(label => label.trim().toUpperCase()));
+      return '';
+    });
+    return { text: text.replace(/\s+([.,;:!?])/g, '$1').replace(/\s+/g, ' ').trim(), citations };
+  });
+}
+
+function isClaim(sentence: string): boolean {
+  return sentence.split(' ').length >= MIN_CLAIM_WORDS && !sentence.endsWith('?') && !sentence.endsWith(':');
+}
+
+// The chunk labels a sentence cites: chunk labels as they are, numbered markers through the lesson's references
+function citedLabels(citations: string[], references: SourceReference[], labelsByChunkId: Map<string, string>): string[] {
+  return citations
+    .map(citation => {
+      if (citation.startsWith('C')) return citation;
+      const chunkId = references[parseInt(citation, 10) - 1]?.chunkId;
+      return chunkId ? labelsByChunkId.get(chunkId) : undefined;
+    })
+    .filter((label): label is string => Boolean(label));
+}
+
+// The part of a chunk around the sentence best matching the claim
+function passageFor(label: string, claim: string, citableChunks: Map<string, CitableChunk>): { text: string; documentName: string } | undefined {
+  const reference = resolveChunkReference(label, claim, citableChunks);
+  const citable = citableChunks.get(label);
+  if (!reference || !citable) return undefined;
+
+  const content = citable.chunk.content;
+  const start = reference.startOffset - citable.chunk.startOffset;
+  const end = reference.endOffset - citable.chunk.startOffset;
+  const text = content
+    .slice(Math.max(0, start - PASSAGE_CONTEXT_CHARS), Math.min(content.length, end + PASSAGE_CONTEXT_CHARS))
+    .replace(/\s+/g, ' ')
+    .trim();
+  return { text, documentName: citable.documentName };
+}
+
+/**
+ * Check a lesson against its sources. The lesson is split into sentences;
+ * each one that makes a claim is matched to the passages of the chunks it
+ * cites and of the chunks closest to it in wording, and the LLM provider
+ * judges whether those passages back it. `references` map numbered [n]
+ * markers of saved lessons to their chunks; lessons still citing chunk
+ * labels need none. Returns null when the lesson makes no claims or there
+ * are no source chunks to check against.
+ */
+export async function verifyGrounding(
+  content: string,
+  citableChunks: Map<string, CitableChunk>,
+  references: SourceReference[] = []
+): Promise<LessonGrounding | null> {
+  if (citableChunks.size === 0) return null;
+
+  const labelsByChunkId = new Map<string, string>();
+  citableChunks.forEach(({ chunk }, label) => labelsByChunkId.set(chunk.id, label));
+
+  const checks: (ClaimCheck & { documentName?: string })[] = [];
+  for (const sentence of splitLessonSentences(content)) {
+    if (!isClaim(sentence.text)) continue;
+
+    const labels = Array.from(new Set([
+      ...citedLabels(sentence.citations, references, labelsByChunkId),
+      ...findRelevantChunks(sentence.text, citableChunks, RELATED_CHUNKS),
+    ])).slice(0, MAX_PASSAGES_PER_CLAIM);
+    const passages = labels
+      .map(label => passageFor(label, sentence.text, citableChunks))
+      .filter((passage): passage is NonNullable<typeof passage> => Boolean(passage));
+
+    checks.push({
+      claim: sentence.text,
+      passages: passages.map(passage => passage.text),
+      documentName: passages[0]?.documentName,
+    });
+  }
+  if (checks.length === 0) return null;
+
+  const verdicts = await llmProvider.verifyClaims(checks.map(({ claim, passages }) => ({ claim, passages })));
+  if (verdicts.length !== checks.length) {
+    throw new Error(`Expected ${checks.length} claim verdicts, received ${verdicts.length}`);
+  }
+
+  const claims: GroundedClaim[] = checks.map((check, index) => ({
+    sentence: check.claim,
+    verdict: verdicts[index].verdict,
+    ...(verdicts[index].note ? { note: verdicts[index].note } : {}),
+    ...(check.documentName ? { documentName: check.documentName, passage: check.passages[0] } : {}),
+  }));
+  const backed = claims.reduce((sum, claim) => sum + (claim.verdict === 'supported' ? 1 : claim.verdict === 'partial' ? 0.5 : 0), 0);
+
+  return {
+    score: Math.round((100 * backed) / claims.length),
+    checkedAt: new Date().toISOString(),
+    claims,
+  };
+}
@@ -0,0 +1,110 @@
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { storage } from '../storage';
+import type { AiProcessingJob, GenerationSummary } from '@shared/schema';
+
+// In-process notifications; jobs run by an external worker are picked up by the poll below
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const POLL_INTERVAL_MS = 1000;
+const KEEP_ALIVE_INTERVAL_MS = 15_000;
+
+export function notifyJobUpdated(jobId: string): void {
+  emitter.emit(jobId);
+}
+
+function progressPayload(job: AiProcessingJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    phase: job.phase,
+    progress: job.progress,
+    message: job.progressMessage,
+    detail: job.progressDetail,
+    error: job.error,
+    failedStep: job.failedStep,
+    cancelRequestedAt: job.cancelRequestedAt,
+  };
+}
+
+/**
+ * Stream a job's progress as Server-Sent Events. Sends a `progress` event for
+ * every change and ends with `completed` (carrying the course summary),
+ * `failed`, `cancelled` or `outline_ready` (the job paused for outline
+ * review), then closes the stream.
+ */
+export function streamJobEvents(jobId: string, res: Response): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  let checking = false;
+  let recheck = false;
+  let lastSnapshot = '';
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    emitter.off(jobId, check);
+    clearInterval(poll);
+    clearInterval(keepAlive);
+    res.end();
+  };
+
+  async function check(): Promise<void> {
+    if (closed) return;
+    if (checking) {
+      recheck = true;
+      return;
+    }
+    checking = true;
+    try {
+      const job = await storage.getAiProcessingJob(jobId);
+      if (!job || closed) return;
+
+      const payload = progressPayload(job);
+      const snapshot = JSON.stringify(payload);
+      if (snapshot !== lastSnapshot) {
+        lastSnapshot = snapshot;
+        send('progress', payload);
+      }
+
+      if (job.status === 'completed') {
+        const summary = (job.result as { summary?: GenerationSummary } | null)?.summary ?? null;
+        send('completed', { ...payload, summary });
+        close();
+      } else if (job.status === 'failed' || job.status === 'cancelled') {
+        send(job.status, payload);
+        close();
+      } else if (job.status === 'awaiting_review') {
+        send('outline_ready', payload);
+        close();
+      }
+    } catch (error) {
+      console.error(`Failed to stream events for job ${jobId}:`, error);
+    } finally {
+      checking = false;
+      if (recheck && !closed) {
+        recheck = false;
+        void check();
+      }
+    }
+  }
+
+  emitter.on(jobId, check);
+  const poll = setInterval(check, POLL_INTERVAL_MS);
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+  res.on('close', close);
+
+  void check();
+}
@@ -0,0 +1,302 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import { documentProcessor, GenerationStepError, JobCancelledError, JobLeaseLostError, OutlineReviewRequiredError } from './documentProcessor';
+import { notifyJobUpdated } from './jobEvents';
+import { trackValidationStats } from './llmOutputValidation';
+import { AIQuotaExceededError, getAiUsageSummary, withAiUsageContext } from './aiUsage';
+import type { AIGenerationOptions } from './llmProvider';
+import type { AiProcessingJob, LLMValidationStats } from '@shared/schema';
+
+export interface GenerationJobRequest {
+  documentIds: string[];
+  courseId: string;
+  userId: string;
+  options?: AIGenerationOptions;
+  maxAttempts?: number;
+}
+
+export interface JobWorkerConfig {
+  pollIntervalMs: number;
+  leaseMs: number;
+  heartbeatIntervalMs: number;
+  recoveryIntervalMs: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // Unleased jobs (started before the queue existed, or run inside a request) count as orphaned after this long
+  unleasedStaleMs: number;
+}
+
+const DEFAULT_CONFIG: JobWorkerConfig = {
+  pollIntervalMs: 2000,
+  leaseMs: 60_000,
+  heartbeatIntervalMs: 15_000,
+  recoveryIntervalMs: 60_000,
+  retryBaseDelayMs: 10_000,
+  retryMaxDelayMs: 5 * 60_000,
+  unleasedStaleMs: 30 * 60_000,
+};
+
+/**
+ * Persist a course generation request as a pending job. Any running worker
+ * (in the web process or started with `npm run start:worker`) will pick it up.
+ */
+export async function enqueueGenerationJob(request: GenerationJobRequest): Promise<AiProcessingJob> {
+  const documentIds = Array.from(new Set(request.documentIds));
+  return storage.createAiProcessingJob({
+    documentId: documentIds[0],
+    documentIds,
+    courseId: request.courseId,
+    userId: request.userId,
+    options: request.options || {},
+    status: 'pending',
+    phase: 'document_analysis',
+    progress: 0,
+    maxAttempts: request.maxAttempts,
+  });
+}
+
+/**
+ * Polls the ai_processing_jobs table, leases one job at a time and keeps the
+ * lease alive with heartbeats while it runs. Failed runs are put back as
+ * pending with exponential backoff until maxAttempts is reached; jobs whose
+ * worker died are resumed (or failed when out of attempts) by recovery.
+ */
+export class JobWorker {
+  readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private config: JobWorkerConfig;
+  private running = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private lastRecoveryAt = 0;
+  private currentRun: Promise<void> | null = null;
+
+  constructor(config: Partial<JobWorkerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    console.log(`AI job worker ${this.workerId} started`);
+    await this.recoverOrphanedJobs();
+    this.schedulePoll(0);
+  }
+
+  // Stop polling and wait for the job in hand to finish
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+    console.log(`AI job worker ${this.workerId} stopped`);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    this.pollTimer = setTimeout(() => {
+      this.poll().catch(error => {
+        console.error('AI job worker poll failed:', error);
+      }).finally(() => {
+        this.schedulePoll(this.config.pollIntervalMs);
+      });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (Date.now() - this.lastRecoveryAt >= this.config.recoveryIntervalMs) {
+      await this.recoverOrphanedJobs();
+    }
+
+    // Drain runnable jobs before going back to sleep
+    while (this.running) {
+      const job = await storage.claimNextAiProcessingJob(this.workerId, this.config.leaseMs);
+      if (!job) return;
+
+      this.currentRun = this.runJob(job);
+      try {
+        await this.currentRun;
+      } finally {
+        this.currentRun = null;
+      }
+    }
+  }
+
+  private async runJob(job: AiProcessingJob): Promise<void> {
+    console.log(`Running AI job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    // Once the lease is lost, orphan recovery may hand the job to another worker, so this run stops at its next step
+    const leaseLost = new AbortController();
+    const heartbeat = setInterval(() => {
+      storage.renewAiProcessingJobLease(job.id, this.workerId, this.config.leaseMs)
+        .then(renewed => {
+          if (!renewed && !leaseLost.signal.aborted) {
+            console.warn(`Lost the lease on AI job ${job.id}; stopping this run`);
+            leaseLost.abort();
+          }
+        })
+        .catch(error => console.error(`Heartbeat failed for AI job ${job.id}:`, error));
+    }, this.config.heartbeatIntervalMs);
+
+    try {
+      if (!job.courseId || !job.userId) {
+        throw new Error('Job is missing its course or user and cannot be run by the queue');
+      }
+
+      const documentIds = job.documentIds && job.documentIds.length > 0 ? job.documentIds : [job.documentId];
+      // Schema validation outcomes of the model calls accumulate on the job across attempts
+      const validationStats: LLMValidationStats = { ...(job.validationStats ?? {}) };
+      try {
+        await withAiUsageContext({ userId: job.userId, jobId: job.id }, () =>
+          trackValidationStats(validationStats, () => documentProcessor.processDocumentsAsync(
+            documentIds,
+            job.userId!,
+            job.courseId!,
+            job.id,
+            (job.options || {}) as AIGenerationOptions,
+            leaseLost.signal
+          )));
+      } finally {
+        if (!leaseLost.signal.aborted) {
+          await storage.updateAiProcessingJob(job.id, { validationStats })
+            .catch(error => console.error(`Failed to save validation stats for AI job ${job.id}:`, error));
+        }
+      }
+
+      await storage.releaseAiProcessingJob(job.id, this.workerId, {
+        status: 'completed',
+        progress: 100,
+        error: null,
+        failedStep: null,
+      });
+      notifyJobUpdated(job.id);
+      console.log(`✓ AI job ${job.id} completed`);
+    } catch (error) {
+      // The job belongs to whichever worker holds its lease now
+      if (error instanceof JobLeaseLostError || leaseLost.signal.aborted) {
+        console.warn(`AI job ${job.id} stopped after its lease was lost`);
+        return;
+      }
+      const latest = await storage.getAiProcessingJob(job.id);
+      if (error instanceof JobCancelledError || latest?.cancelRequestedAt) {
+        await this.finishCancelled(job);
+      } else if (error instanceof OutlineReviewRequiredError) {
+        // Parked until the creator approves the outline, which queues the job again
+        await storage.releaseAiProcessingJob(job.id, this.workerId, {
+          status: 'awaiting_review',
+          error: null,
+        });
+        notifyJobUpdated(job.id);
+        console.log(`AI job ${job.id} is waiting for outline review`);
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error occurred';
+        // Finalization names its exact step; otherwise the phase and last progress message say where it stopped
+        const failedStep = error instanceof GenerationStepError
+          ? error.step
+          : [latest?.phase, latest?.progressMessage].filter(Boolean).join(': ') || null;
+        // Model call errors are wrapped on the way up, so ask the quota itself whether it stopped the job
+        const usage = job.userId ? await getAiUsageSummary(job.userId).catch(() => null) : null;
+        if (usage && usage.remainingTokens === 0) {
+          await this.failWithoutRetry(job, new AIQuotaExceededError(usage).message, failedStep);
+        } else {
+          await this.handleFailure(job, message, failedStep);
+        }
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async finishCancelled(job: AiProcessingJob): Promise<void> {
+    await documentProcessor.rollbackGeneration(job.id);
+    await storage.releaseAiProcessingJob(job.id, this.workerId, {
+      status: 'cancelled',
+      error: 'Cancelled by the creator; generated content was rolled back',
+    });
+    notifyJobUpdated(job.id);
+    console.log(`AI job ${job.id} cancelled and rolled back`);
+  }
+
+  private async handleFailure(job: AiProcessingJob, message: string, failedStep: string | null): Promise<void> {
+    if (job.attempts < job.maxAttempts) {
+      const delayMs = this.retryDelay(job.attempts);
+      console.warn(`AI job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delayMs / 1000)}s: ${message}`);
+      await storage.releaseAiProcessingJob(job.id, this.workerId, {
+        status: 'pending',
+        runAfter: new Date(Date.now() + delayMs),
+        error: `Attempt ${job.attempts} failed: ${message}`,
+        failedStep,
+      });
+    } else {
+      console.error(`AI job ${job.id} failed after ${job.attempts} attempts: ${message}`);
+      await storage.releaseAiProcessingJob(job.id, this.workerId, {
+        status: 'failed',
+        error: message,
+        failedStep,
+      });
+    }
+    notifyJobUpdated(job.id);
+  }
+
+  // A spent quota is not transient: retrying before the next period would fail the same way
+  private async failWithoutRetry(job: AiProcessingJob, message: string, failedStep: string | null): Promise<void> {
+    console.error(`AI job ${job.id} failed without retry: ${message}`);
+    await storage.releaseAiProcessingJob(job.id, this.workerId, {
+      status: 'failed',
+      error: message,
+      failedStep,
+    });
+    notifyJobUpdated(job.id);
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(this.config.retryBaseDelayMs * 2 ** (attempt - 1), this.config.retryMaxDelayMs);
+  }
+
+  /**
+   * Put jobs abandoned by a dead worker back in the queue so they resume from
+   * their last checkpoint, or fail them when they cannot be resumed.
+   */
+  async recoverOrphanedJobs(): Promise<void> {
+    this.lastRecoveryAt = Date.now();
+    const orphaned = await storage.getOrphanedAiProcessingJobs(this.config.unleasedStaleMs);
+
+    for (const job of orphaned) {
+      if (job.cancelRequestedAt) {
+        await documentProcessor.rollbackGeneration(job.id);
+        await storage.updateAiProcessingJob(job.id, {
+          status: 'cancelled',
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          error: 'Cancelled by the creator; generated content was rolled back',
+        });
+        continue;
+      }
+
+      const resumable = Boolean(job.courseId && job.userId) && job.attempts < job.maxAttempts;
+      if (resumable) {
+        console.warn(`Resuming orphaned AI job ${job.id} (last worker: ${job.leaseOwner || 'none'})`);
+        await storage.updateAiProcessingJob(job.id, {
+          status: 'pending',
+          runAfter: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          error: 'Interrupted before completion; resuming',
+        });
+      } else {
+        console.warn(`Failing orphaned AI job ${job.id} (last worker: ${job.leaseOwner || 'none'})`);
+        await storage.updateAiProcessingJob(job.id, {
+          status: 'failed',
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          error: 'Processing was interrupted (server restart or worker crash) and could not be resumed',
+        });
+      }
+    }
+  }
+}
+
+export const jobWorker = new JobWorker();
@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import { storage } from '../storage';
+import type { LearningObjective, ObjectiveCoverage } from '@shared/schema';
+import type { CourseStructure, GeneratedQuizQuestion, StructureObjective } from './llmProvider';
+
+/**
+ * Give every module and lesson objective of a generated structure an id.
+ * Objectives that already have one keep it, so a structure restored from a
+ * checkpoint still matches the quizzes generated for it. Returns whether any
+ * id was added.
+ */
+export function assignObjectiveIds(structure: CourseStructure): boolean {
+  let assigned = false;
+  const assign = (objectives: StructureObjective[] = []) => {
+    for (const objective of objectives) {
+      if (!objective.id) {
+        objective.id = randomUUID();
+        assigned = true;
+      }
+    }
+  };
+
+  for (const module of structure.modules) {
+    assign(module.objectives);
+    module.lessons.forEach(lesson => assign(lesson.objectives));
+  }
+  return assigned;
+}
+
+// Objectives of a structure whose ids were assigned, ready to be stored
+export function toLearningObjectives(objectives: StructureObjective[] = []): LearningObjective[] {
+  return objectives
+    .filter((objective): objective is LearningObjective => Boolean(objective.id))
+    .map(({ id, text, bloomLevel }) => ({ id, text, bloomLevel }));
+}
+
+/**
+ * Count, per learning objective of the course, the quiz questions that
+ * assess it. Objectives with no questions are the coverage gaps; questions
+ * that point at no objective of the course (never linked, or their objective
+ * was deleted) are counted separately.
+ */
+export async function getObjectiveCoverage(courseId: string): Promise<ObjectiveCoverage> {
+  const modules = await storage.getCourseModules(courseId);
+  const coverage: ObjectiveCoverage['objectives'] = [];
+  const questions: GeneratedQuizQuestion[] = [];
+
+  for (const module of modules) {
+    for (const objective of module.objectives ?? []) {
+      coverage.push({ objective, moduleId: module.id, title: module.title, questionCount: 0 });
+    }
+    for (const lesson of await storage.getModuleLessons(module.id)) {
+      for (const objective of lesson.objectives ?? []) {
+        coverage.push({ objective, moduleId: module.id, lessonId: lesson.id, title: lesson.title, questionCount: 0 });
+      }
+    }
+    for (const quiz of await storage.getModuleQuizzes(module.id)) {
+      if (Array.isArray(quiz.questions)) {
+        questions.push(...(quiz.questions as unknown as GeneratedQuizQuestion[]));
+      }
+    }
+  }
+
+  const byId = new Map(coverage.map(entry => [entry.objective.id, entry]));
+  let unlinkedQuestionCount = 0;
+  for (const question of questions) {
+    const entry = question.objectiveId ? byId.get(question.objectiveId) : undefined;
+    if (entry) {
+      entry.questionCount++;
+    } else {
+      unlinkedQuestionCount++;
+    }
+  }
+
+  return {
+    objectives: coverage,
+    coveredCount: coverage.filter(entry => entry.questionCount > 0).length,
+    questionCount: questions.length,
+    unlinkedQuestionCount,
+  };
+}
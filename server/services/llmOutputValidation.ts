@@ -0,0 +1,279 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { z } from 'zod';
+import {
+  courseOutlineSchema,
+  documentAnalysisSchema,
+  generatedObjectiveSchema,
+  quizQuestionSchema,
+  GROUNDING_VERDICTS,
+  type LLMCallValidationStats,
+  type LLMValidationStats,
+  type QuizQuestionType,
+  type QuizQuestion,
+  type ShortAnswerGrade,
+} from '@shared/schema';
+import { repairQuestion } from '@shared/quizQuality';
+import type {
+  ClaimVerdict,
+  CoursePlan,
+  CourseStructure,
+  GeneratedFlashcard,
+  GeneratedQuiz,
+  GeneratedQuizQuestion,
+  GlossaryEntry,
+  SectionOutline,
+  TemplateCourseStructure,
+  WrittenLesson,
+} from './llmProvider';
+
+// Times an invalid response is sent back to the model with its errors before the call fails
+export const MAX_REPAIR_ATTEMPTS = 2;
+// Issues listed in a repair prompt; the rest are usually the same mistake repeated
+const MAX_ISSUES_IN_PROMPT = 20;
+
+// Generated questions follow the same rules as the ones creators author
+export const generatedQuizQuestionSchema: z.ZodType<GeneratedQuizQuestion> = quizQuestionSchema;
+
+export const generatedQuizSchema: z.ZodType<GeneratedQuiz> = z.object({
+  title: z.string().trim().min(1),
+  questions: z.array(generatedQuizQuestionSchema).min(1),
+});
+
+// With `objectiveIds`, every question must name one of them as the objective it assesses; with `questionTypes`, be of one of them.
+// Slips such as an answer given as its option's letter are repaired before validation rather than sent back to the model
+export function quizQuestionsSchema(
+  count: number,
+  objectiveIds: string[] = [],
+  questionTypes: QuizQuestionType[] = []
+): z.ZodType<GeneratedQuizQuestion[], z.ZodTypeDef, unknown> {
+  const questions = z.preprocess(
+    raw => Array.isArray(raw)
+      ? raw.map(item => (item && typeof item === 'object' ? repairQuestion(item as QuizQuestion) : item))
+      : raw,
+    z.array(generatedQuizQuestionSchema).length(count, `Expected exactly ${count} questions`)
+  );
+  if (objectiveIds.length === 0 && questionTypes.length === 0) return questions;
+
+  return questions.superRefine((generated, ctx) => {
+    generated.forEach((question, index) => {
+      if (objectiveIds.length > 0 && (!question.objectiveId || !objectiveIds.includes(question.objectiveId))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'objectiveId'],
+          message: `Must be one of the objective ids: ${objectiveIds.join(', ')}`,
+        });
+      }
+      if (questionTypes.length > 0 && !questionTypes.includes(question.type)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'type'],
+          message: `Must be one of: ${questionTypes.join(', ')}`,
+        });
+      }
+    });
+  });
+}
+
+export function flashcardsSchema(count: number): z.ZodType<GeneratedFlashcard[]> {
+  return z.array(z.object({
+    front: z.string().trim().min(1).max(500),
+    back: z.string().trim().min(1).max(2000),
+  })).length(count, `Expected exactly ${count} flashcards`);
+}
+
+export const shortAnswerGradeSchema: z.ZodType<ShortAnswerGrade> = z.object({
+  score: z.number().min(0).max(1),
+  explanation: z.string().trim().min(1),
+});
+
+// One verdict per claim, numbered in the order the claims were given
+export function claimVerdictsSchema(count: number): z.ZodType<ClaimVerdict[], z.ZodTypeDef, unknown> {
+  return z.array(z.object({
+    claim: z.number().int(),
+    verdict: z.enum(GROUNDING_VERDICTS),
+    note: z.string().trim().max(500).optional(),
+  }))
+    .length(count, `Expected exactly ${count} verdicts, one per claim`)
+    .superRefine((verdicts, ctx) => {
+      verdicts.forEach((verdict, index) => {
+        if (verdict.claim !== index + 1) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'claim'], message: `Expected claim ${index + 1}; give the verdicts in the order of the claims` });
+        }
+      });
+    })
+    .transform(verdicts => verdicts.map(({ verdict, note }) => (note ? { verdict, note } : { verdict })));
+}
+
+const duration = z.number().positive();
+
+export const courseStructureSchema: z.ZodType<CourseStructure> = z.object({
+  title: z.string().trim().min(1),
+  description: z.string(),
+  estimatedDuration: duration,
+  difficultyLevel: z.enum(['beginner', 'intermediate', 'advanced']),
+  modules: z.array(z.object({
+    title: z.string().trim().min(1),
+    description: z.string(),
+    estimatedDuration: duration,
+    objectives: z.array(generatedObjectiveSchema).min(1),
+    lessons: z.array(z.object({
+      title: z.string().trim().min(1),
+      content: z.string().trim().min(1),
+      estimatedDuration: duration,
+      objectives: z.array(generatedObjectiveSchema).min(1),
+      quiz: generatedQuizSchema.optional(),
+    })).min(1),
+    quiz: generatedQuizSchema.optional(),
+  })).min(1),
+});
+
+export const sectionOutlineSchema: z.ZodType<SectionOutline> = z.object({
+  summary: z.string().trim().min(1),
+  topics: z.array(z.object({
+    title: z.string().trim().min(1),
+    keyPoints: z.array(z.string()),
+    chunkLabels: z.array(z.string()).min(1),
+  })).min(1),
+});
+
+export const coursePlanSchema: z.ZodType<CoursePlan> = courseOutlineSchema;
+
+export { documentAnalysisSchema };
+
+export const writtenLessonSchema: z.ZodType<WrittenLesson> = z.object({
+  content: z.string().trim().min(1),
+  estimatedDuration: duration,
+  objectives: z.array(generatedObjectiveSchema).min(1),
+});
+
+// Every entry must cite one of the chunk labels the model was given
+export function glossarySchema(chunkLabels: string[]): z.ZodType<GlossaryEntry[]> {
+  return z.array(z.object({
+    term: z.string().trim().min(1).max(120),
+    definition: z.string().trim().min(1),
+    chunkLabel: z.string().trim().refine(
+      label => chunkLabels.includes(label.toUpperCase()),
+      'Must be one of the chunk labels in the source'
+    ),
+  }));
+}
+
+export const templateCourseStructureSchema: z.ZodType<TemplateCourseStructure> = z.object({
+  modules: z.array(z.object({
+    title: z.string().trim().min(1),
+    description: z.string(),
+    orderIndex: z.number().int(),
+    estimatedDuration: duration,
+    lessons: z.array(z.object({
+      title: z.string().trim().min(1),
+      content: z.string().trim().min(1),
+      orderIndex: z.number().int(),
+      estimatedDuration: duration,
+    })).min(1),
+  })).min(1),
+});
+
+// A model response that stayed invalid after every repair attempt
+export class LLMValidationError extends Error {
+  constructor(readonly call: string, readonly issues: string[], repairAttempts: number) {
+    super(`${call} returned invalid output after ${repairAttempts} repair attempts: ${issues.slice(0, 5).join('; ')}`);
+    this.name = 'LLMValidationError';
+  }
+}
+
+// The previous invalid response and what is wrong with it, for the next request to fix
+export interface RepairRequest {
+  previousOutput: string;
+  issues: string[];
+}
+
+export function formatRepairPrompt(repair: RepairRequest): string {
+  const issues = repair.issues.slice(0, MAX_ISSUES_IN_PROMPT);
+  const more = repair.issues.length - issues.length;
+  return [
+    'Your previous response does not match the required JSON structure. Fix these problems:',
+    ...issues.map(issue => `- ${issue}`),
+    ...(more > 0 ? [`- ...and ${more} more of the same kind`] : []),
+    'Respond with the complete corrected JSON only. Keep everything that was already valid unchanged.',
+  ].join('\n');
+}
+
+/**
+ * Call the model, parse its JSON and validate it against `schema`. Invalid
+ * responses are sent back (through `generate`'s repair argument) with their
+ * field-level errors, up to `maxRepairs` times, before LLMValidationError is
+ * thrown. Outcomes are counted in the validation stats of the current job.
+ */
+export async function generateWithRepair<T>(
+  call: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  generate: (repair?: RepairRequest) => Promise<string | undefined>,
+  maxRepairs = MAX_REPAIR_ATTEMPTS
+): Promise<T> {
+  let repair: RepairRequest | undefined;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    const raw = await generate(repair);
+    const result = parseModelJson(raw, schema);
+    if (result.success) {
+      recordValidation(call, attempt, repair?.issues);
+      return result.data;
+    }
+
+    console.warn(`${call} returned invalid output (attempt ${attempt + 1}/${maxRepairs + 1}): ${result.issues.slice(0, 5).join('; ')}`);
+    repair = { previousOutput: raw ?? '', issues: result.issues };
+  }
+
+  recordValidation(call, maxRepairs, repair!.issues, true);
+  throw new LLMValidationError(call, repair!.issues, maxRepairs);
+}
+
+function parseModelJson<T>(raw: string | undefined, schema: z.ZodType<T, z.ZodTypeDef, unknown>): { success: true; data: T } | { success: false; issues: string[] } {
+  if (!raw || !raw.trim()) {
+    return { success: false, issues: ['(response): Empty response from model'] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  } catch (error) {
+    return { success: false, issues: [`(response): Not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`),
+  };
+}
+
+// Stats of the job whose generation is running in the current async context
+const statsScope = new AsyncLocalStorage<LLMValidationStats>();
+
+// Run `fn` with model calls made inside it counted into `stats`
+export function trackValidationStats<T>(stats: LLMValidationStats, fn: () => Promise<T>): Promise<T> {
+  return statsScope.run(stats, fn);
+}
+
+function recordValidation(call: string, repairs: number, issues: string[] | undefined, failed = false): void {
+  const stats = statsScope.getStore();
+  if (!stats) return;
+
+  const entry: LLMCallValidationStats = stats[call] ?? { calls: 0, validFirstTime: 0, repaired: 0, failed: 0, repairAttempts: 0 };
+  entry.calls++;
+  entry.repairAttempts += repairs;
+  if (failed) {
+    entry.failed++;
+  } else if (repairs > 0) {
+    entry.repaired++;
+  } else {
+    entry.validFirstTime++;
+  }
+  if (issues) {
+    entry.lastIssues = issues.slice(0, MAX_ISSUES_IN_PROMPT);
+  }
+  stats[call] = entry;
+}
@@ -0,0 +1,209 @@
+import type { CourseOutline, CourseTemplate, DocumentAnalysis, GeneratedObjective, GroundingVerdict, LearningObjective, QuizQuestion, QuizQuestionType, ShortAnswerGrade, TutorMessageRole } from "@shared/schema";
+import { GeminiProvider } from "./gemini";
+import { OfflineProvider } from "./offlineProvider";
+
+export interface CourseStructure {
+  title: string;
+  description: string;
+  estimatedDuration: number;
+  difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
+  modules: {
+    title: string;
+    description: string;
+    estimatedDuration: number;
+    objectives?: StructureObjective[];
+    lessons: {
+      title: string;
+      content: string;
+      estimatedDuration: number;
+      objectives?: StructureObjective[];
+      quiz?: GeneratedQuiz;
+    }[];
+    quiz?: GeneratedQuiz;
+  }[];
+}
+
+// A generated objective; the id is assigned once before quizzes are generated, so questions can point at it
+export type StructureObjective = GeneratedObjective & { id?: string };
+
+export interface GeneratedQuiz {
+  title: string;
+  questions: GeneratedQuizQuestion[];
+}
+
+// Generated questions are saved as they are; objectiveId names the learning objective a question assesses
+export type GeneratedQuizQuestion = QuizQuestion;
+
+export interface AIGenerationOptions {
+  language?: string;
+  targetAudience?: string;
+  contentFocus?: string;
+  difficultyLevel?: 'beginner' | 'intermediate' | 'advanced' | 'expert';
+  moduleCount?: number;
+  // Stop after the outline so the creator can review it before lessons are written
+  reviewOutline?: boolean;
+  generateQuizzes?: boolean;
+  quizFrequency?: 'module' | 'lesson';
+  questionsPerQuiz?: number;
+  questionTypes?: QuizQuestionType[];
+  generateFlashcards?: boolean;
+  flashcardsPerModule?: number;
+  includeExercises?: boolean;
+  includeExamples?: boolean;
+}
+
+// Map step: what one section of a long source covers, with the chunks backing each topic
+export interface SectionOutline {
+  summary: string;
+  topics: {
+    title: string;
+    keyPoints: string[];
+    chunkLabels: string[];
+  }[];
+}
+
+// Reduce step: the course plan merged from all section outlines. Each lesson
+// lists the chunk labels it should be written from. Creators review it as the outline draft.
+export type CoursePlan = CourseOutline;
+
+// A term of the course glossary as extracted from the source, with the chunk its definition is based on
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+  chunkLabel: string;
+}
+
+// A generated flashcard: a prompt on the front, the fact to recall on the back
+export interface GeneratedFlashcard {
+  front: string;
+  back: string;
+}
+
+// A sentence of a lesson with the source passages that best match it, to be judged for support
+export interface ClaimCheck {
+  claim: string;
+  passages: string[];
+}
+
+export interface ClaimVerdict {
+  verdict: GroundingVerdict;
+  note?: string; // what the passages don't back, for partly supported and unsupported claims
+}
+
+// One earlier message of a learner's conversation with a course's tutor
+export interface TutorTurn {
+  role: TutorMessageRole;
+  content: string;
+}
+
+export interface TutorQuestion {
+  courseTitle: string;
+  question: string;
+  history: TutorTurn[]; // oldest first
+  lessonContent: string; // the course's lessons that best match the question, citing chunk labels
+  sourceContent: string; // labelled chunks of the course's documents that best match the question
+}
+
+export interface LessonBrief {
+  courseTitle: string;
+  moduleTitle: string;
+  title: string;
+  objective: string;
+  position: 'first' | 'middle' | 'last';
+}
+
+export interface WrittenLesson {
+  content: string;
+  estimatedDuration: number;
+  objectives?: GeneratedObjective[]; // lessons written before objectives existed have none
+}
+
+// Outline produced for template-based courses (no source documents)
+export interface TemplateCourseStructure {
+  modules: {
+    title: string;
+    description: string;
+    orderIndex: number;
+    estimatedDuration: number;
+    lessons: {
+      title: string;
+      content: string;
+      orderIndex: number;
+      estimatedDuration: number;
+    }[];
+  }[];
+}
+
+export interface TemplateCustomization {
+  title?: string;
+  targetAudience?: string;
+  difficultyLevel?: 'beginner' | 'intermediate' | 'advanced';
+}
+
+export interface TemplateGenerationRequest {
+  title: string;
+  description: string;
+  category: string;
+  difficultyLevel: 'beginner' | 'intermediate' | 'advanced';
+  targetAudience: string;
+  estimatedDuration: number;
+}
+
+/**
+ * Everything the platform asks of a language model. Implementations own their
+ * prompts and client; callers only see course-shaped inputs and outputs.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  analyzeDocument(content: string, fileName: string): Promise<DocumentAnalysis>;
+  // `analysis` (topics, objectives, complexity, suggested outline) guides how the course is structured
+  generateCourseStructure(documentContent: string, fileName: string, options?: AIGenerationOptions, analysis?: DocumentAnalysis): Promise<CourseStructure>;
+  outlineSection(sectionContent: string, sourceName: string, options?: AIGenerationOptions): Promise<SectionOutline>;
+  planCourse(outlines: SectionOutline[], sourceName: string, options?: AIGenerationOptions, analysis?: DocumentAnalysis): Promise<CoursePlan>;
+  writeLesson(brief: LessonBrief, sourceContent: string, options?: AIGenerationOptions): Promise<WrittenLesson>;
+  // Jargon the labelled source chunks use, each defined from the source and tied to one chunk
+  extractGlossary(sourceContent: string, sourceName: string, options?: AIGenerationOptions): Promise<GlossaryEntry[]>;
+  // With `objectives`, every question assesses one of them and carries its id. Only `questionTypes` (default DEFAULT_QUIZ_QUESTION_TYPES) are used
+  generateQuizQuestions(content: string, count: number, difficultyLevel: string, instructions?: string, objectives?: LearningObjective[], questionTypes?: QuizQuestionType[]): Promise<GeneratedQuizQuestion[]>;
+  // Grade a learner's short answer against the question's rubric and model answer
+  gradeShortAnswer(question: string, rubric: string, answer: string, modelAnswer?: string): Promise<ShortAnswerGrade>;
+  // Question-and-answer cards for memorizing the key facts of lesson content
+  generateFlashcards(content: string, count: number, instructions?: string): Promise<GeneratedFlashcard[]>;
+  // Whether each claim is backed by its passages, in order; the passages are the only evidence considered
+  verifyClaims(claims: ClaimCheck[]): Promise<ClaimVerdict[]>;
+  // A plain-text answer to a learner's question from the course material, citing chunk labels e.g. [C4]
+  answerTutorQuestion(request: TutorQuestion): Promise<string>;
+  // Embedding vectors of the texts, in order, for similarity checks; null when the provider has no embedding model
+  embedTexts(texts: string[]): Promise<number[][] | null>;
+  // Rewrite existing lesson HTML following the creator's guidance in `context`, grounded in labelled source chunks
+  enhanceContent(content: string, context: string, sourceContent?: string): Promise<string>;
+  generateCourseFromTemplate(template: CourseTemplate, customization?: TemplateCustomization): Promise<TemplateCourseStructure>;
+  createCustomTemplate(request: TemplateGenerationRequest): Promise<TemplateCourseStructure>;
+}
+
+/**
+ * Pick the provider from LLM_PROVIDER ("gemini" or "offline"). Without an
+ * explicit choice Gemini is used when GEMINI_API_KEY is set, otherwise the
+ * offline provider so development and CI run without network access.
+ */
+export function createLLMProvider(): LLMProvider {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase();
+
+  switch (configured) {
+    case 'gemini':
+      return new GeminiProvider(process.env.GEMINI_API_KEY || "");
+    case 'offline':
+      return new OfflineProvider(process.env.LLM_FIXTURES_DIR);
+    case undefined:
+    case '':
+      if (process.env.GEMINI_API_KEY) {
+        return new GeminiProvider(process.env.GEMINI_API_KEY);
+      }
+      console.warn('GEMINI_API_KEY is not set - using the offline LLM provider');
+      return new OfflineProvider(process.env.LLM_FIXTURES_DIR);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${configured}" (expected "gemini" or "offline")`);
+  }
+}
+
+export const llmProvider: LLMProvider = createLLMProvider();
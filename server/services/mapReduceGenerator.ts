@@ -0,0 +1,285 @@
+import { llmProvider, type AIGenerationOptions, type CoursePlan, type CourseStructure, type SectionOutline, type WrittenLesson } from './llmProvider';
+import { formatChunksForPrompt } from './documentChunker';
+import { cached, hashContent } from './generationCache';
+import type { CitableChunk } from './citationResolver';
+import type { DocumentAnalysis, JobProgressDetail } from '@shared/schema';
+
+// Sources up to this size go to the model in a single prompt; larger ones are generated map-reduce style
+export const SINGLE_PROMPT_MAX_CHARS = 60_000;
+// Size of each section sent to the map (outline) step
+const SECTION_MAX_CHARS = 20_000;
+// Upper bound on the chunks one lesson is written from
+const MAX_LESSON_CHUNKS = 10;
+
+// Progress of a map-reduce run, saved in the job checkpoint so a retry skips finished calls
+export interface MapReduceState {
+  sectionOutlines?: SectionOutline[];
+  coursePlan?: CoursePlan;
+  // Keyed by "moduleIndex:lessonIndex"
+  writtenLessons?: Record<string, WrittenLesson>;
+}
+
+export interface MapReduceHooks {
+  onProgress?: (message: string, detail: JobProgressDetail) => Promise<void>;
+  // Called after every model call with the updated state
+  onStateChange?: (state: MapReduceState) => Promise<void>;
+}
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'one', 'our', 'has', 'have',
+  'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'which', 'when',
+  'into', 'than', 'then', 'them', 'these', 'those', 'such', 'also', 'been', 'were', 'its', 'each',
+  'explain', 'understand', 'describe', 'lesson', 'learn', 'presented', 'source',
+]);
+
+export function needsMapReduce(promptContent: string): boolean {
+  return promptContent.length > SINGLE_PROMPT_MAX_CHARS;
+}
+
+/**
+ * Map step: split the labelled chunks into sections that fit comfortably in
+ * one prompt and outline each. Outlines already in `state` are reused, so an
+ * interrupted run continues with the next section.
+ */
+export async function outlineSources(
+  citableChunks: Map<string, CitableChunk>,
+  sourceName: string,
+  options: AIGenerationOptions,
+  state: MapReduceState,
+  hooks: MapReduceHooks = {}
+): Promise<SectionOutline[]> {
+  const sections = splitIntoSections(citableChunks);
+  const outlines = (state.sectionOutlines ?? []).slice(0, sections.length);
+
+  for (let index = outlines.length; index < sections.length; index++) {
+    await hooks.onProgress?.(`Outlining section ${index + 1} of ${sections.length}`, {
+      step: 'section',
+      current: index + 1,
+      total: sections.length,
+    });
+
+    // An outline depends on the section text and output language only, so runs with other settings reuse it
+    const sectionContent = formatLabelledChunks(sections[index], citableChunks);
+    const documentIds = sections[index].map(label => citableChunks.get(label)!.chunk.documentId);
+    const outline = await cached(
+      'section_outline',
+      { provider: llmProvider.name, section: hashContent(sectionContent), sourceName, language: options.language || 'English' },
+      documentIds,
+      () => llmProvider.outlineSection(sectionContent, sourceName, options)
+    );
+    outlines.push(outline);
+    state.sectionOutlines = [...outlines];
+    await hooks.onStateChange?.(state);
+  }
+
+  return outlines;
+}
+
+// Compact rendering of the outlines, used in place of the full text for document analysis
+export function formatOutlinesForAnalysis(outlines: SectionOutline[]): string {
+  return outlines.map((outline, index) => [
+    `Section ${index + 1}: ${outline.summary}`,
+    ...outline.topics.map(topic => `- ${topic.title}: ${topic.keyPoints.join('; ')}`),
+  ].join('\n')).join('\n\n');
+}
+
+// Reduce step: merge the outlines into a course plan. A plan already in `state` (possibly edited by the creator) is reused
+export async function planCourseOutline(
+  outlines: SectionOutline[],
+  sourceName: string,
+  options: AIGenerationOptions,
+  state: MapReduceState,
+  hooks: MapReduceHooks = {},
+  analysis?: DocumentAnalysis
+): Promise<CoursePlan> {
+  let plan = state.coursePlan;
+  if (!plan) {
+    await hooks.onProgress?.(`Planning the course from ${outlines.length} section outlines`, {
+      step: 'section',
+      current: outlines.length,
+      total: outlines.length,
+    });
+    plan = await llmProvider.planCourse(outlines, sourceName, options, analysis);
+    if (!plan || !Array.isArray(plan.modules) || plan.modules.length === 0) {
+      throw new Error('Generated course plan is invalid');
+    }
+    state.coursePlan = plan;
+    await hooks.onStateChange?.(state);
+  }
+  return plan;
+}
+
+/**
+ * Write each lesson of the plan from only the chunks assigned to it, so lesson
+ * citations always point into the passages it was written from. Lessons
+ * already in `state` are skipped. Quizzes are not generated here.
+ */
+export async function writeCourseFromPlan(
+  citableChunks: Map<string, CitableChunk>,
+  plan: CoursePlan,
+  options: AIGenerationOptions,
+  state: MapReduceState,
+  hooks: MapReduceHooks = {}
+): Promise<CourseStructure> {
+  const writtenLessons = { ...(state.writtenLessons ?? {}) };
+  const totalLessons = plan.modules.reduce((sum, module) => sum + module.lessons.length, 0);
+  let lessonNumber = 0;
+
+  const modules: CourseStructure['modules'] = [];
+  for (let moduleIndex = 0; moduleIndex < plan.modules.length; moduleIndex++) {
+    const module = plan.modules[moduleIndex];
+    const lessons: CourseStructure['modules'][number]['lessons'] = [];
+
+    for (let lessonIndex = 0; lessonIndex < module.lessons.length; lessonIndex++) {
+      const lesson = module.lessons[lessonIndex];
+      const key = `${moduleIndex}:${lessonIndex}`;
+      lessonNumber++;
+
+      let written = writtenLessons[key];
+      if (!written) {
+        await hooks.onProgress?.(`Writing lesson ${lessonNumber} of ${totalLessons}: ${lesson.title}`, {
+          step: 'lesson',
+          current: lessonNumber,
+          total: totalLessons,
+          title: lesson.title,
+        });
+
+        const labels = selectLessonChunks(lesson, citableChunks);
+        written = await llmProvider.writeLesson(
+          {
+            courseTitle: plan.title,
+            moduleTitle: module.title,
+            title: lesson.title,
+            objective: lesson.objective,
+            position: lessonIndex === 0 ? 'first' : lessonIndex === module.lessons.length - 1 ? 'last' : 'middle',
+          },
+          formatLabelledChunks(labels, citableChunks),
+          options
+        );
+        writtenLessons[key] = written;
+        state.writtenLessons = { ...writtenLessons };
+        await hooks.onStateChange?.(state);
+      }
+
+      lessons.push({
+        title: lesson.title,
+        content: written.content,
+        // A duration set in the outline wins over the writer's estimate
+        estimatedDuration: lesson.estimatedDuration || written.estimatedDuration || 10,
+        objectives: written.objectives,
+      });
+    }
+
+    modules.push({
+      title: module.title,
+      description: module.description,
+      estimatedDuration: lessons.reduce((sum, lesson) => sum + lesson.estimatedDuration, 0),
+      objectives: module.objectives,
+      lessons,
+    });
+  }
+
+  return {
+    title: plan.title,
+    description: plan.description,
+    difficultyLevel: plan.difficultyLevel,
+    estimatedDuration: modules.reduce((sum, module) => sum + module.estimatedDuration, 0),
+    modules,
+  };
+}
+
+// Group chunk labels, in source order, into sections no longer than SECTION_MAX_CHARS
+function splitIntoSections(citableChunks: Map<string, CitableChunk>): string[][] {
+  const sections: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+
+  citableChunks.forEach(({ chunk }, label) => {
+    if (current.length > 0 && currentLength + chunk.content.length > SECTION_MAX_CHARS) {
+      sections.push(current);
+      current = [];
+      currentLength = 0;
+    }
+    current.push(label);
+    currentLength += chunk.content.length;
+  });
+  if (current.length > 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Chunks the plan assigned to a lesson. When none of its labels exist (the
+ * model invented or mangled them), fall back to the chunks sharing the most
+ * words with the lesson title and objective.
+ */
+function selectLessonChunks(
+  lesson: CoursePlan['modules'][number]['lessons'][number],
+  citableChunks: Map<string, CitableChunk>
+): string[] {
+  const planned = Array.from(new Set(
+    (lesson.chunkLabels ?? [])
+      .map(label => label.replace(/[\[\]\s]/g, '').toUpperCase())
+      .filter(label => citableChunks.has(label))
+  ));
+  if (planned.length > 0) {
+    return planned.slice(0, MAX_LESSON_CHUNKS);
+  }
+
+  const best = findRelevantChunks(`${lesson.title} ${lesson.objective}`, citableChunks, MAX_LESSON_CHUNKS / 2);
+  if (best.length === 0) {
+    throw new Error(`No source chunks match the planned lesson "${lesson.title}"`);
+  }
+  return best;
+}
+
+// Labels of the chunks sharing the most significant words with `query`, best first
+export function findRelevantChunks(query: string, citableChunks: Map<string, CitableChunk>, limit: number): string[] {
+  const queryWords = significantWords(query);
+  const scored: { label: string; score: number }[] = [];
+  citableChunks.forEach(({ chunk }, label) => {
+    const chunkWords = significantWords(`${chunk.sectionTitle ?? ''} ${chunk.content}`);
+    let overlap = 0;
+    queryWords.forEach(word => {
+      if (chunkWords.has(word)) overlap++;
+    });
+    if (overlap > 0) scored.push({ label, score: overlap });
+  });
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit).map(entry => entry.label);
+}
+
+// Render chunks in label order, with the document headers the single-prompt path uses
+export function formatLabelledChunks(labels: string[], citableChunks: Map<string, CitableChunk>): string {
+  const documentNumbers = new Map<string, number>();
+  citableChunks.forEach(({ chunk }) => {
+    if (!documentNumbers.has(chunk.documentId)) {
+      documentNumbers.set(chunk.documentId, documentNumbers.size + 1);
+    }
+  });
+
+  const ordered = labels
+    .map(label => ({ label, citable: citableChunks.get(label)! }))
+    .sort((a, b) => parseInt(a.label.slice(1), 10) - parseInt(b.label.slice(1), 10));
+
+  const parts: string[] = [];
+  let currentDocumentId: string | null = null;
+  for (const { label, citable } of ordered) {
+    if (citable.chunk.documentId !== currentDocumentId) {
+      currentDocumentId = citable.chunk.documentId;
+      parts.push(`=== Document ${documentNumbers.get(currentDocumentId)}: ${citable.documentName} ===`);
+    }
+    parts.push(formatChunksForPrompt([citable.chunk], () => label));
+  }
+  return parts.join('\n\n');
+}
+
+function significantWords(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
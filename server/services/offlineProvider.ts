@@ -0,0 +1,833 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_QUIZ_QUESTION_TYPES,
+  type CourseTemplate,
+  type DocumentAnalysis,
+  type GeneratedObjective,
+  type LearningObjective,
+  type QuizQuestionType,
+  type ShortAnswerGrade,
+} from '@shared/schema';
+import type {
+  AIGenerationOptions,
+  ClaimCheck,
+  ClaimVerdict,
+  CoursePlan,
+  CourseStructure,
+  GeneratedFlashcard,
+  GeneratedQuiz,
+  GeneratedQuizQuestion,
+  GlossaryEntry,
+  LessonBrief,
+  LLMProvider,
+  SectionOutline,
+  TemplateCourseStructure,
+  TemplateCustomization,
+  TemplateGenerationRequest,
+  TutorQuestion,
+  WrittenLesson,
+} from './llmProvider';
+
+interface SourceChunk {
+  label: string | null;
+  documentName: string | null;
+  sectionTitle: string | null;
+  text: string;
+}
+
+// Matches the chunk headers written by formatChunksForPrompt, e.g. [C3] (page 2, section "Pricing")
+const CHUNK_HEADER_PATTERN = /^\[(C\d+)\](?: \((.*)\))?$/;
+const DOCUMENT_HEADER_PATTERN = /^=== Document \d+: (.+) ===$/;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'again', 'their', 'there', 'these', 'those', 'which', 'while', 'where', 'would',
+  'should', 'could', 'being', 'because', 'before', 'between', 'through', 'during', 'other', 'within',
+  'without', 'another', 'however', 'therefore', 'whether', 'that', 'this', 'with', 'from', 'have', 'they',
+  'what', 'when', 'then', 'than', 'them', 'also', 'each', 'into', 'more', 'most', 'some', 'such', 'will',
+  'your', 'were', 'been', 'does', 'only', 'very', 'many', 'much', 'make', 'used', 'uses',
+]);
+
+const WORDS_PER_MINUTE = 150;
+
+// Sentences that define their subject, e.g. "Amortization is the gradual repayment of a loan."
+const DEFINITION_PATTERN = /^(?:(?:The|A|An) )?([A-Za-z][\w-]*(?: [\w-]+){0,3}?) (?:is|are|refers to|means) /;
+const NON_TERMS = new Set(['it', 'this', 'that', 'these', 'those', 'there', 'they', 'he', 'she', 'we', 'you', 'what', 'which']);
+const MAX_GLOSSARY_TERMS = 25;
+// Key terms of a short-answer rubric the learner's answer is checked for
+const MAX_RUBRIC_TERMS = 8;
+// Consecutive sentences a multi-select, matching or ordering question is built from
+const GROUP_WINDOW = 4;
+// Share of a claim's words its best passage has to contain for the claim to count as supported, or partly supported
+const SUPPORTED_COVERAGE = 0.7;
+const PARTIAL_COVERAGE = 0.4;
+// Source sentences quoted in a tutor answer
+const MAX_TUTOR_SENTENCES = 3;
+
+/**
+ * Deterministic, network-free provider for development, CI and demos. Output
+ * is derived from the input text (headings become titles, source sentences
+ * become lessons and questions, chunk labels are cited), so the same input
+ * always produces the same course. When a fixtures directory is configured,
+ * a file named after the method (e.g. generateCourseStructure.json) is
+ * returned verbatim instead.
+ */
+export class OfflineProvider implements LLMProvider {
+  readonly name = 'offline';
+
+  constructor(private fixturesDir?: string) {}
+
+  async analyzeDocument(content: string, fileName: string): Promise<DocumentAnalysis> {
+    const fixture = this.loadFixture<DocumentAnalysis>('analyzeDocument');
+    if (fixture !== undefined) return fixture;
+
+    const chunks = parseSourceChunks(content);
+    const text = chunks.map(chunk => chunk.text).join('\n\n');
+    const sentences = splitSentences(text);
+    const wordCount = countWords(text);
+    const averageSentenceLength = sentences.length > 0 ? Math.round(wordCount / sentences.length) : 0;
+    const topics = uniqueValues(chunks.map(chunk => chunk.sectionTitle)).slice(0, 8);
+    const keywords = topKeywords(text, 10);
+    const mainTopics = topics.length > 0 ? topics : keywords.slice(0, 5);
+    const level = averageSentenceLength > 24 ? 'advanced' : averageSentenceLength > 16 ? 'intermediate' : 'beginner';
+    const topicList = mainTopics.length > 0 ? mainTopics : [fileName];
+
+    return {
+      summary: sentences.slice(0, 2).join(' ') || `The material in ${fileName}.`,
+      topics: topicList,
+      learningObjectives: topicList.slice(0, 5).map(topic => `Explain ${topic} as presented in the source`),
+      complexity: {
+        level,
+        rationale: `${wordCount} words, ${sentences.length} sentences, about ${averageSentenceLength} words per sentence`,
+      },
+      keyConcepts: keywords.map(keyword => ({
+        term: keyword,
+        explanation: sentences.find(sentence => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(sentence)) || '',
+      })),
+      suggestedOutline: splitEvenly(topicList, Math.min(5, topicList.length)).map(group => ({
+        title: group[0],
+        topics: group,
+      })),
+    };
+  }
+
+  async generateCourseStructure(
+    documentContent: string,
+    fileName: string,
+    options: AIGenerationOptions = {},
+    analysis?: DocumentAnalysis
+  ): Promise<CourseStructure> {
+    const fixture = this.loadFixture<CourseStructure>('generateCourseStructure');
+    if (fixture !== undefined) return fixture;
+
+    const chunks = parseSourceChunks(documentContent).filter(chunk => splitSentences(chunk.text).length > 0);
+    if (chunks.length === 0) {
+      throw new Error('Failed to generate course structure: the source content has no usable text');
+    }
+
+    const moduleCount = Math.max(1, Math.min(options.moduleCount || 3, chunks.length));
+    const moduleGroups = splitEvenly(chunks, moduleCount);
+    const usedTitles = new Set<string>();
+    const quizzesFor = options.generateQuizzes && options.questionsPerQuiz ? options.quizFrequency : undefined;
+    const questionTypes = options.questionTypes?.length ? options.questionTypes : DEFAULT_QUIZ_QUESTION_TYPES;
+    // Without a requested level the course matches the level the analysis found in the material
+    const difficulty = options.difficultyLevel || analysis?.complexity.level || 'intermediate';
+
+    const modules = moduleGroups.map((group, moduleIndex) => {
+      const moduleTitle = titleForChunks(group, `Part ${moduleIndex + 1}`, usedTitles);
+      const lessonGroups = splitEvenly(group, Math.min(3, group.length));
+
+      const lessons = lessonGroups.map((lessonChunks, lessonIndex) => {
+        const lessonTitle = titleForChunks(lessonChunks, `${moduleTitle} ${lessonIndex + 1}`, usedTitles);
+        const content = buildLessonHtml(lessonTitle, lessonChunks, options);
+        const lesson: CourseStructure['modules'][number]['lessons'][number] = {
+          title: lessonTitle,
+          content,
+          estimatedDuration: estimateMinutes(content),
+          objectives: lessonObjectives(lessonTitle, lessonChunks),
+        };
+        if (quizzesFor === 'lesson') {
+          lesson.quiz = buildQuiz(`${lessonTitle} - Quiz`, lessonChunks, options.questionsPerQuiz!, questionTypes);
+        }
+        return lesson;
+      });
+
+      const module: CourseStructure['modules'][number] = {
+        title: moduleTitle,
+        description: firstSentence(group[0].text),
+        estimatedDuration: lessons.reduce((sum, lesson) => sum + lesson.estimatedDuration, 0),
+        objectives: moduleObjectives(moduleTitle),
+        lessons,
+      };
+      if (quizzesFor === 'module') {
+        module.quiz = buildQuiz(`${moduleTitle} - Module Quiz`, group, options.questionsPerQuiz!, questionTypes);
+      }
+      return module;
+    });
+
+    const courseTitle = chunks.find(chunk => chunk.sectionTitle)?.sectionTitle
+      || fileName.split(',')[0].replace(/\.[a-z0-9]+$/i, '').trim();
+
+    return {
+      title: courseTitle,
+      description: firstSentence(chunks[0].text),
+      estimatedDuration: modules.reduce((sum, module) => sum + module.estimatedDuration, 0),
+      difficultyLevel: difficulty === 'expert' ? 'advanced' : difficulty,
+      modules,
+    };
+  }
+
+  async outlineSection(sectionContent: string, _sourceName: string): Promise<SectionOutline> {
+    const fixture = this.loadFixture<SectionOutline>('outlineSection');
+    if (fixture !== undefined) return fixture;
+
+    const chunks = parseSourceChunks(sectionContent).filter(chunk => chunk.label && splitSentences(chunk.text).length > 0);
+    const topics: SectionOutline['topics'] = [];
+    for (const chunk of chunks) {
+      const title = chunk.sectionTitle || firstSentence(chunk.text).split(/\s+/).slice(0, 6).join(' ');
+      const previous = topics[topics.length - 1];
+      // Consecutive chunks under the same heading form one topic
+      if (previous && chunk.sectionTitle && previous.title === title) {
+        previous.keyPoints.push(firstSentence(chunk.text));
+        previous.chunkLabels.push(chunk.label!);
+      } else {
+        topics.push({ title, keyPoints: [firstSentence(chunk.text)], chunkLabels: [chunk.label!] });
+      }
+    }
+
+    return {
+      summary: chunks.slice(0, 3).map(chunk => firstSentence(chunk.text)).join(' '),
+      topics,
+    };
+  }
+
+  async planCourse(
+    outlines: SectionOutline[],
+    sourceName: string,
+    options: AIGenerationOptions = {},
+    analysis?: DocumentAnalysis
+  ): Promise<CoursePlan> {
+    const fixture = this.loadFixture<CoursePlan>('planCourse');
+    if (fixture !== undefined) return fixture;
+
+    // A heading that straddles a section boundary shows up at the end of one outline and the start of the next
+    const topics: SectionOutline['topics'] = [];
+    for (const topic of outlines.flatMap(outline => outline.topics)) {
+      const previous = topics[topics.length - 1];
+      if (previous && previous.title === topic.title) {
+        previous.keyPoints.push(...topic.keyPoints);
+        previous.chunkLabels.push(...topic.chunkLabels);
+      } else if (topic.chunkLabels.length > 0) {
+        topics.push({ title: topic.title, keyPoints: [...topic.keyPoints], chunkLabels: [...topic.chunkLabels] });
+      }
+    }
+    if (topics.length === 0) {
+      throw new Error('Failed to plan course: the section outlines have no topics');
+    }
+
+    const moduleTitles = new Set<string>();
+    const lessonTitles = new Set<string>();
+    const difficulty = options.difficultyLevel || analysis?.complexity.level || 'intermediate';
+    const moduleGroups = splitEvenly(topics, Math.max(1, Math.min(options.moduleCount || 3, topics.length)));
+
+    return {
+      title: topics[0].title || sourceName.split(',')[0].replace(/\.[a-z0-9]+$/i, '').trim(),
+      description: outlines[0]?.summary || topics[0].keyPoints[0] || '',
+      difficultyLevel: difficulty === 'expert' ? 'advanced' : difficulty,
+      modules: moduleGroups.map(group => ({
+        title: uniqueTitle(group[0].title, moduleTitles),
+        description: group[0].keyPoints[0] || '',
+        objectives: moduleObjectives(group[0].title),
+        lessons: splitEvenly(group, Math.min(3, group.length)).map(lessonTopics => {
+          const title = uniqueTitle(lessonTopics[0].title, lessonTitles);
+          const chunkLabels = lessonTopics.flatMap(topic => topic.chunkLabels);
+          return {
+            title,
+            objective: `Explain ${title} as presented in the source`,
+            estimatedDuration: Math.max(5, chunkLabels.length * 2),
+            chunkLabels,
+          };
+        }),
+      })),
+    };
+  }
+
+  async writeLesson(brief: LessonBrief, sourceContent: string, options: AIGenerationOptions = {}): Promise<WrittenLesson> {
+    const fixture = this.loadFixture<WrittenLesson>('writeLesson');
+    if (fixture !== undefined) return fixture;
+
+    const chunks = parseSourceChunks(sourceContent).filter(chunk => splitSentences(chunk.text).length > 0);
+    if (chunks.length === 0) {
+      throw new Error(`Failed to write lesson "${brief.title}": no source chunks were provided`);
+    }
+    const content = buildLessonHtml(brief.title, chunks, options);
+    return { content, estimatedDuration: estimateMinutes(content), objectives: lessonObjectives(brief.title, chunks) };
+  }
+
+  async extractGlossary(sourceContent: string, _sourceName: string): Promise<GlossaryEntry[]> {
+    const fixture = this.loadFixture<GlossaryEntry[]>('extractGlossary');
+    if (fixture !== undefined) return fixture;
+
+    const entries: GlossaryEntry[] = [];
+    const seen = new Set<string>();
+    for (const chunk of parseSourceChunks(sourceContent)) {
+      if (!chunk.label) continue;
+      for (const sentence of splitSentences(chunk.text)) {
+        const term = sentence.match(DEFINITION_PATTERN)?.[1];
+        if (!term || NON_TERMS.has(term.toLowerCase()) || seen.has(term.toLowerCase())) continue;
+        seen.add(term.toLowerCase());
+        entries.push({ term, definition: sentence, chunkLabel: chunk.label });
+      }
+    }
+    return entries.slice(0, MAX_GLOSSARY_TERMS);
+  }
+
+  async generateQuizQuestions(
+    content: string,
+    count: number,
+    _difficultyLevel: string,
+    _instructions?: string,
+    objectives: LearningObjective[] = [],
+    requestedTypes: QuizQuestionType[] = []
+  ): Promise<GeneratedQuizQuestion[]> {
+    const fixture = this.loadFixture<GeneratedQuizQuestion[]>('generateQuizQuestions');
+    if (fixture !== undefined) return fixture;
+    const questionTypes = requestedTypes.length > 0 ? requestedTypes : DEFAULT_QUIZ_QUESTION_TYPES;
+
+    // Objectives are assessed in turn so each gets its share of the questions
+    return buildQuestions(stripHtml(content), count, questionTypes).map((question, index) =>
+      objectives.length > 0 ? { ...question, objectiveId: objectives[index % objectives.length].id } : question
+    );
+  }
+
+  // Definitional sentences become "What is X?" cards, other sentences cloze cards on their key term
+  async generateFlashcards(content: string, count: number): Promise<GeneratedFlashcard[]> {
+    const fixture = this.loadFixture<GeneratedFlashcard[]>('generateFlashcards');
+    if (fixture !== undefined) return fixture;
+
+    // Headings would run into the first sentence after them once the HTML is stripped
+    return buildFlashcards(stripHtml(content.replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, ' ')), count);
+  }
+
+  // A claim is as well supported as the share of its words found in its best passage
+  async verifyClaims(claims: ClaimCheck[]): Promise<ClaimVerdict[]> {
+    const fixture = this.loadFixture<ClaimVerdict[]>('verifyClaims');
+    if (fixture !== undefined) return fixture;
+
+    return claims.map(({ claim, passages }) => {
+      const words = Array.from(new Set(contentWords(claim)));
+      if (words.length === 0) return { verdict: 'supported' };
+      const coverage = Math.max(0, ...passages.map(passage => {
+        const passageWords = new Set(contentWords(passage));
+        return words.filter(word => passageWords.has(word)).length / words.length;
+      }));
+      if (coverage >= SUPPORTED_COVERAGE) return { verdict: 'supported' };
+      const missing = passages.length === 0 ? words : words.filter(word => !passages.some(passage => contentWords(passage).includes(word)));
+      const note = `The sources don't mention ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? ' and more' : ''}.`;
+      return { verdict: coverage >= PARTIAL_COVERAGE ? 'partial' : 'unsupported', note };
+    });
+  }
+
+  // Quotes the sentences of the course material sharing the most words with the question, each citing its chunk
+  async answerTutorQuestion(request: TutorQuestion): Promise<string> {
+    const fixture = this.loadFixture<string>('answerTutorQuestion');
+    if (fixture !== undefined) return fixture;
+
+    const questionWords = new Set(contentWords(request.question));
+    const chunks = [
+      ...parseSourceChunks(request.sourceContent),
+      { label: null, text: stripHtml(request.lessonContent.replace(/<h[1-6][^>]*>[\s\S]*?<\/h[1-6]>/gi, ' ')) },
+    ];
+    const best = chunks
+      .flatMap(chunk => splitSentences(chunk.text).map(sentence => ({
+        sentence,
+        label: chunk.label,
+        score: contentWords(sentence).filter(word => questionWords.has(word)).length,
+      })))
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_TUTOR_SENTENCES);
+
+    if (best.length === 0) {
+      return `The materials of ${request.courseTitle} don't cover that. Try asking about a topic of one of its lessons.`;
+    }
+    return `Here is what the course materials say:\n\n${best.map(({ sentence, label }) => (label ? `${sentence} [${label}]` : sentence)).join(' ')}`;
+  }
+
+  // No embedding model offline: similarity checks fall back to TF-IDF
+  async embedTexts(_texts: string[]): Promise<number[][] | null> {
+    const fixture = this.loadFixture<number[][]>('embedTexts');
+    return fixture ?? null;
+  }
+
+  // Credit is the share of the rubric's key terms the answer uses
+  async gradeShortAnswer(_question: string, rubric: string, answer: string, modelAnswer?: string): Promise<ShortAnswerGrade> {
+    const fixture = this.loadFixture<ShortAnswerGrade>('gradeShortAnswer');
+    if (fixture !== undefined) return fixture;
+
+    const keyTerms = topKeywords(`${rubric} ${modelAnswer ?? ''}`, MAX_RUBRIC_TERMS);
+    if (keyTerms.length === 0) {
+      return { score: 0, explanation: 'The rubric has no key terms to check the answer against.' };
+    }
+    const answerWords = new Set(answer.toLowerCase().match(/[a-z][a-z-]+/g) || []);
+    const used = keyTerms.filter(term => answerWords.has(term));
+    const missed = keyTerms.filter(term => !answerWords.has(term));
+    return {
+      score: Math.round((used.length / keyTerms.length) * 100) / 100,
+      explanation: missed.length === 0
+        ? `The answer covers every key point of the rubric: ${used.join(', ')}.`
+        : `The answer ${used.length > 0 ? `covers ${used.join(', ')} but` : ''} misses ${missed.join(', ')}.`.replace(/ {2,}/g, ' '),
+    };
+  }
+
+  /**
+   * Rule-based revision: "shorter"/"concise" keeps the first half of the
+   * lesson, "example" adds a cited example box, anything else adds a cited
+   * paragraph from the most relevant uncited chunk. Key Takeaways are added
+   * when missing.
+   */
+  async enhanceContent(content: string, context: string, sourceContent = ''): Promise<string> {
+    const fixture = this.loadFixture<string>('enhanceContent');
+    if (fixture !== undefined) return fixture;
+
+    const wants = (pattern: RegExp) => pattern.test(context);
+    const chunks = parseSourceChunks(sourceContent).filter(chunk => chunk.label && splitSentences(chunk.text).length > 0);
+    const cited = new Set(content.match(/C\d+/g) || []);
+    let revised = content;
+
+    if (wants(/\b(shorter|concise|brief|condense)/i)) {
+      const blocks = content.match(/<(h[1-6]|p|ul|ol|div)\b[^>]*>[\s\S]*?<\/\1>/gi) || [];
+      if (blocks.length > 2) {
+        revised = blocks.slice(0, Math.ceil(blocks.length / 2)).join('\n');
+      }
+    } else if (wants(/\bexamples?\b/i) && chunks.length > 0) {
+      const example = chunks
+        .flatMap(chunk => splitSentences(chunk.text).map(sentence => ({ sentence, chunk })))
+        .find(({ sentence }) => /\b(for example|for instance|such as|e\.g\.)/i.test(sentence))
+        ?? { sentence: firstSentence(chunks[0].text), chunk: chunks[0] };
+      revised += `\n<div class="bg-green-50 border-l-4 border-green-500 p-4 my-4 rounded"><h4>Real-World Example</h4><p>${escapeHtml(example.sentence)} [${example.chunk.label}]</p></div>`;
+    } else if (chunks.length > 0) {
+      const chunk = chunks.find(candidate => !cited.has(candidate.label!)) ?? chunks[0];
+      revised += `\n<h3>${escapeHtml(chunk.sectionTitle || 'Further Detail')}</h3>\n<p>${escapeHtml(splitSentences(chunk.text).slice(0, 3).join(' '))} [${chunk.label}]</p>`;
+    }
+
+    const takeaways = splitSentences(stripHtml(revised)).slice(0, 3);
+    if (takeaways.length > 0 && !/Key Takeaways/i.test(revised)) {
+      revised += `\n<h3>Key Takeaways</h3>\n<ul>\n${takeaways.map(sentence => `  <li>${escapeHtml(sentence)}</li>`).join('\n')}\n</ul>`;
+    }
+    return revised;
+  }
+
+  async generateCourseFromTemplate(
+    template: CourseTemplate,
+    customization: TemplateCustomization = {}
+  ): Promise<TemplateCourseStructure> {
+    const fixture = this.loadFixture<TemplateCourseStructure>('generateCourseFromTemplate');
+    if (fixture !== undefined) return fixture;
+
+    const outline = (template.structure as { modules?: { title?: string }[] } | null)?.modules;
+    const moduleTitles = Array.isArray(outline) && outline.some(module => module.title)
+      ? outline.map((module, index) => module.title || `${template.name} ${index + 1}`)
+      : defaultModuleTitles(template.name, 3);
+
+    return buildTemplateOutline(moduleTitles, {
+      subject: customization.title || template.name,
+      description: template.description,
+      audience: customization.targetAudience || 'General learners',
+      difficulty: customization.difficultyLevel || template.difficultyLevel || 'beginner',
+    });
+  }
+
+  async createCustomTemplate(request: TemplateGenerationRequest): Promise<TemplateCourseStructure> {
+    const fixture = this.loadFixture<TemplateCourseStructure>('createCustomTemplate');
+    if (fixture !== undefined) return fixture;
+
+    const moduleCount = Math.max(2, Math.min(6, Math.round((request.estimatedDuration || 90) / 45)));
+    return buildTemplateOutline(defaultModuleTitles(request.title, moduleCount), {
+      subject: request.title,
+      description: request.description,
+      audience: request.targetAudience || 'General learners',
+      difficulty: request.difficultyLevel,
+    });
+  }
+
+  private loadFixture<T>(method: string): T | undefined {
+    if (!this.fixturesDir) return undefined;
+    const fixturePath = path.join(this.fixturesDir, `${method}.json`);
+    if (!fs.existsSync(fixturePath)) return undefined;
+    return JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as T;
+  }
+}
+
+/**
+ * Read chunk-labelled prompt content back into chunks. Plain text without
+ * labels is split into paragraphs so the provider also works on raw input.
+ */
+function parseSourceChunks(content: string): SourceChunk[] {
+  const chunks: SourceChunk[] = [];
+  let documentName: string | null = null;
+  let current: SourceChunk | null = null;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    const documentMatch = trimmed.match(DOCUMENT_HEADER_PATTERN);
+    if (documentMatch) {
+      documentName = documentMatch[1];
+      current = null;
+      continue;
+    }
+    const chunkMatch = trimmed.match(CHUNK_HEADER_PATTERN);
+    if (chunkMatch) {
+      const section = chunkMatch[2]?.match(/section "(.*)"/);
+      current = { label: chunkMatch[1], documentName, sectionTitle: section ? section[1] : null, text: '' };
+      chunks.push(current);
+      continue;
+    }
+    if (current) {
+      current.text += `${line}\n`;
+    }
+  }
+
+  if (chunks.length > 0) {
+    return chunks.map(chunk => ({ ...chunk, text: chunk.text.trim() }));
+  }
+
+  let sectionTitle: string | null = null;
+  return content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean).flatMap(paragraph => {
+    const heading = paragraph.match(/^#{1,6}\s+(.+)$/m);
+    if (heading) sectionTitle = heading[1].trim();
+    const text = paragraph.replace(/^#{1,6}\s+.+$/gm, '').trim();
+    return text ? [{ label: null, documentName: null, sectionTitle, text }] : [];
+  });
+}
+
+function buildLessonHtml(title: string, chunks: SourceChunk[], options: AIGenerationOptions): string {
+  const cite = (chunk: SourceChunk) => (chunk.label ? ` [${chunk.label}]` : '');
+  const parts: string[] = [`<h2>${escapeHtml(title)}</h2>`];
+
+  for (const chunk of chunks) {
+    const sentences = splitSentences(chunk.text);
+    if (chunks.length > 1 && chunk.sectionTitle && chunk.sectionTitle !== title) {
+      parts.push(`<h3>${escapeHtml(chunk.sectionTitle)}</h3>`);
+    }
+    parts.push(`<p>${escapeHtml(sentences.slice(0, 4).join(' '))}${cite(chunk)}</p>`);
+    if (sentences.length > 4) {
+      parts.push(`<p>${escapeHtml(sentences.slice(4, 8).join(' '))}${cite(chunk)}</p>`);
+    }
+  }
+
+  if (options.includeExamples) {
+    const example = chunks
+      .flatMap(chunk => splitSentences(chunk.text).map(sentence => ({ sentence, chunk })))
+      .find(({ sentence }) => /\b(for example|for instance|such as|e\.g\.)/i.test(sentence));
+    if (example) {
+      parts.push(`<div class="bg-green-50 border-l-4 border-green-500 p-4 my-4 rounded"><h4>Real-World Example</h4><p>${escapeHtml(example.sentence)}${cite(example.chunk)}</p></div>`);
+    }
+  }
+
+  if (options.includeExercises) {
+    parts.push(`<div class="bg-yellow-50 border-l-4 border-yellow-500 p-4 my-4 rounded"><h4>Practice Exercise</h4><p>In your own words, explain: ${escapeHtml(firstSentence(chunks[0].text))}</p></div>`);
+  }
+
+  parts.push('<h3>Key Takeaways</h3>');
+  parts.push(`<ul>${chunks.map(chunk => `<li>${escapeHtml(firstSentence(chunk.text))}${cite(chunk)}</li>`).join('')}</ul>`);
+
+  return parts.join('\n');
+}
+
+function lessonObjectives(title: string, chunks: SourceChunk[]): GeneratedObjective[] {
+  const term = topKeywords(chunks.map(chunk => chunk.text).join(' '), 1)[0];
+  return [
+    ...(term ? [{ text: `Recall what the source says about ${term}`, bloomLevel: 'remember' as const }] : []),
+    { text: `Explain ${title} as presented in the source`, bloomLevel: 'understand' },
+  ];
+}
+
+function moduleObjectives(title: string): GeneratedObjective[] {
+  return [
+    { text: `Describe the main ideas of ${title}`, bloomLevel: 'understand' },
+    { text: `Apply the concepts of ${title} to the examples in the source`, bloomLevel: 'apply' },
+  ];
+}
+
+function buildQuiz(title: string, chunks: SourceChunk[], count: number, questionTypes: QuizQuestionType[]): GeneratedQuiz {
+  return {
+    title,
+    questions: buildQuestions(chunks.map(chunk => chunk.text).join('\n\n'), count, questionTypes),
+  };
+}
+
+/**
+ * Build up to `count` questions from source sentences, cycling through
+ * `questionTypes`. Single-sentence types blank or swap the sentence's key
+ * term: multiple choice and fill-in-the-blank ask for the term, true/false
+ * statements are alternately kept verbatim (true) or have the term swapped
+ * (false), and short answers are graded on the sentence. Multi-select,
+ * matching and ordering questions use the next few sentences together; when
+ * too few are left the question falls back to true/false.
+ */
+function buildQuestions(text: string, count: number, questionTypes: QuizQuestionType[]): GeneratedQuizQuestion[] {
+  const vocabulary = topKeywords(text, 200);
+  const candidates = splitSentences(text)
+    .filter(sentence => countWords(sentence) >= 6 && sentence.length <= 300)
+    .map(sentence => ({ sentence, term: keyTerm(sentence, vocabulary) }))
+    .filter((candidate): candidate is { sentence: string; term: string } => candidate.term !== null);
+  const blanked = ({ sentence, term }: { sentence: string; term: string }) =>
+    sentence.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i'), '_____');
+  const swapped = ({ sentence, term }: { sentence: string; term: string }, replacement: string) =>
+    sentence.replace(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i'), replacement);
+
+  const questions: GeneratedQuizQuestion[] = [];
+  let index = 0;
+  while (index < candidates.length && questions.length < count) {
+    const candidate = candidates[index];
+    const { sentence, term } = candidate;
+    const distractors = vocabulary.filter(word => word !== term).slice(index % 5, index % 5 + 3);
+    const explanation = `The source states: "${sentence}"`;
+    // Distinct key terms keep matching pairs unambiguous
+    const nearby = candidates.slice(index, index + GROUP_WINDOW);
+    const group = nearby.filter((member, position) => nearby.findIndex(other => other.term === member.term) === position);
+    let type = questionTypes[questions.length % questionTypes.length];
+    if ((type === 'multi_select' || type === 'matching' || type === 'ordering') && group.length < 3) type = 'true_false';
+    if (type === 'multiple_choice' && distractors.length < 3) type = 'true_false';
+
+    switch (type) {
+      case 'multiple_choice':
+        questions.push({
+          question: `Complete the statement: "${blanked(candidate)}"`,
+          type,
+          options: [term, ...distractors].sort(),
+          correctAnswer: term,
+          explanation,
+        });
+        index++;
+        break;
+      case 'fill_blank':
+        questions.push({ question: `Fill in the blank: "${blanked(candidate)}"`, type, acceptedAnswers: [term], explanation });
+        index++;
+        break;
+      case 'short_answer':
+        questions.push({
+          question: `In your own words, what does the source say about ${term}?`,
+          type,
+          rubric: `The answer explains that ${sentence.charAt(0).toLowerCase()}${sentence.slice(1)}`,
+          correctAnswer: sentence,
+          explanation,
+        });
+        index++;
+        break;
+      case 'multi_select': {
+        // Statements with a swapped term are the wrong options
+        const [first, second, third] = group;
+        const options = [first.sentence, swapped(second, third.term), third.sentence, swapped(first, second.term)];
+        questions.push({
+          question: 'Which of these statements does the source make? Select all that apply.',
+          type,
+          options,
+          correctAnswers: [first.sentence, third.sentence],
+          explanation: `The source states: "${first.sentence}" and "${third.sentence}"`,
+        });
+        index += nearby.length;
+        break;
+      }
+      case 'matching':
+        questions.push({
+          question: 'Match each term with the statement of the source it completes.',
+          type,
+          pairs: group.map(member => ({ left: member.term, right: blanked(member) })),
+          explanation: 'Each statement is quoted from the source with its term left out.',
+        });
+        index += nearby.length;
+        break;
+      case 'ordering':
+        questions.push({
+          question: 'Put these statements in the order the source presents them.',
+          type,
+          items: group.map(member => member.sentence),
+          explanation: 'This is the order of the statements in the source.',
+        });
+        index += nearby.length;
+        break;
+      default: {
+        const makeFalse = questions.length % 4 === 3 && distractors.length > 0;
+        questions.push({
+          question: `True or false: ${makeFalse ? swapped(candidate, distractors[0]) : sentence}`,
+          type: 'true_false',
+          options: ['True', 'False'],
+          correctAnswer: makeFalse ? 'False' : 'True',
+          explanation,
+        });
+        index++;
+      }
+    }
+  }
+  return questions;
+}
+
+function buildFlashcards(text: string, count: number): GeneratedFlashcard[] {
+  const vocabulary = topKeywords(text, 200);
+  const cards: GeneratedFlashcard[] = [];
+  const seen = new Set<string>();
+
+  for (const sentence of splitSentences(text)) {
+    if (cards.length >= count) break;
+    if (countWords(sentence) < 6 || sentence.length > 300) continue;
+
+    const defined = sentence.match(DEFINITION_PATTERN)?.[1];
+    if (defined && !NON_TERMS.has(defined.toLowerCase()) && !seen.has(defined.toLowerCase())) {
+      seen.add(defined.toLowerCase());
+      cards.push({ front: `What is ${defined}?`, back: sentence });
+      continue;
+    }
+
+    const term = keyTerm(sentence, vocabulary);
+    if (!term || seen.has(term)) continue;
+    seen.add(term);
+    const termPattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i');
+    cards.push({ front: `Fill in the blank: "${sentence.replace(termPattern, '_____')}"`, back: term });
+  }
+  return cards;
+}
+
+function buildTemplateOutline(
+  moduleTitles: string[],
+  context: { subject: string; description: string; audience: string; difficulty: string }
+): TemplateCourseStructure {
+  const lessonPatterns = [
+    (topic: string) => `Introduction to ${topic}`,
+    (topic: string) => `Key Concepts in ${topic}`,
+    (topic: string) => `${topic} in Practice`,
+  ];
+
+  return {
+    modules: moduleTitles.map((moduleTitle, moduleIndex) => {
+      const lessons = lessonPatterns.map((pattern, lessonIndex) => {
+        const title = pattern(moduleTitle);
+        return {
+          title,
+          content: [
+            `<h2>${escapeHtml(title)}</h2>`,
+            `<p>This lesson is part of ${escapeHtml(context.subject)}: ${escapeHtml(context.description)}</p>`,
+            `<p>It is written for ${escapeHtml(context.audience)} at the ${escapeHtml(context.difficulty)} level.</p>`,
+            '<h3>Learning Objectives</h3>',
+            `<ul><li>Describe the main ideas of ${escapeHtml(moduleTitle)}</li><li>Apply them to a realistic scenario</li></ul>`,
+          ].join('\n'),
+          orderIndex: lessonIndex + 1,
+          estimatedDuration: 10 + lessonIndex * 5,
+        };
+      });
+      return {
+        title: moduleTitle,
+        description: `${moduleTitle} for ${context.audience}`,
+        orderIndex: moduleIndex + 1,
+        estimatedDuration: lessons.reduce((sum, lesson) => sum + lesson.estimatedDuration, 0),
+        lessons,
+      };
+    }),
+  };
+}
+
+function defaultModuleTitles(subject: string, count: number): string[] {
+  const patterns = [
+    `Foundations of ${subject}`,
+    `Core ${subject} Techniques`,
+    `Applying ${subject}`,
+    `${subject} Case Studies`,
+    `Advanced ${subject}`,
+    `Mastering ${subject}`,
+  ];
+  return patterns.slice(0, count);
+}
+
+// Prefer an unused section heading, then the opening words of the text, so modules and lessons do not share titles
+function titleForChunks(chunks: SourceChunk[], fallback: string, used: Set<string>): string {
+  const section = chunks
+    .map(chunk => chunk.sectionTitle)
+    .find((title): title is string => Boolean(title) && !used.has(title!.toLowerCase()));
+  const words = firstSentence(chunks[0].text).replace(/[.!?]+$/, '').split(/\s+/).slice(0, 6);
+  return uniqueTitle(section || (words.length >= 2 ? words.join(' ') : fallback), used);
+}
+
+function uniqueTitle(title: string, used: Set<string>): string {
+  let candidate = title;
+  for (let part = 2; used.has(candidate.toLowerCase()); part++) {
+    candidate = `${title} (Part ${part})`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function splitEvenly<T>(items: T[], groups: number): T[][] {
+  const result: T[][] = [];
+  for (let index = 0; index < groups; index++) {
+    const start = Math.floor((index * items.length) / groups);
+    const end = Math.floor(((index + 1) * items.length) / groups);
+    if (end > start) result.push(items.slice(start, end));
+  }
+  return result;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*(?:[-*•]|\d+\.)\s+/gm, '')
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"“])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length >= 20);
+}
+
+function firstSentence(text: string): string {
+  return splitSentences(text)[0] || text.trim().slice(0, 200);
+}
+
+function keyTerm(sentence: string, vocabulary: string[]): string | null {
+  const words = sentence.toLowerCase().match(/[a-z][a-z-]+/g) || [];
+  const inVocabulary = words.filter(word => vocabulary.includes(word));
+  if (inVocabulary.length === 0) return null;
+  return inVocabulary.reduce((longest, word) => (word.length > longest.length ? word : longest));
+}
+
+// Most frequent significant words, ties broken by first appearance
+function topKeywords(text: string, limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z-]+/g) || []) {
+    if (word.length < 6 || STOP_WORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([word]) => word);
+}
+
+// Words of four letters or more that aren't stop words, without plural endings
+function contentWords(text: string): string[] {
+  return (stripHtml(text).toLowerCase().match(/[a-z][a-z-]+/g) || [])
+    .filter(word => word.length > 3 && !STOP_WORDS.has(word))
+    .map(word => (word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+function uniqueValues(values: (string | null)[]): string[] {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function estimateMinutes(html: string): number {
+  return Math.max(5, Math.round(countWords(stripHtml(html)) / WORDS_PER_MINUTE));
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\[C?\d+\]/g, '').replace(/&[a-z]+;/gi, ' ');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,126 @@
+import { storage } from '../storage';
+import { correctOption } from '@shared/quizGrading';
+import { QUESTION_DIFFICULTIES } from '@shared/schema';
+import type { QuestionBankItem, QuestionDifficulty, Quiz, QuizBankDraw, QuizQuestion } from '@shared/schema';
+
+export type Random = () => number;
+
+// A bank-drawn attempt: the seed it was drawn with and its questions in the order served
+export interface DrawnAttempt {
+  seed: number;
+  questions: QuizQuestion[];
+}
+
+// mulberry32: the same seed always yields the same sequence, so a draw can be repeated when grading
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a, kept to 31 bits so the seed fits an integer column
+function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) & 0x7fffffff;
+}
+
+export function shuffle<T>(items: T[], random: Random = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Options are graded by their text, so shuffling them keeps the answer; legacy index answers become text first
+function withShuffledOptions(question: QuizQuestion, random: Random): QuizQuestion {
+  switch (question.type) {
+    case 'multiple_choice':
+      return { ...question, correctAnswer: correctOption(question), options: shuffle(question.options ?? [], random) };
+    case 'multi_select':
+      return { ...question, options: shuffle(question.options ?? [], random) };
+    default:
+      return question;
+  }
+}
+
+/**
+ * Draw an attempt's questions from a bank following the quiz's rules. Each
+ * lesson first gets its minimum, then the difficulty counts are filled, then
+ * any remaining places go to questions of difficulties without a count. The
+ * rules are met as far as the bank allows: a bank short of hard questions
+ * yields fewer of them rather than no attempt at all.
+ */
+export function drawQuestions(items: QuestionBankItem[], draw: QuizBankDraw, random: Random): QuizQuestion[] {
+  const pool = shuffle(items, random);
+  const chosen: QuestionBankItem[] = [];
+  const quotas: Partial<Record<QuestionDifficulty, number>> = { ...draw.difficultyCounts };
+  const hasRoom = () => chosen.length < draw.questionCount;
+  const take = (item: QuestionBankItem) => {
+    chosen.push(item);
+    pool.splice(pool.indexOf(item), 1);
+    if (quotas[item.difficulty]) quotas[item.difficulty]! -= 1;
+  };
+  // Questions that still fit a difficulty count come first, then those of difficulties without one
+  const preferred = (candidates: QuestionBankItem[]) =>
+    candidates.find(item => (quotas[item.difficulty] ?? 0) > 0)
+    ?? candidates.find(item => draw.difficultyCounts?.[item.difficulty] === undefined)
+    ?? candidates[0];
+
+  // Lessons take turns so each gets one question before any gets a second
+  const lessonIds = Array.from(new Set(pool.map(item => item.lessonId).filter((id): id is string => !!id)));
+  for (let round = 0; round < (draw.minPerLesson ?? 0); round++) {
+    for (const lessonId of lessonIds) {
+      const pick = hasRoom() ? preferred(pool.filter(item => item.lessonId === lessonId)) : undefined;
+      if (pick) take(pick);
+    }
+  }
+
+  for (const difficulty of QUESTION_DIFFICULTIES) {
+    while (hasRoom() && (quotas[difficulty] ?? 0) > 0) {
+      const pick = pool.find(item => item.difficulty === difficulty);
+      if (!pick) break;
+      take(pick);
+    }
+  }
+
+  while (hasRoom() && pool.length > 0) {
+    take(preferred(pool));
+  }
+
+  return shuffle(chosen, random).map(item => withShuffledOptions(item.question, random));
+}
+
+/**
+ * The questions of a learner's attempt at a bank-drawn quiz. The seed comes
+ * from the quiz, the learner, the attempt number, the draw rules and the bank
+ * itself, so reopening the quiz shows the same draw while the next attempt,
+ * or an edited bank, draws afresh. Fixed quizzes and empty banks return null:
+ * the quiz's own questions are used instead.
+ */
+export async function drawAttempt(quiz: Quiz, learnerId: string, attemptNumber: number): Promise<DrawnAttempt | null> {
+  if (!quiz.bankDraw || !quiz.moduleId) return null;
+  const bank = await storage.getModuleQuestionBank(quiz.moduleId);
+  // A lesson quiz draws from its lesson's questions only
+  const items = quiz.lessonId ? bank.filter(item => item.lessonId === quiz.lessonId) : bank;
+  if (items.length === 0) return null;
+
+  const seed = hashSeed([
+    quiz.id,
+    learnerId,
+    attemptNumber,
+    JSON.stringify(quiz.bankDraw),
+    ...items.map(item => `${item.id}@${item.updatedAt?.getTime() ?? 0}`),
+  ].join(':'));
+  return { seed, questions: drawQuestions(items, quiz.bankDraw, seededRandom(seed)) };
+}
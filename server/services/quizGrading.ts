@@ -0,0 +1,174 @@
+import { storage } from '../storage';
+import { llmProvider } from './llmProvider';
+import { drawAttempt, seededRandom, shuffle, type Random } from './quizAssembly';
+import { gradeAnswer, quizScore } from '@shared/quizGrading';
+import type {
+  LearnerQuiz,
+  LearnerQuizAttempt,
+  LearnerQuizQuestion,
+  QuestionResult,
+  Quiz,
+  QuizAnswer,
+  QuizAttempt,
+  QuizAttemptResult,
+  QuizQuestion,
+  ShortAnswerGrade,
+} from '@shared/schema';
+
+// Thrown when a learner submits a quiz they have no attempts left on
+export class QuizAttemptLimitError extends Error {
+  constructor(readonly maxAttempts: number) {
+    super(`You have used all ${maxAttempts} attempts at this quiz`);
+    this.name = 'QuizAttemptLimitError';
+  }
+}
+
+// Thrown when a bank-drawn attempt is submitted after the draw changed, e.g. the bank was edited meanwhile
+export class QuizAttemptChangedError extends Error {
+  constructor() {
+    super('The quiz changed since you opened it. Reload it to get the current questions.');
+    this.name = 'QuizAttemptChangedError';
+  }
+}
+
+// Ordering items are never served already in their correct order
+function scrambled(items: string[], random: Random): string[] {
+  const shuffled = shuffle(items, random);
+  return items.length > 1 && shuffled.every((item, index) => item === items[index])
+    ? [...shuffled.slice(1), shuffled[0]]
+    : shuffled;
+}
+
+// A question without anything that gives its answer away
+export function toLearnerQuestion(question: QuizQuestion, random: Random = Math.random): LearnerQuizQuestion {
+  const learnerQuestion: LearnerQuizQuestion = { question: question.question, type: question.type };
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'multi_select':
+      learnerQuestion.options = question.options ?? [];
+      break;
+    case 'matching':
+      learnerQuestion.prompts = (question.pairs ?? []).map(pair => pair.left);
+      learnerQuestion.choices = shuffle((question.pairs ?? []).map(pair => pair.right), random);
+      break;
+    case 'ordering':
+      learnerQuestion.items = scrambled(question.items ?? [], random);
+      break;
+  }
+  return learnerQuestion;
+}
+
+export function toLearnerQuiz(quiz: Quiz): LearnerQuiz {
+  return { ...quiz, questions: quiz.questions.map(question => toLearnerQuestion(question)) };
+}
+
+export function toLearnerAttempt({ questions, ...attempt }: QuizAttempt): LearnerQuizAttempt {
+  return attempt;
+}
+
+// The quiz as the learner's next attempt shows it: a draw from the module's bank, or the fixed questions
+export async function prepareAttempt(quiz: Quiz, learnerId: string): Promise<LearnerQuiz> {
+  const previous = await storage.getUserQuizAttempts(learnerId, quiz.id);
+  const drawn = await drawAttempt(quiz, learnerId, previous.length + 1);
+  if (!drawn) return toLearnerQuiz(quiz);
+
+  // Seeded as well, so reopening the attempt shows matching and ordering items the same way
+  const random = seededRandom(drawn.seed);
+  return { ...quiz, questions: drawn.questions.map(question => toLearnerQuestion(question, random)), seed: drawn.seed };
+}
+
+// Attempts a learner gets at a quiz; null when unlimited
+export function allowedAttempts(quiz: Quiz): number | null {
+  return quiz.maxAttempts && quiz.maxAttempts > 0 ? quiz.maxAttempts : null;
+}
+
+/**
+ * Grade a learner's short answer against the question's rubric. Questions
+ * written before rubrics existed are graded against their model answer; a
+ * blank answer earns nothing without a model call.
+ */
+async function gradeShortAnswer(question: QuizQuestion, answer: string): Promise<ShortAnswerGrade> {
+  if (!answer.trim()) {
+    return { score: 0, explanation: 'No answer was given.' };
+  }
+  const rubric = question.rubric || `The answer matches: ${question.correctAnswer ?? ''}`;
+  const grade = await llmProvider.gradeShortAnswer(question.question, rubric, answer.trim(), question.correctAnswer);
+  return { score: Math.min(1, Math.max(0, grade.score)), explanation: grade.explanation };
+}
+
+// Grade every question of a quiz; short answers are scored by the model, one at a time
+async function gradeQuestions(questions: QuizQuestion[], answers: Record<string, QuizAnswer>): Promise<QuestionResult[]> {
+  const results: QuestionResult[] = [];
+  for (let index = 0; index < questions.length; index++) {
+    const question = questions[index];
+    const answer = answers[index];
+    if (question.type === 'short_answer') {
+      const grade = await gradeShortAnswer(question, typeof answer === 'string' ? answer : '');
+      results.push({ credit: grade.score, correct: grade.score === 1, feedback: grade.explanation });
+    } else {
+      const credit = gradeAnswer(question, answer) ?? 0;
+      results.push({ credit, correct: credit === 1 });
+    }
+  }
+  return results;
+}
+
+/**
+ * Grade and store a learner's attempt at a quiz. The attempt number comes
+ * from their earlier attempts, and an attempt beyond the quiz's maxAttempts
+ * throws QuizAttemptLimitError. Bank-drawn attempts are drawn again from
+ * `seed` and stored with their questions; a seed that no longer matches the
+ * draw throws QuizAttemptChangedError. Attempts submitted at the same time
+ * can't both take a number: the later one throws QuizAttemptLimitError when
+ * it would exceed the limit, or QuizAttemptChangedError so it is retaken
+ * with its own draw. The answers are revealed once the learner passes or has
+ * no attempts left, so a retry can't copy them.
+ */
+export async function submitQuizAttempt(
+  quiz: Quiz,
+  learnerId: string,
+  answers: Record<string, QuizAnswer>,
+  seed?: number
+): Promise<QuizAttemptResult> {
+  const maxAttempts = allowedAttempts(quiz);
+  const previous = await storage.getUserQuizAttempts(learnerId, quiz.id);
+  if (maxAttempts !== null && previous.length >= maxAttempts) {
+    throw new QuizAttemptLimitError(maxAttempts);
+  }
+  const attemptNumber = previous.length + 1;
+  const drawn = await drawAttempt(quiz, learnerId, attemptNumber);
+  if (drawn && drawn.seed !== seed) {
+    throw new QuizAttemptChangedError();
+  }
+  const questions = drawn?.questions ?? quiz.questions;
+
+  const results = await gradeQuestions(questions, answers);
+  const score = quizScore(results.map(result => result.credit));
+  const attempt = await storage.createQuizAttempt({
+    quizId: quiz.id,
+    learnerId,
+    score,
+    answers,
+    results,
+    attemptNumber,
+    seed: drawn?.seed ?? null,
+    questions: drawn?.questions ?? null,
+  });
+  if (!attempt) {
+    if (maxAttempts !== null && attemptNumber >= maxAttempts) {
+      throw new QuizAttemptLimitError(maxAttempts);
+    }
+    throw new QuizAttemptChangedError();
+  }
+
+  const passed = score >= (quiz.passingScore ?? 70);
+  const attemptsRemaining = maxAttempts === null ? null : maxAttempts - attempt.attemptNumber;
+  return {
+    attempt: toLearnerAttempt(attempt),
+    passed,
+    results,
+    attemptsRemaining,
+    // Quality flags are notes for the creator
+    ...(passed || attemptsRemaining === 0 ? { questions: questions.map(({ qualityFlags, ...question }) => question) } : {}),
+  };
+}
@@ -0,0 +1,155 @@
+import { llmProvider } from './llmProvider';
+import { AIQuotaExceededError } from './aiUsage';
+
+export type SimilarityMethod = 'embedding' | 'tfidf';
+
+// Cosine similarity from which two texts count as saying the same thing, for each way of comparing them
+const DUPLICATE_THRESHOLDS: Record<SimilarityMethod, number> = {
+  embedding: 0.9,
+  tfidf: 0.8,
+};
+// Embeddings kept between calls, since a course's titles are checked before and after cleaning
+const MAX_CACHED_EMBEDDINGS = 5000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'one', 'our', 'has', 'have', 'how',
+  'this', 'that', 'with', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'which', 'when', 'why',
+  'into', 'than', 'then', 'them', 'these', 'those', 'such', 'also', 'been', 'were', 'its', 'each', 'does',
+]);
+
+const embeddingCache = new Map<string, number[]>();
+
+// Pairwise similarity of a list of texts, from 0 to 1
+export interface TextSimilarity {
+  method: SimilarityMethod;
+  threshold: number;
+  score(a: number, b: number): number;
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// TF-IDF weights of each text, with the document frequencies taken from the texts themselves
+function tfidfVectors(texts: string[]): Map<string, number>[] {
+  const termLists = texts.map(terms);
+  const documentFrequency = new Map<string, number>();
+  for (const list of termLists) {
+    for (const term of Array.from(new Set(list))) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return termLists.map(list => {
+    const weights = new Map<string, number>();
+    for (const term of list) {
+      weights.set(term, (weights.get(term) ?? 0) + 1);
+    }
+    weights.forEach((count, term) => {
+      weights.set(term, count * (Math.log((1 + texts.length) / (1 + documentFrequency.get(term)!)) + 1));
+    });
+    return weights;
+  });
+}
+
+function sparseCosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) ?? 0);
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+// Vectors of the provider's embedding model, or null when it has none or the call fails
+async function embed(texts: string[]): Promise<number[][] | null> {
+  const missing = Array.from(new Set(texts.filter(text => !embeddingCache.has(text))));
+  if (missing.length > 0) {
+    let vectors: number[][] | null;
+    try {
+      vectors = await llmProvider.embedTexts(missing);
+    } catch (error) {
+      if (error instanceof AIQuotaExceededError) throw error;
+      console.warn('Embeddings unavailable, comparing texts with TF-IDF instead:', error instanceof Error ? error.message : error);
+      return null;
+    }
+    if (!vectors) return null;
+
+    if (embeddingCache.size + missing.length > MAX_CACHED_EMBEDDINGS) {
+      embeddingCache.clear();
+    }
+    missing.forEach((text, index) => embeddingCache.set(text, vectors![index]));
+  }
+  return texts.map(text => embeddingCache.get(text)!);
+}
+
+/**
+ * Compare a list of texts by meaning. Embeddings from the LLM provider are
+ * used when it has an embedding model, so paraphrases such as "Intro to
+ * Variables" and "Understanding Variables" match; otherwise TF-IDF cosine
+ * over the texts' words, which still catches reworded and reordered ones.
+ * Texts that are the same apart from case and spacing always score 1.
+ */
+export async function compareTexts(texts: string[]): Promise<TextSimilarity> {
+  const normalized = texts.map(text => text.trim().toLowerCase().replace(/\s+/g, ' '));
+  const same = (a: number, b: number) => normalized[a] === normalized[b];
+
+  const embeddings = texts.length > 1 ? await embed(normalized) : null;
+  if (embeddings) {
+    return {
+      method: 'embedding',
+      threshold: DUPLICATE_THRESHOLDS.embedding,
+      score: (a, b) => (same(a, b) ? 1 : cosine(embeddings[a], embeddings[b])),
+    };
+  }
+
+  const vectors = tfidfVectors(normalized);
+  return {
+    method: 'tfidf',
+    threshold: DUPLICATE_THRESHOLDS.tfidf,
+    score: (a, b) => (same(a, b) ? 1 : sparseCosine(vectors[a], vectors[b])),
+  };
+}
+
+// For each text, the index of the earlier text it repeats, or -1. Texts are only compared with earlier ones that are kept
+export async function findRepeats(texts: string[]): Promise<number[]> {
+  const similarity = await compareTexts(texts);
+  const repeats: number[] = [];
+  for (let index = 0; index < texts.length; index++) {
+    let repeat = -1;
+    for (let earlier = 0; earlier < index && repeat === -1; earlier++) {
+      if (repeats[earlier] === -1 && similarity.score(index, earlier) >= similarity.threshold) {
+        repeat = earlier;
+      }
+    }
+    repeats.push(repeat);
+  }
+  return repeats;
+}
+
+// The items whose text repeats neither an earlier item nor one of the `existing` texts
+export async function withoutRepeats<T>(items: T[], text: (item: T) => string, existing: string[] = []): Promise<T[]> {
+  const repeats = await findRepeats([...existing, ...items.map(text)]);
+  return items.filter((item, index) => {
+    const repeat = repeats[existing.length + index];
+    if (repeat !== -1) {
+      console.log(`Removed repeated content: "${text(item).substring(0, 50)}..."`);
+    }
+    return repeat === -1;
+  });
+}
@@ -0,0 +1,96 @@
+import { storage } from '../storage';
+import type { FlashcardReviewQueue, FlashcardSchedule } from '@shared/schema';
+
+// SM-2 self-grades: 0-2 is a failed recall, 3 recalled with difficulty, 5 effortless
+export const MIN_REVIEW_QUALITY = 0;
+export const MAX_REVIEW_QUALITY = 5;
+const PASSING_QUALITY = 3;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+// A failed card comes back later in the same session rather than tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// New cards a learner starts per day, across all their courses
+export const NEW_CARDS_PER_DAY = 20;
+const MAX_DUE_CARDS = 200;
+
+export type ReviewSchedule = Pick<FlashcardSchedule, 'easeFactor' | 'intervalDays' | 'repetitions' | 'dueAt'>;
+
+/**
+ * Next review of a card under SM-2, given the learner's 0-5 self-grade.
+ * A passing grade grows the interval (1 day, 6 days, then interval × ease
+ * factor); a failing one restarts the card. The ease factor moves with
+ * every grade and never drops below 1.3. `previous` is undefined for a card
+ * the learner has never reviewed.
+ */
+export function scheduleReview(
+  previous: Pick<ReviewSchedule, 'easeFactor' | 'intervalDays' | 'repetitions'> | undefined,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule {
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE_FACTOR;
+  const repetitions = previous?.repetitions ?? 0;
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      easeFactor: nextEaseFactor,
+      intervalDays: 0,
+      repetitions: 0,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS),
+    };
+  }
+
+  const intervalDays = repetitions === 0
+    ? 1
+    : repetitions === 1
+      ? 6
+      : Math.round((previous?.intervalDays || 1) * easeFactor);
+  return {
+    easeFactor: nextEaseFactor,
+    intervalDays,
+    repetitions: repetitions + 1,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+/**
+ * Today's review queue of a learner, optionally limited to one course: the
+ * cards due again, then cards never reviewed until the learner has started
+ * NEW_CARDS_PER_DAY of them today.
+ */
+export async function getReviewQueue(
+  learnerId: string,
+  courseId?: string,
+  now: Date = new Date()
+): Promise<FlashcardReviewQueue> {
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startedToday = await storage.countFlashcardsStartedSince(learnerId, startOfDay);
+
+  const due = await storage.getDueFlashcards(learnerId, now, MAX_DUE_CARDS, courseId);
+  const fresh = await storage.getNewFlashcards(learnerId, NEW_CARDS_PER_DAY - startedToday, courseId);
+  return { cards: [...due, ...fresh], dueCount: due.length, newCount: fresh.length };
+}
+
+// Grade a review of a card and store the learner's next review of it
+export async function recordReview(
+  learnerId: string,
+  flashcardId: string,
+  quality: number,
+  now: Date = new Date()
+): Promise<FlashcardSchedule> {
+  const previous = await storage.getFlashcardSchedule(learnerId, flashcardId);
+  return storage.saveFlashcardSchedule({
+    learnerId,
+    flashcardId,
+    ...scheduleReview(previous, quality, now),
+    lastQuality: quality,
+    reviewCount: (previous?.reviewCount ?? 0) + 1,
+    lastReviewedAt: now,
+  });
+}
@@ -0,0 +1,290 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  pages: ExtractedPage[];
+}
+
+type SupportedType = 'pdf' | 'docx' | 'doc' | 'txt' | 'md';
+
+// Page boundaries are kept in the stored text as marker lines so later
+// phases (chunking, citations) can recover page numbers.
+export const PAGE_MARKER_PATTERN = /^--- Page (\d+) ---$/;
+
+export function formatPageMarker(pageNumber: number): string {
+  return `--- Page ${pageNumber} ---`;
+}
+
+const MIME_TYPES: Record<string, SupportedType> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/x-markdown': 'md',
+};
+
+const BULLET_PATTERN = /^[•◦▪▫●○■□‣⁃∙\-*]\s+/;
+
+export class TextExtractor {
+  async extract(filePath: string, fileName: string, fileType: string): Promise<ExtractedDocument> {
+    const type = this.resolveType(fileName, fileType);
+    if (!type) {
+      throw new Error(`Unsupported file type for "${fileName}". Only PDF, DOC, DOCX, TXT, and MD files can be processed.`);
+    }
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`The uploaded file for "${fileName}" could not be found on the server.`);
+    }
+
+    let pages: ExtractedPage[];
+    try {
+      switch (type) {
+        case 'pdf':
+          pages = await this.extractPdf(filePath);
+          break;
+        case 'docx':
+          pages = await this.extractDocx(filePath);
+          break;
+        case 'doc':
+          pages = await this.extractDoc(filePath);
+          break;
+        default:
+          pages = await this.extractPlainText(filePath);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not read "${fileName}" as ${type.toUpperCase()}: ${reason}`);
+    }
+
+    pages = pages
+      .map(page => ({ ...page, text: normalizeWhitespace(page.text) }))
+      .filter(page => page.text.length > 0);
+
+    if (pages.length === 0) {
+      throw new Error(
+        type === 'pdf'
+          ? `No text could be extracted from "${fileName}". The PDF may be scanned images without a text layer.`
+          : `"${fileName}" does not contain any text.`
+      );
+    }
+
+    return {
+      text: this.joinPages(pages),
+      pages,
+    };
+  }
+
+  // Format of an upload, from its extension or else its stored type (extension or MIME type)
+  resolveType(fileName: string, fileType: string): SupportedType | undefined {
+    const ext = path.extname(fileName).toLowerCase().replace('.', '');
+    if (['pdf', 'docx', 'doc', 'txt', 'md'].includes(ext)) {
+      return ext as SupportedType;
+    }
+
+    const normalizedType = fileType.toLowerCase().replace(/^\./, '');
+    if (['pdf', 'docx', 'doc', 'txt', 'md'].includes(normalizedType)) {
+      return normalizedType as SupportedType;
+    }
+    return MIME_TYPES[fileType.toLowerCase()];
+  }
+
+  private joinPages(pages: ExtractedPage[]): string {
+    // Single-page sources (txt, md, docx) are stored without markers
+    if (pages.length === 1 && pages[0].pageNumber === 1) {
+      return pages[0].text;
+    }
+    return pages
+      .map(page => `${formatPageMarker(page.pageNumber)}\n\n${page.text}`)
+      .join('\n\n');
+  }
+
+  private async extractPdf(filePath: string): Promise<ExtractedPage[]> {
+    const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const data = new Uint8Array(await fs.promises.readFile(filePath));
+    const pdf = await getDocument({
+      data,
+      isEvalSupported: false,
+      useSystemFonts: true,
+      disableFontFace: true,
+      verbosity: 0,
+    }).promise;
+
+    try {
+      const rawPages: { pageNumber: number; lines: { text: string; height: number; gap: number }[] }[] = [];
+      const heights: number[] = [];
+
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        const lines: { text: string; height: number; gap: number }[] = [];
+
+        let current = '';
+        let currentHeight = 0;
+        let currentY: number | null = null;
+        let previousY: number | null = null;
+
+        const flush = () => {
+          if (current.trim()) {
+            const gap = previousY !== null && currentY !== null ? Math.abs(previousY - currentY) : 0;
+            lines.push({ text: current.trim(), height: currentHeight, gap });
+            heights.push(currentHeight);
+            previousY = currentY;
+          }
+          current = '';
+          currentHeight = 0;
+          currentY = null;
+        };
+
+        for (const item of content.items) {
+          if (!('str' in item)) continue;
+          if (currentY === null) currentY = item.transform[5];
+          current += item.str;
+          currentHeight = Math.max(currentHeight, item.height || 0);
+          if (item.hasEOL) flush();
+        }
+        flush();
+
+        rawPages.push({ pageNumber, lines });
+        page.cleanup();
+      }
+
+      const bodyHeight = median(heights);
+
+      return rawPages.map(({ pageNumber, lines }) => {
+        const output: string[] = [];
+        for (const line of lines) {
+          // A larger-than-body font on a short line is treated as a heading
+          const isHeading = bodyHeight > 0 && line.height >= bodyHeight * 1.3 && line.text.length < 120;
+          // A vertical jump of nearly two lines starts a new paragraph
+          const isParagraphBreak = bodyHeight > 0 && line.gap > bodyHeight * 1.8;
+
+          if ((isHeading || isParagraphBreak) && output.length > 0) {
+            output.push('');
+          }
+
+          if (isHeading) {
+            output.push(`## ${line.text}`);
+            output.push('');
+          } else if (BULLET_PATTERN.test(line.text)) {
+            output.push(`- ${line.text.replace(BULLET_PATTERN, '')}`);
+          } else {
+            output.push(line.text);
+          }
+        }
+        return { pageNumber, text: output.join('\n') };
+      });
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private async extractDocx(filePath: string): Promise<ExtractedPage[]> {
+    const result = await mammoth.convertToHtml({ path: filePath });
+    return [{ pageNumber: 1, text: htmlToStructuredText(result.value) }];
+  }
+
+  private async extractDoc(filePath: string): Promise<ExtractedPage[]> {
+    const extractor = new WordExtractor();
+    const doc = await extractor.extract(filePath);
+    const text = doc.getBody()
+      .split('\n')
+      .map(line => BULLET_PATTERN.test(line.trim()) ? `- ${line.trim().replace(BULLET_PATTERN, '')}` : line)
+      .join('\n');
+    return [{ pageNumber: 1, text }];
+  }
+
+  private async extractPlainText(filePath: string): Promise<ExtractedPage[]> {
+    const text = await fs.promises.readFile(filePath, 'utf8');
+    // Strip a UTF-8 byte order mark if present
+    return [{ pageNumber: 1, text: text.replace(/^\uFEFF/, '') }];
+  }
+}
+
+/**
+ * Convert the HTML produced by mammoth into Markdown-style text,
+ * preserving headings, list items and paragraph breaks.
+ */
+function htmlToStructuredText(html: string): string {
+  const listStack: { ordered: boolean; index: number }[] = [];
+  let inHeading = false;
+  let output = '';
+
+  const tokens = html.split(/(<[^>]+>)/g).filter(Boolean);
+  for (const token of tokens) {
+    const tag = token.match(/^<\s*(\/)?\s*([a-z0-9]+)/i);
+    if (!tag) {
+      output += decodeEntities(token);
+      continue;
+    }
+
+    const closing = !!tag[1];
+    const name = tag[2].toLowerCase();
+
+    if (/^h[1-6]$/.test(name)) {
+      inHeading = !closing;
+      output += closing ? '\n\n' : `\n\n${'#'.repeat(parseInt(name[1]))} `;
+    } else if (name === 'ul' || name === 'ol') {
+      if (closing) {
+        listStack.pop();
+        if (listStack.length === 0) output += '\n';
+      } else {
+        listStack.push({ ordered: name === 'ol', index: 0 });
+        output += '\n';
+      }
+    } else if (name === 'li') {
+      if (!closing) {
+        const list = listStack[listStack.length - 1];
+        const indent = '  '.repeat(Math.max(0, listStack.length - 1));
+        const marker = list?.ordered ? `${++list.index}.` : '-';
+        output += `\n${indent}${marker} `;
+      }
+    } else if (name === 'p' || name === 'table' || name === 'tr') {
+      output += closing ? '\n' : (listStack.length > 0 ? '' : '\n');
+    } else if (name === 'td' || name === 'th') {
+      if (closing) output += ' | ';
+    } else if (name === 'br') {
+      output += inHeading ? ' ' : '\n';
+    }
+  }
+
+  return output;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    // Postgres text columns reject NUL; PDFs often contain stray control characters
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/^(#{1,6}) +/gm, '$1 ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+export const textExtractor = new TextExtractor();
@@ -1,22 +1,32 @@
 import {
   users,
   documents,
+  documentChunks,
   courseTemplates,
   courses,
   courseDocuments,
   modules,
   lessons,
   quizzes,
+  glossaryTerms,
+  questionBankItems,
+  flashcards,
+  flashcardSchedules,
   enrollments,
   progress,
   quizAttempts,
+  tutorMessages,
   aiProcessingJobs,
+  aiUsageEvents,
+  generationCache,
   learningMetrics,
   dailyActivity,
   type User,
   type UpsertUser,
   type InsertDocument,
   type Document,
+  type InsertDocumentChunk,
+  type DocumentChunk,
   type InsertCourseTemplate,
   type CourseTemplate,
   type InsertCourse,
@@ -29,6 +39,17 @@ import {
   type Lesson,
   type InsertQuiz,
   type Quiz,
+  type InsertGlossaryTerm,
+  type GlossaryTerm,
+  type InsertQuestionBankItem,
+  type QuestionBankItem,
+  type InsertFlashcard,
+  type Flashcard,
+  type InsertFlashcardSchedule,
+  type FlashcardSchedule,
+  type FlashcardReviewQueue,
+  type InsertTutorMessage,
+  type TutorMessage,
   type InsertEnrollment,
   type Enrollment,
   type InsertProgress,
@@ -37,13 +58,44 @@ import {
   type QuizAttempt,
   type InsertAiProcessingJob,
   type AiProcessingJob,
+  type InsertAiUsageEvent,
+  type AiUsageEvent,
+  type InsertGenerationCacheEntry,
+  type GenerationCacheEntry,
   type CourseWithDetails,
   type LearnerProgress,
   type LearningMetrics,
   type DailyActivity,
+  type SourceReference,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, sql, gte, lt, or, isNull } from "drizzle-orm";
+import { eq, asc, desc, and, sql, gte, lt, lte, or, isNull, inArray, type SQL } from "drizzle-orm";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AiUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  calls: number;
+}
+
+// A generated module with its lessons, quizzes and flashcards, ids and parent keys filled in when saved
+export interface GeneratedModuleRecord {
+  module: Omit<InsertModule, 'courseId'>;
+  lessons: { lesson: Omit<InsertLesson, 'moduleId'>; quiz?: Omit<InsertQuiz, 'moduleId' | 'lessonId'> }[];
+  quizzes: Omit<InsertQuiz, 'moduleId' | 'lessonId'>[];
+  flashcards?: Omit<InsertFlashcard, 'moduleId'>[];
+}
+
+// A card in a learner's review queue, with the course and module it belongs to
+export type ReviewQueueCard = FlashcardReviewQueue['cards'][number];
+
+// Ids of what saveGeneratedCourse created, modules in order
+export interface SavedGeneratedCourse {
+  moduleIds: string[];
+  glossaryTermIds: string[];
+}
 
 export interface IStorage {
   // User operations
@@ -66,6 +118,10 @@ export interface IStorage {
   getUserDocuments(userId: string): Promise<Document[]>;
   updateDocumentContent(id: string, content: string): Promise<void>;
   updateDocument(id: string, updates: Partial<Document>): Promise<void>;
+
+  // Document chunk operations
+  replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<DocumentChunk[]>;
+  getDocumentChunks(documentId: string): Promise<DocumentChunk[]>;
   
   // Course Document operations
   addDocumentToCourse(courseId: string, documentId: string): Promise<CourseDocument>;
@@ -92,18 +148,29 @@ export interface IStorage {
 
   // Module operations
   createModule(module: InsertModule): Promise<Module>;
+  getModule(id: string): Promise<Module | undefined>;
   getCourseModules(courseId: string): Promise<Module[]>;
   updateModule(id: string, updates: Partial<Module>): Promise<Module>;
   deleteModule(id: string): Promise<void>;
+  deleteGeneratedModules(moduleIds: string[]): Promise<void>;
+  saveGeneratedCourse(
+    courseId: string,
+    courseUpdates: Partial<Course>,
+    generatedModules: GeneratedModuleRecord[],
+    replaceModuleIds?: string[],
+    glossary?: Omit<InsertGlossaryTerm, 'courseId'>[]
+  ): Promise<SavedGeneratedCourse>;
 
   // Lesson operations
   createLesson(lesson: InsertLesson): Promise<Lesson>;
+  getLesson(id: string): Promise<Lesson | undefined>;
   getModuleLessons(moduleId: string): Promise<Lesson[]>;
   updateLesson(id: string, updates: Partial<Lesson>): Promise<Lesson>;
   deleteLesson(id: string): Promise<void>;
 
   // Quiz operations
   createQuiz(quiz: InsertQuiz): Promise<Quiz>;
+  getQuiz(id: string): Promise<Quiz | undefined>;
   getLessonQuiz(lessonId: string): Promise<Quiz | undefined>;
   getQuizByLessonId(lessonId: string): Promise<Quiz | undefined>;
   getQuizByModuleId(moduleId: string): Promise<Quiz | undefined>;
@@ -111,6 +178,34 @@ export interface IStorage {
   updateQuiz(id: string, updates: Partial<Quiz>): Promise<Quiz>;
   deleteQuiz(id: string): Promise<void>;
 
+  // Question bank operations
+  getModuleQuestionBank(moduleId: string): Promise<QuestionBankItem[]>;
+  getQuestionBankItem(id: string): Promise<QuestionBankItem | undefined>;
+  createQuestionBankItems(items: InsertQuestionBankItem[]): Promise<QuestionBankItem[]>;
+  updateQuestionBankItem(id: string, updates: Partial<QuestionBankItem>): Promise<QuestionBankItem>;
+  deleteQuestionBankItem(id: string): Promise<void>;
+
+  // Glossary operations
+  getCourseGlossary(courseId: string): Promise<GlossaryTerm[]>;
+  getGlossaryTerm(id: string): Promise<GlossaryTerm | undefined>;
+  createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm>;
+  updateGlossaryTerm(id: string, updates: Partial<GlossaryTerm>): Promise<GlossaryTerm>;
+  deleteGlossaryTerm(id: string): Promise<void>;
+  deleteGlossaryTerms(ids: string[]): Promise<void>;
+
+  // Flashcard operations
+  getModuleFlashcards(moduleId: string): Promise<Flashcard[]>;
+  getFlashcard(id: string): Promise<Flashcard | undefined>;
+  createFlashcard(card: InsertFlashcard): Promise<Flashcard>;
+  updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard>;
+  deleteFlashcard(id: string): Promise<void>;
+  replaceModuleFlashcards(moduleId: string, cards: Omit<InsertFlashcard, 'moduleId'>[]): Promise<Flashcard[]>;
+  getFlashcardSchedule(learnerId: string, flashcardId: string): Promise<FlashcardSchedule | undefined>;
+  saveFlashcardSchedule(schedule: InsertFlashcardSchedule): Promise<FlashcardSchedule>;
+  getDueFlashcards(learnerId: string, now: Date, limit: number, courseId?: string): Promise<ReviewQueueCard[]>;
+  getNewFlashcards(learnerId: string, limit: number, courseId?: string): Promise<ReviewQueueCard[]>;
+  countFlashcardsStartedSince(learnerId: string, since: Date): Promise<number>;
+
   // Enrollment operations
   createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
   getUserEnrollments(userId: string): Promise<LearnerProgress[]>;
@@ -123,13 +218,35 @@ export interface IStorage {
   getEnrollmentProgress(enrollmentId: string): Promise<Progress[]>;
 
   // Quiz attempt operations
-  createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt>;
+  // Undefined when the learner recorded another attempt at the quiz since attemptNumber was counted
+  createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt | undefined>;
   getUserQuizAttempts(learnerId: string, quizId: string): Promise<QuizAttempt[]>;
 
+  // Tutor conversation operations
+  getTutorMessages(learnerId: string, courseId: string): Promise<TutorMessage[]>;
+  createTutorMessages(messages: InsertTutorMessage[]): Promise<TutorMessage[]>;
+  deleteTutorMessages(learnerId: string, courseId: string): Promise<void>;
+
   // AI processing operations
   createAiProcessingJob(job: InsertAiProcessingJob): Promise<AiProcessingJob>;
   updateAiProcessingJob(id: string, updates: Partial<AiProcessingJob>): Promise<AiProcessingJob>;
   getAiProcessingJob(id: string): Promise<AiProcessingJob | undefined>;
+  claimNextAiProcessingJob(workerId: string, leaseMs: number): Promise<AiProcessingJob | undefined>;
+  renewAiProcessingJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  releaseAiProcessingJob(id: string, workerId: string, updates: Partial<AiProcessingJob>): Promise<boolean>;
+  getOrphanedAiProcessingJobs(unleasedStaleMs: number): Promise<AiProcessingJob[]>;
+  transitionAiProcessingJob(id: string, fromStatuses: AiProcessingJob['status'][], updates: Partial<AiProcessingJob>): Promise<AiProcessingJob | undefined>;
+  getCourseAiProcessingJobs(courseId: string, statuses?: AiProcessingJob['status'][]): Promise<AiProcessingJob[]>;
+  getDocumentAiProcessingJobs(documentId: string, statuses: AiProcessingJob['status'][]): Promise<AiProcessingJob[]>;
+
+  // AI usage operations
+  createAiUsageEvent(event: InsertAiUsageEvent): Promise<AiUsageEvent>;
+  getAiUsageTotals(filter: { userId?: string; jobId?: string; since?: Date }): Promise<AiUsageTotals>;
+
+  // Generation cache operations
+  useGenerationCacheEntry(key: string): Promise<GenerationCacheEntry | undefined>;
+  saveGenerationCacheEntry(entry: InsertGenerationCacheEntry): Promise<void>;
+  deleteGenerationCacheEntriesForDocument(documentId: string): Promise<number>;
 
   // Learning metrics operations
   getLearningMetrics(userId: string): Promise<LearningMetrics | undefined>;
@@ -262,6 +379,20 @@ export class DatabaseStorage implements IStorage {
     await db.update(documents).set(updates).where(eq(documents.id, id));
   }
 
+  // Document chunk operations
+  async replaceDocumentChunks(documentId: string, chunks: InsertDocumentChunk[]): Promise<DocumentChunk[]> {
+    await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+    if (chunks.length === 0) return [];
+
+    return db.insert(documentChunks).values(chunks).returning();
+  }
+
+  async getDocumentChunks(documentId: string): Promise<DocumentChunk[]> {
+    return db.select().from(documentChunks)
+      .where(eq(documentChunks.documentId, documentId))
+      .orderBy(documentChunks.chunkIndex);
+  }
+
   // Course Document operations
   async addDocumentToCourse(courseId: string, documentId: string): Promise<CourseDocument> {
     const [created] = await db.insert(courseDocuments).values({
@@ -656,6 +787,11 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getModule(id: string): Promise<Module | undefined> {
+    const [module] = await db.select().from(modules).where(eq(modules.id, id));
+    return module;
+  }
+
   async getCourseModules(courseId: string): Promise<Module[]> {
     return db.select().from(modules).where(eq(modules.courseId, courseId)).orderBy(modules.orderIndex);
   }
@@ -669,6 +805,83 @@ export class DatabaseStorage implements IStorage {
     await db.delete(modules).where(eq(modules.id, id));
   }
 
+  async deleteGeneratedModules(moduleIds: string[]): Promise<void> {
+    if (moduleIds.length === 0) return;
+    await db.transaction(tx => this.deleteModulesWithContent(tx, moduleIds));
+  }
+
+  /**
+   * Write a generated course in one transaction: the course fields, every
+   * module, lesson, quiz and flashcard, the glossary terms, and the removal of
+   * `replaceModuleIds` (content of an earlier attempt) either all land or
+   * none do. Terms the course already defines (case-insensitively) are kept
+   * as they are, so creator edits survive regeneration. Returns the ids of
+   * the new modules and glossary terms.
+   */
+  async saveGeneratedCourse(
+    courseId: string,
+    courseUpdates: Partial<Course>,
+    generatedModules: GeneratedModuleRecord[],
+    replaceModuleIds: string[] = [],
+    glossary: Omit<InsertGlossaryTerm, 'courseId'>[] = []
+  ): Promise<SavedGeneratedCourse> {
+    return db.transaction(async (tx) => {
+      if (replaceModuleIds.length > 0) {
+        await this.deleteModulesWithContent(tx, replaceModuleIds);
+      }
+      await tx.update(courses).set({ ...courseUpdates, updatedAt: new Date() }).where(eq(courses.id, courseId));
+
+      const moduleIds: string[] = [];
+      for (const generated of generatedModules) {
+        const [createdModule] = await tx.insert(modules).values({ ...generated.module, courseId }).returning();
+        moduleIds.push(createdModule.id);
+
+        for (const { lesson, quiz } of generated.lessons) {
+          const [createdLesson] = await tx.insert(lessons).values([{
+            ...lesson,
+            moduleId: createdModule.id,
+            attachments: (lesson.attachments || []) as string[],
+            sourceReferences: (lesson.sourceReferences || []) as SourceReference[],
+          }]).returning();
+          if (quiz) {
+            await tx.insert(quizzes).values({ ...quiz, moduleId: createdModule.id, lessonId: createdLesson.id });
+          }
+        }
+        for (const quiz of generated.quizzes) {
+          await tx.insert(quizzes).values({ ...quiz, moduleId: createdModule.id });
+        }
+        if (generated.flashcards && generated.flashcards.length > 0) {
+          await tx.insert(flashcards).values(generated.flashcards.map(card => ({ ...card, moduleId: createdModule.id })));
+        }
+      }
+
+      const existingTerms = await tx.select({ term: glossaryTerms.term }).from(glossaryTerms).where(eq(glossaryTerms.courseId, courseId));
+      const definedTerms = new Set(existingTerms.map(existing => existing.term.toLowerCase()));
+      const glossaryTermIds: string[] = [];
+      for (const entry of glossary) {
+        if (definedTerms.has(entry.term.toLowerCase())) continue;
+        definedTerms.add(entry.term.toLowerCase());
+        const [createdTerm] = await tx.insert(glossaryTerms).values({ ...entry, courseId }).returning();
+        glossaryTermIds.push(createdTerm.id);
+      }
+      return { moduleIds, glossaryTermIds };
+    });
+  }
+
+  private async deleteModulesWithContent(tx: Transaction, moduleIds: string[]): Promise<void> {
+    const moduleLessons = await tx.select({ id: lessons.id }).from(lessons).where(inArray(lessons.moduleId, moduleIds));
+    const lessonIds = moduleLessons.map(lesson => lesson.id);
+
+    await tx.delete(quizzes).where(inArray(quizzes.moduleId, moduleIds));
+    await tx.delete(questionBankItems).where(inArray(questionBankItems.moduleId, moduleIds));
+    await this.deleteFlashcardsWhere(tx, inArray(flashcards.moduleId, moduleIds));
+    if (lessonIds.length > 0) {
+      await tx.delete(progress).where(inArray(progress.lessonId, lessonIds));
+      await tx.delete(lessons).where(inArray(lessons.id, lessonIds));
+    }
+    await tx.delete(modules).where(inArray(modules.id, moduleIds));
+  }
+
   // Lesson operations
   async createLesson(lesson: InsertLesson): Promise<Lesson> {
     // Ensure attachments and sourceReferences are proper arrays
@@ -681,6 +894,11 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async getLesson(id: string): Promise<Lesson | undefined> {
+    const [lesson] = await db.select().from(lessons).where(eq(lessons.id, id));
+    return lesson;
+  }
+
   async getModuleLessons(moduleId: string): Promise<Lesson[]> {
     return db.select().from(lessons).where(eq(lessons.moduleId, moduleId)).orderBy(lessons.orderIndex);
   }
@@ -724,6 +942,11 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  async getQuiz(id: string): Promise<Quiz | undefined> {
+    const [quiz] = await db.select().from(quizzes).where(eq(quizzes.id, id));
+    return quiz;
+  }
+
   async getModuleQuizzes(moduleId: string): Promise<Quiz[]> {
     // Get all quizzes for this module (including lesson quizzes)
     return db.select().from(quizzes).where(eq(quizzes.moduleId, moduleId));
@@ -733,6 +956,198 @@ export class DatabaseStorage implements IStorage {
     await db.delete(quizzes).where(eq(quizzes.id, id));
   }
 
+  // Question bank operations
+  async getModuleQuestionBank(moduleId: string): Promise<QuestionBankItem[]> {
+    return db.select().from(questionBankItems)
+      .where(eq(questionBankItems.moduleId, moduleId))
+      .orderBy(questionBankItems.createdAt, questionBankItems.id);
+  }
+
+  async getQuestionBankItem(id: string): Promise<QuestionBankItem | undefined> {
+    const [item] = await db.select().from(questionBankItems).where(eq(questionBankItems.id, id));
+    return item;
+  }
+
+  async createQuestionBankItems(items: InsertQuestionBankItem[]): Promise<QuestionBankItem[]> {
+    if (items.length === 0) return [];
+    return db.insert(questionBankItems).values(items).returning();
+  }
+
+  async updateQuestionBankItem(id: string, updates: Partial<QuestionBankItem>): Promise<QuestionBankItem> {
+    const [updated] = await db.update(questionBankItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(questionBankItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteQuestionBankItem(id: string): Promise<void> {
+    await db.delete(questionBankItems).where(eq(questionBankItems.id, id));
+  }
+
+  // Glossary operations
+  async getCourseGlossary(courseId: string): Promise<GlossaryTerm[]> {
+    return db.select().from(glossaryTerms).where(eq(glossaryTerms.courseId, courseId)).orderBy(glossaryTerms.term);
+  }
+
+  async getGlossaryTerm(id: string): Promise<GlossaryTerm | undefined> {
+    const [term] = await db.select().from(glossaryTerms).where(eq(glossaryTerms.id, id));
+    return term;
+  }
+
+  async createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const [created] = await db.insert(glossaryTerms).values(term).returning();
+    return created;
+  }
+
+  async updateGlossaryTerm(id: string, updates: Partial<GlossaryTerm>): Promise<GlossaryTerm> {
+    const [updated] = await db.update(glossaryTerms)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(glossaryTerms.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteGlossaryTerm(id: string): Promise<void> {
+    await db.delete(glossaryTerms).where(eq(glossaryTerms.id, id));
+  }
+
+  async deleteGlossaryTerms(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(glossaryTerms).where(inArray(glossaryTerms.id, ids));
+  }
+
+  // Flashcard operations
+  async getModuleFlashcards(moduleId: string): Promise<Flashcard[]> {
+    return db.select().from(flashcards).where(eq(flashcards.moduleId, moduleId)).orderBy(flashcards.orderIndex);
+  }
+
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    const [card] = await db.select().from(flashcards).where(eq(flashcards.id, id));
+    return card;
+  }
+
+  async createFlashcard(card: InsertFlashcard): Promise<Flashcard> {
+    const [created] = await db.insert(flashcards).values(card).returning();
+    return created;
+  }
+
+  async updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard> {
+    const [updated] = await db.update(flashcards)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(flashcards.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFlashcard(id: string): Promise<void> {
+    await db.transaction(tx => this.deleteFlashcardsWhere(tx, eq(flashcards.id, id)));
+  }
+
+  // Swap a module's deck for a regenerated one; learners' schedules for the old cards go with them
+  async replaceModuleFlashcards(moduleId: string, cards: Omit<InsertFlashcard, 'moduleId'>[]): Promise<Flashcard[]> {
+    return db.transaction(async (tx) => {
+      await this.deleteFlashcardsWhere(tx, eq(flashcards.moduleId, moduleId));
+      if (cards.length === 0) return [];
+      return tx.insert(flashcards).values(cards.map(card => ({ ...card, moduleId }))).returning();
+    });
+  }
+
+  private async deleteFlashcardsWhere(tx: Transaction, condition: SQL): Promise<void> {
+    const cards = await tx.select({ id: flashcards.id }).from(flashcards).where(condition);
+    if (cards.length === 0) return;
+    const cardIds = cards.map(card => card.id);
+    await tx.delete(flashcardSchedules).where(inArray(flashcardSchedules.flashcardId, cardIds));
+    await tx.delete(flashcards).where(inArray(flashcards.id, cardIds));
+  }
+
+  async getFlashcardSchedule(learnerId: string, flashcardId: string): Promise<FlashcardSchedule | undefined> {
+    const [schedule] = await db.select().from(flashcardSchedules).where(and(
+      eq(flashcardSchedules.learnerId, learnerId),
+      eq(flashcardSchedules.flashcardId, flashcardId)
+    ));
+    return schedule;
+  }
+
+  async saveFlashcardSchedule(schedule: InsertFlashcardSchedule): Promise<FlashcardSchedule> {
+    const [saved] = await db.insert(flashcardSchedules)
+      .values(schedule)
+      .onConflictDoUpdate({
+        target: [flashcardSchedules.learnerId, flashcardSchedules.flashcardId],
+        set: {
+          easeFactor: schedule.easeFactor,
+          intervalDays: schedule.intervalDays,
+          repetitions: schedule.repetitions,
+          dueAt: schedule.dueAt,
+          lastQuality: schedule.lastQuality,
+          reviewCount: schedule.reviewCount,
+          lastReviewedAt: schedule.lastReviewedAt,
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Cards of the learner's enrolled courses that were reviewed before and are due again, most overdue first
+  async getDueFlashcards(learnerId: string, now: Date, limit: number, courseId?: string): Promise<ReviewQueueCard[]> {
+    const rows = await db
+      .select({
+        card: flashcards,
+        courseId: courses.id,
+        courseTitle: courses.title,
+        moduleTitle: modules.title,
+        schedule: flashcardSchedules,
+      })
+      .from(flashcardSchedules)
+      .innerJoin(flashcards, eq(flashcards.id, flashcardSchedules.flashcardId))
+      .innerJoin(modules, eq(modules.id, flashcards.moduleId))
+      .innerJoin(courses, eq(courses.id, modules.courseId))
+      .innerJoin(enrollments, and(eq(enrollments.courseId, courses.id), eq(enrollments.learnerId, learnerId)))
+      .where(and(
+        eq(flashcardSchedules.learnerId, learnerId),
+        lte(flashcardSchedules.dueAt, now),
+        courseId ? eq(courses.id, courseId) : undefined
+      ))
+      .orderBy(flashcardSchedules.dueAt)
+      .limit(limit);
+    return rows.map(({ card, ...row }) => ({ ...card, ...row }));
+  }
+
+  // Cards of the learner's enrolled courses they have never reviewed, in course order
+  async getNewFlashcards(learnerId: string, limit: number, courseId?: string): Promise<ReviewQueueCard[]> {
+    if (limit <= 0) return [];
+    const rows = await db
+      .select({
+        card: flashcards,
+        courseId: courses.id,
+        courseTitle: courses.title,
+        moduleTitle: modules.title,
+      })
+      .from(flashcards)
+      .innerJoin(modules, eq(modules.id, flashcards.moduleId))
+      .innerJoin(courses, eq(courses.id, modules.courseId))
+      .innerJoin(enrollments, and(eq(enrollments.courseId, courses.id), eq(enrollments.learnerId, learnerId)))
+      .leftJoin(flashcardSchedules, and(
+        eq(flashcardSchedules.flashcardId, flashcards.id),
+        eq(flashcardSchedules.learnerId, learnerId)
+      ))
+      .where(and(
+        isNull(flashcardSchedules.id),
+        courseId ? eq(courses.id, courseId) : undefined
+      ))
+      .orderBy(enrollments.enrolledAt, modules.orderIndex, flashcards.orderIndex)
+      .limit(limit);
+    return rows.map(({ card, ...row }) => ({ ...card, ...row, schedule: null }));
+  }
+
+  async countFlashcardsStartedSince(learnerId: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(flashcardSchedules)
+      .where(and(eq(flashcardSchedules.learnerId, learnerId), gte(flashcardSchedules.firstReviewedAt, since)));
+    return result?.count ?? 0;
+  }
+
   // Enrollment operations
   async createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment> {
     const [created] = await db.insert(enrollments).values(enrollment).returning();
@@ -828,9 +1243,20 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Quiz attempt operations
-  async createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt> {
-    const [created] = await db.insert(quizAttempts).values(attempt).returning();
-    return created;
+  // Attempts are counted and inserted under a lock per learner and quiz, so attempts submitted together
+  // can't take the same number or get past the quiz's attempt limit
+  async createQuizAttempt(attempt: InsertQuizAttempt): Promise<QuizAttempt | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`quiz-attempts:${attempt.quizId}:${attempt.learnerId}`}))`);
+      const [{ count }] = await tx
+        .select({ count: sql<number>`count(*)::int` })
+        .from(quizAttempts)
+        .where(and(eq(quizAttempts.quizId, attempt.quizId), eq(quizAttempts.learnerId, attempt.learnerId)));
+      if (count !== attempt.attemptNumber - 1) return undefined;
+
+      const [created] = await tx.insert(quizAttempts).values(attempt).returning();
+      return created;
+    });
   }
 
   async getUserQuizAttempts(learnerId: string, quizId: string): Promise<QuizAttempt[]> {
@@ -841,6 +1267,29 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(quizAttempts.completedAt));
   }
 
+  // Tutor conversation operations
+  async getTutorMessages(learnerId: string, courseId: string): Promise<TutorMessage[]> {
+    return db
+      .select()
+      .from(tutorMessages)
+      .where(and(eq(tutorMessages.learnerId, learnerId), eq(tutorMessages.courseId, courseId)))
+      // A question and its answer share their insert's timestamp; 'learner' sorts before 'tutor'
+      .orderBy(asc(tutorMessages.createdAt), asc(tutorMessages.role));
+  }
+
+  // A question and its answer are saved together, so a failed answer leaves no unanswered question behind
+  async createTutorMessages(messages: InsertTutorMessage[]): Promise<TutorMessage[]> {
+    if (messages.length === 0) return [];
+    return db.insert(tutorMessages).values(messages.map(message => ({
+      ...message,
+      sourceReferences: (message.sourceReferences || []) as SourceReference[],
+    }))).returning();
+  }
+
+  async deleteTutorMessages(learnerId: string, courseId: string): Promise<void> {
+    await db.delete(tutorMessages).where(and(eq(tutorMessages.learnerId, learnerId), eq(tutorMessages.courseId, courseId)));
+  }
+
   // AI processing operations
   async createAiProcessingJob(job: InsertAiProcessingJob): Promise<AiProcessingJob> {
     const [created] = await db.insert(aiProcessingJobs).values(job).returning();
@@ -861,6 +1310,167 @@ export class DatabaseStorage implements IStorage {
     return job;
   }
 
+  // Atomically lease the oldest runnable pending job; SKIP LOCKED keeps concurrent workers apart
+  async claimNextAiProcessingJob(workerId: string, leaseMs: number): Promise<AiProcessingJob | undefined> {
+    const [job] = await db
+      .update(aiProcessingJobs)
+      .set({
+        status: 'processing',
+        attempts: sql`${aiProcessingJobs.attempts} + 1`,
+        leaseOwner: workerId,
+        leaseExpiresAt: sql`now() + ${leaseMs}::integer * interval '1 millisecond'`,
+        heartbeatAt: sql`now()`,
+        updatedAt: new Date(),
+      })
+      .where(eq(aiProcessingJobs.id, sql`(
+        SELECT ${aiProcessingJobs.id} FROM ${aiProcessingJobs}
+        WHERE ${aiProcessingJobs.status} = 'pending'
+          AND (${aiProcessingJobs.runAfter} IS NULL OR ${aiProcessingJobs.runAfter} <= now())
+        ORDER BY ${aiProcessingJobs.createdAt}
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return job;
+  }
+
+  async renewAiProcessingJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const renewed = await db
+      .update(aiProcessingJobs)
+      .set({
+        leaseExpiresAt: sql`now() + ${leaseMs}::integer * interval '1 millisecond'`,
+        heartbeatAt: sql`now()`,
+      })
+      .where(and(
+        eq(aiProcessingJobs.id, id),
+        eq(aiProcessingJobs.leaseOwner, workerId),
+        eq(aiProcessingJobs.status, 'processing')
+      ))
+      .returning({ id: aiProcessingJobs.id });
+    return renewed.length > 0;
+  }
+
+  // Write the outcome of a run, but only while this worker still holds the lease
+  async releaseAiProcessingJob(id: string, workerId: string, updates: Partial<AiProcessingJob>): Promise<boolean> {
+    const released = await db
+      .update(aiProcessingJobs)
+      .set({ ...updates, leaseOwner: null, leaseExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(aiProcessingJobs.id, id), eq(aiProcessingJobs.leaseOwner, workerId)))
+      .returning({ id: aiProcessingJobs.id });
+    return released.length > 0;
+  }
+
+  // Update a job only if it is still in one of the expected statuses, so API
+  // requests and workers cannot overwrite each other's transitions
+  async transitionAiProcessingJob(
+    id: string,
+    fromStatuses: AiProcessingJob['status'][],
+    updates: Partial<AiProcessingJob>
+  ): Promise<AiProcessingJob | undefined> {
+    const [updated] = await db
+      .update(aiProcessingJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(aiProcessingJobs.id, id), inArray(aiProcessingJobs.status, fromStatuses)))
+      .returning();
+    return updated;
+  }
+
+  // Newest first
+  async getCourseAiProcessingJobs(courseId: string, statuses?: AiProcessingJob['status'][]): Promise<AiProcessingJob[]> {
+    return db
+      .select()
+      .from(aiProcessingJobs)
+      .where(statuses && statuses.length > 0
+        ? and(eq(aiProcessingJobs.courseId, courseId), inArray(aiProcessingJobs.status, statuses))
+        : eq(aiProcessingJobs.courseId, courseId))
+      .orderBy(desc(aiProcessingJobs.createdAt));
+  }
+
+  // Jobs generating from the document, newest first
+  async getDocumentAiProcessingJobs(documentId: string, statuses: AiProcessingJob['status'][]): Promise<AiProcessingJob[]> {
+    return db
+      .select()
+      .from(aiProcessingJobs)
+      .where(and(
+        or(
+          eq(aiProcessingJobs.documentId, documentId),
+          sql`${aiProcessingJobs.documentIds} @> ${JSON.stringify([documentId])}::jsonb`
+        ),
+        inArray(aiProcessingJobs.status, statuses)
+      ))
+      .orderBy(desc(aiProcessingJobs.createdAt));
+  }
+
+  async createAiUsageEvent(event: InsertAiUsageEvent): Promise<AiUsageEvent> {
+    const [created] = await db.insert(aiUsageEvents).values(event).returning();
+    return created;
+  }
+
+  async getAiUsageTotals(filter: { userId?: string; jobId?: string; since?: Date }): Promise<AiUsageTotals> {
+    const conditions = [
+      filter.userId ? eq(aiUsageEvents.userId, filter.userId) : undefined,
+      filter.jobId ? eq(aiUsageEvents.jobId, filter.jobId) : undefined,
+      filter.since ? gte(aiUsageEvents.createdAt, filter.since) : undefined,
+    ].filter(condition => condition !== undefined);
+
+    const [totals] = await db
+      .select({
+        inputTokens: sql<number>`coalesce(sum(${aiUsageEvents.inputTokens}), 0)::integer`,
+        outputTokens: sql<number>`coalesce(sum(${aiUsageEvents.outputTokens}), 0)::integer`,
+        costUsd: sql<number>`coalesce(sum(${aiUsageEvents.costUsd}), 0)::float8`,
+        calls: sql<number>`count(*)::integer`,
+      })
+      .from(aiUsageEvents)
+      .where(and(...conditions));
+    return totals;
+  }
+
+  // Looks up an entry and counts the hit in the same statement
+  async useGenerationCacheEntry(key: string): Promise<GenerationCacheEntry | undefined> {
+    const [entry] = await db
+      .update(generationCache)
+      .set({ hits: sql`${generationCache.hits} + 1`, lastUsedAt: new Date() })
+      .where(eq(generationCache.key, key))
+      .returning();
+    return entry;
+  }
+
+  async saveGenerationCacheEntry(entry: InsertGenerationCacheEntry): Promise<void> {
+    await db
+      .insert(generationCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: generationCache.key,
+        set: { value: entry.value, documentIds: entry.documentIds, lastUsedAt: new Date() },
+      });
+  }
+
+  async deleteGenerationCacheEntriesForDocument(documentId: string): Promise<number> {
+    const deleted = await db
+      .delete(generationCache)
+      .where(sql`${generationCache.documentIds} @> ${JSON.stringify([documentId])}::jsonb`)
+      .returning({ key: generationCache.key });
+    return deleted.length;
+  }
+
+  // Jobs marked processing whose worker died: the lease ran out, or an unleased
+  // (pre-queue or in-request) job has not been touched for unleasedStaleMs
+  async getOrphanedAiProcessingJobs(unleasedStaleMs: number): Promise<AiProcessingJob[]> {
+    return db
+      .select()
+      .from(aiProcessingJobs)
+      .where(and(
+        eq(aiProcessingJobs.status, 'processing'),
+        or(
+          lt(aiProcessingJobs.leaseExpiresAt, sql`now()`),
+          and(
+            isNull(aiProcessingJobs.leaseExpiresAt),
+            lt(aiProcessingJobs.updatedAt, sql`now() - ${unleasedStaleMs}::integer * interval '1 millisecond'`)
+          )
+        )
+      ));
+  }
+
   // Learning metrics operations
   async getLearningMetrics(userId: string): Promise<LearningMetrics | undefined> {
     let [metrics] = await db.select().from(learningMetrics).where(eq(learningMetrics.userId, userId));
@@ -1,4 +1,5 @@
 // Utility functions for content deduplication and uniqueness validation
+import { findRepeats } from '../services/similarity';
 
 /**
  * Calculate similarity between two strings using Levenshtein distance
@@ -63,25 +64,6 @@ export function isTitleDuplicate(newTitle: string, existingTitles: string[], thr
   return false;
 }
 
-/**
- * Deduplicate an array of items based on their titles
- */
-export function deduplicateByTitle<T extends { title: string }>(items: T[], threshold: number = 0.85): T[] {
-  const unique: T[] = [];
-  const titles: string[] = [];
-  
-  for (const item of items) {
-    if (!isTitleDuplicate(item.title, titles, threshold)) {
-      unique.push(item);
-      titles.push(item.title);
-    } else {
-      console.log(`Removed duplicate: "${item.title}"`);
-    }
-  }
-  
-  return unique;
-}
-
 /**
  * Generate a unique title by appending a suffix if needed
  */
@@ -97,44 +79,70 @@ export function generateUniqueTitle(baseTitle: string, existingTitles: string[])
   return title;
 }
 
+// Lessons are compared on their title and the start of their content, so lessons that share a
+// generic title such as "Summary" in different modules are not taken for repeats
+const LESSON_EXCERPT_CHARS = 600;
+
+const moduleText = (module: any) => `${module.title}\n${module.description || ''}`;
+const lessonText = (lesson: any) =>
+  `${lesson.title}\n${String(lesson.content || '').replace(/<[^>]+>/g, ' ').slice(0, LESSON_EXCERPT_CHARS)}`;
+
+/**
+ * Every lesson of the course with its module, and every quiz question with where its quiz is
+ */
+function courseContent(courseStructure: any) {
+  const lessons: { lesson: any; module: any }[] = [];
+  const questions: { question: any; quiz: any; where: string }[] = [];
+  const addQuiz = (quiz: any, where: string) => {
+    for (const question of quiz?.questions || []) {
+      questions.push({ question, quiz, where });
+    }
+  };
+
+  for (const module of courseStructure.modules || []) {
+    for (const lesson of module.lessons || []) {
+      lessons.push({ lesson, module });
+      addQuiz(lesson.quiz, `lesson "${lesson.title}"`);
+    }
+    addQuiz(module.quiz, `module "${module.title}"`);
+  }
+  return { lessons, questions };
+}
+
 /**
- * Validate course structure for duplicate content
+ * Validate course structure for content repeated anywhere in the course: modules, lessons and quiz questions
+ * that say the same thing, compared by meaning rather than spelling
  */
-export function validateCourseStructure(courseStructure: any): {
+export async function validateCourseStructure(courseStructure: any): Promise<{
   isValid: boolean;
   issues: string[];
-} {
+}> {
   const issues: string[] = [];
-  const moduleTitles: string[] = [];
-  
-  // Check for duplicate module titles
-  for (const module of courseStructure.modules || []) {
-    if (isTitleDuplicate(module.title, moduleTitles, 0.85)) {
-      issues.push(`Duplicate module title detected: "${module.title}"`);
+  const modules = courseStructure.modules || [];
+  const { lessons, questions } = courseContent(courseStructure);
+
+  const moduleRepeats = await findRepeats(modules.map(moduleText));
+  moduleRepeats.forEach((repeat, index) => {
+    if (repeat !== -1) {
+      issues.push(`Duplicate module: "${modules[index].title}" repeats "${modules[repeat].title}"`);
     }
-    moduleTitles.push(module.title);
-    
-    // Check for duplicate lesson titles within each module
-    const lessonTitles: string[] = [];
-    for (const lesson of module.lessons || []) {
-      if (isTitleDuplicate(lesson.title, lessonTitles, 0.85)) {
-        issues.push(`Duplicate lesson title in module "${module.title}": "${lesson.title}"`);
-      }
-      lessonTitles.push(lesson.title);
+  });
+
+  const lessonRepeats = await findRepeats(lessons.map(entry => lessonText(entry.lesson)));
+  lessonRepeats.forEach((repeat, index) => {
+    if (repeat !== -1) {
+      const { lesson, module } = lessons[index];
+      issues.push(`Duplicate lesson in module "${module.title}": "${lesson.title}" repeats "${lessons[repeat].lesson.title}" in module "${lessons[repeat].module.title}"`);
     }
-    
-    // Check for duplicate quiz questions
-    if (module.quiz) {
-      const questions: string[] = [];
-      for (const q of module.quiz.questions || []) {
-        if (isTitleDuplicate(q.question, questions, 0.85)) {
-          issues.push(`Duplicate quiz question in module "${module.title}": "${q.question}"`);
-        }
-        questions.push(q.question);
-      }
+  });
+
+  const questionRepeats = await findRepeats(questions.map(entry => entry.question.question));
+  questionRepeats.forEach((repeat, index) => {
+    if (repeat !== -1) {
+      issues.push(`Duplicate quiz question in ${questions[index].where}: "${questions[index].question.question}" repeats a question in ${questions[repeat].where}`);
     }
-  }
-  
+  });
+
   return {
     isValid: issues.length === 0,
     issues
@@ -142,37 +150,44 @@ export function validateCourseStructure(courseStructure: any): {
 }
 
 /**
- * Clean and deduplicate course structure before saving
+ * Clean and deduplicate course structure before saving. A repeated lesson or question is removed from wherever it
+ * appears later in the course, except that no module loses its last lesson and no quiz its last question
  */
-export function cleanCourseStructure(courseStructure: any): any {
+export async function cleanCourseStructure(courseStructure: any): Promise<any> {
   const cleaned = { ...courseStructure };
-  
+  if (!cleaned.modules) return cleaned;
+
   // Deduplicate modules
-  if (cleaned.modules) {
-    cleaned.modules = deduplicateByTitle(cleaned.modules);
-    
-    // Deduplicate lessons within each module
-    for (const module of cleaned.modules) {
-      if (module.lessons) {
-        module.lessons = deduplicateByTitle(module.lessons);
-      }
-      
-      // Deduplicate quiz questions
-      if (module.quiz && module.quiz.questions) {
-        const uniqueQuestions: any[] = [];
-        const questionTexts: string[] = [];
-        
-        for (const q of module.quiz.questions) {
-          if (!isTitleDuplicate(q.question, questionTexts, 0.85)) {
-            uniqueQuestions.push(q);
-            questionTexts.push(q.question);
-          }
-        }
-        
-        module.quiz.questions = uniqueQuestions;
-      }
+  const moduleRepeats = await findRepeats(cleaned.modules.map(moduleText));
+  cleaned.modules = cleaned.modules.filter((module: any, index: number) => {
+    if (moduleRepeats[index] !== -1) {
+      console.log(`Removed duplicate module: "${module.title}"`);
+    }
+    return moduleRepeats[index] === -1;
+  });
+
+  // Deduplicate lessons across the course
+  const { lessons } = courseContent(cleaned);
+  const lessonRepeats = await findRepeats(lessons.map(entry => lessonText(entry.lesson)));
+  const repeatedLessons = new Set(lessons.filter((_, index) => lessonRepeats[index] !== -1).map(entry => entry.lesson));
+  for (const module of cleaned.modules) {
+    const kept = (module.lessons || []).filter((lesson: any) => !repeatedLessons.has(lesson));
+    if (kept.length > 0 && kept.length < module.lessons.length) {
+      console.log(`Removed ${module.lessons.length - kept.length} duplicate lesson(s) from module "${module.title}"`);
+      module.lessons = kept;
     }
   }
-  
+
+  // Deduplicate quiz questions across the course, in the lessons that are left
+  const { questions } = courseContent(cleaned);
+  const questionRepeats = await findRepeats(questions.map(entry => entry.question.question));
+  const repeatedQuestions = new Set(questions.filter((_, index) => questionRepeats[index] !== -1).map(entry => entry.question));
+  for (const quiz of Array.from(new Set(questions.map(entry => entry.quiz)))) {
+    const kept = quiz.questions.filter((question: any) => !repeatedQuestions.has(question));
+    if (kept.length > 0) {
+      quiz.questions = kept;
+    }
+  }
+
   return cleaned;
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import { validateEnvironment } from "./env-check.js";
+import { log } from "./vite.js";
+import { jobWorker } from "./services/jobQueue";
+
+// Standalone AI job worker. Run alongside the web server (with
+// AI_WORKER_MODE=external set there) to process generation jobs out of process.
+(async () => {
+  try {
+    validateEnvironment();
+  } catch (error) {
+    log(`Environment validation failed: ${error instanceof Error ? error.message : String(error)}`, "worker");
+    process.exit(1);
+  }
+
+  await jobWorker.start();
+  log(`worker ${jobWorker.workerId} polling for AI jobs`, "worker");
+
+  const shutdown = async (signal: string) => {
+    log(`received ${signal}, finishing current job before exit`, "worker");
+    await jobWorker.stop();
+    process.exit(0);
+  };
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+})();
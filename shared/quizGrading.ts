@@ -0,0 +1,68 @@
+import type { LearnerQuizQuestion, QuizAnswer, QuizQuestion } from './schema';
+
+// Case, spacing and trailing punctuation don't make a typed answer wrong
+export function normalizeAnswerText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?;,]+$/, '');
+}
+
+// The correct option of a multiple choice question. The quiz editor used to store its index instead of its text
+export function correctOption(question: QuizQuestion): string | undefined {
+  const { options = [], correctAnswer } = question;
+  if (correctAnswer !== undefined && !options.includes(correctAnswer) && /^\d+$/.test(correctAnswer)) {
+    return options[Number(correctAnswer)];
+  }
+  return correctAnswer;
+}
+
+// Every part of the question has an answer; matching needs a pick for each pair.
+// Learners only see the prompts of a matching question, not its pairs
+export function isAnswered(question: QuizQuestion | LearnerQuizQuestion, answer: QuizAnswer | undefined): boolean {
+  if (answer === undefined) return false;
+  if (!Array.isArray(answer)) return answer.trim() !== '';
+  if (question.type === 'matching') {
+    const parts = 'pairs' in question && question.pairs ? question.pairs.length : ('prompts' in question ? question.prompts?.length ?? 0 : 0);
+    return answer.length === parts && answer.every(right => !!right);
+  }
+  return answer.length > 0;
+}
+
+/**
+ * Credit for an answer, from 0 to 1. Multi-select needs exactly the correct
+ * options; matching and ordering earn a share for each pair matched or item
+ * in its place. Short answers return null: they are graded against their
+ * rubric by the model.
+ */
+export function gradeAnswer(question: QuizQuestion, answer: QuizAnswer | undefined): number | null {
+  if (question.type === 'short_answer') return null;
+  if (!isAnswered(question, answer)) return 0;
+  const text = typeof answer === 'string' ? answer : '';
+  const list = Array.isArray(answer) ? answer : [];
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return text === correctOption(question) ? 1 : 0;
+    case 'true_false':
+      return normalizeAnswerText(text) === normalizeAnswerText(question.correctAnswer ?? '') ? 1 : 0;
+    case 'multi_select': {
+      const correct = new Set(question.correctAnswers ?? []);
+      const chosen = new Set(list);
+      return chosen.size === correct.size && Array.from(chosen).every(option => correct.has(option)) ? 1 : 0;
+    }
+    case 'fill_blank':
+      return (question.acceptedAnswers ?? []).some(accepted => normalizeAnswerText(accepted) === normalizeAnswerText(text)) ? 1 : 0;
+    case 'matching': {
+      const pairs = question.pairs ?? [];
+      return pairs.length === 0 ? 0 : pairs.filter((pair, index) => list[index] === pair.right).length / pairs.length;
+    }
+    case 'ordering': {
+      const items = question.items ?? [];
+      return items.length === 0 ? 0 : items.filter((item, index) => list[index] === item).length / items.length;
+    }
+  }
+}
+
+// Percentage score of a quiz from the credit earned on each question
+export function quizScore(credits: number[]): number {
+  if (credits.length === 0) return 0;
+  return Math.round((credits.reduce((sum, credit) => sum + credit, 0) / credits.length) * 100);
+}
@@ -0,0 +1,228 @@
+import { correctOption, normalizeAnswerText } from './quizGrading';
+import type { QuizQualityFlag, QuizQualityIssue, QuizQuestion, QuizQuestionType } from './schema';
+
+// Options that refer to the other options, e.g. "All of the above", "None of these" or "A and C"
+const OPTION_REFERENCE_PATTERN = /^(all|none|both|neither) of (the )?(above|these|the options|the answers)$|^(both )?(options? )?[a-h] and [a-h]$/;
+// An answer given as its option's letter, e.g. "B", "(b)" or "Option B"
+const OPTION_LETTER_PATTERN = /^(?:option\s+)?\(?([a-h])[).:]?$/i;
+// A letter a model copies from its own options list, e.g. "B) Paris"
+const LETTER_PREFIX_PATTERN = /^\(?[a-h][).:]\s+/i;
+const TRUE_ANSWERS = ['true', 't', 'yes', 'correct', 'right'];
+const FALSE_ANSWERS = ['false', 'f', 'no', 'incorrect', 'wrong'];
+// Options a question keeps when a repair removes one, as the question schema requires
+const MIN_OPTIONS: Partial<Record<QuizQuestionType, number>> = { multiple_choice: 2, multi_select: 3 };
+// Share of an answer's key words the source has to contain for the answer to count as supported
+const MIN_SOURCE_SUPPORT = 0.5;
+// Share of key words a distractor may have in common with the answer before both read as correct
+const MAX_OPTION_OVERLAP = 0.8;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'his', 'how', 'its', 'may', 'who', 'did', 'does', 'each', 'from', 'have', 'into', 'more', 'most', 'only',
+  'other', 'over', 'same', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'those', 'very', 'what', 'when', 'where', 'which', 'while', 'with', 'would', 'about', 'also', 'been',
+  'being', 'between', 'both', 'could', 'should', 'will', 'your', 'were', 'because', 'true', 'false',
+]);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const sameText = (a: string, b: string) => normalizeAnswerText(a) === normalizeAnswerText(b);
+
+const refersToOptions = (option: string) => OPTION_REFERENCE_PATTERN.test(normalizeAnswerText(option));
+
+// Key words of a text, lowercased and without plural endings so "cells" matches "cell"
+function keyWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]+>/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Whether a distractor says much the same as the answer: one's key words contain the other's, or nearly all are shared
+function tooAlike(distractor: string, answer: string): boolean {
+  const a = new Set(keyWords(distractor));
+  const b = new Set(keyWords(answer));
+  if (a.size === 0 || b.size === 0) return false;
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return shared === Math.min(a.size, b.size) || shared / Math.max(a.size, b.size) >= MAX_OPTION_OVERLAP;
+}
+
+// The option an answer means when it names the option by letter or differs from it in case, spacing or a letter prefix
+function matchOption(answer: string, options: string[]): string | undefined {
+  if (options.includes(answer)) return answer;
+  const letter = OPTION_LETTER_PATTERN.exec(answer.trim());
+  if (letter) return options[letter[1].toLowerCase().charCodeAt(0) - 97];
+  const unprefixed = answer.trim().replace(LETTER_PREFIX_PATTERN, '');
+  return options.find(option => sameText(option, unprefixed) || sameText(option.replace(LETTER_PREFIX_PATTERN, ''), unprefixed));
+}
+
+/**
+ * Fix what can be fixed without changing what a question asks: true/false
+ * answers written as "yes" or "correct", answers that name their option by
+ * letter or in different case, repeated options, and distractors such as
+ * "All of the above" when enough options remain without them. Each fix is
+ * noted in the question's quality flags. Model output is repaired before it
+ * is validated, so fields are checked for their type first.
+ */
+export function repairQuestion(question: QuizQuestion): QuizQuestion {
+  const fixes: QuizQualityFlag[] = [];
+  const fix = (issue: QuizQualityIssue, message: string) => fixes.push({ issue, message, repaired: true });
+  const repaired: QuizQuestion = { ...question };
+
+  if (repaired.type === 'true_false' && typeof repaired.correctAnswer === 'string') {
+    const answer = normalizeAnswerText(repaired.correctAnswer);
+    const canonical = TRUE_ANSWERS.includes(answer) ? 'True' : FALSE_ANSWERS.includes(answer) ? 'False' : undefined;
+    if (canonical && answer !== canonical.toLowerCase()) {
+      fix('non_boolean_answer', `The answer "${repaired.correctAnswer}" was read as "${canonical}".`);
+    }
+    if (canonical) repaired.correctAnswer = canonical;
+  }
+
+  if ((repaired.type === 'multiple_choice' || repaired.type === 'multi_select') && isStringList(repaired.options)) {
+    // Answers are matched against the options as written, since a letter counts their position
+    const resolve = (answer: string) => {
+      const option = matchOption(answer, repaired.options!);
+      if (option === undefined || option === answer) return answer;
+      fix('answer_not_in_options', `The answer "${answer}" was matched to the option "${option}".`);
+      return option;
+    };
+    if (repaired.type === 'multiple_choice' && typeof repaired.correctAnswer === 'string') {
+      repaired.correctAnswer = resolve(repaired.correctAnswer);
+    }
+    if (repaired.type === 'multi_select' && isStringList(repaired.correctAnswers)) {
+      repaired.correctAnswers = repaired.correctAnswers.map(resolve);
+    }
+
+    // The first of repeated options is kept, and answers pointing at a later copy point at it instead
+    const options: string[] = [];
+    for (const option of repaired.options) {
+      if (options.some(kept => sameText(kept, option))) {
+        fix('duplicate_options', `Removed the repeated option "${option}".`);
+      } else {
+        options.push(option);
+      }
+    }
+    const kept = (answer: string) => options.find(option => sameText(option, answer)) ?? answer;
+    if (typeof repaired.correctAnswer === 'string' && repaired.type === 'multiple_choice') {
+      repaired.correctAnswer = kept(repaired.correctAnswer);
+    }
+    if (isStringList(repaired.correctAnswers) && repaired.type === 'multi_select') {
+      repaired.correctAnswers = Array.from(new Set(repaired.correctAnswers.map(kept)));
+    }
+
+    // Distractors that refer to the other options go while the question keeps enough options; correct ones are flagged instead
+    const answers = repaired.type === 'multiple_choice' ? [repaired.correctAnswer] : repaired.correctAnswers ?? [];
+    for (const option of options.filter(refersToOptions)) {
+      if (!answers.includes(option) && options.length > (MIN_OPTIONS[repaired.type] ?? 0)) {
+        options.splice(options.indexOf(option), 1);
+        fix('all_of_the_above', `Removed the option "${option}".`);
+      }
+    }
+    repaired.options = options;
+  }
+
+  if (fixes.length === 0) return question;
+  return { ...repaired, qualityFlags: [...(question.qualityFlags ?? []), ...fixes] };
+}
+
+// Texts whose key words the source has to contain; the answer counts as supported when any one of them is
+function answerTexts(question: QuizQuestion): string[] {
+  switch (question.type) {
+    case 'multiple_choice':
+    case 'multi_select': {
+      // Answers such as "All of the above" are flagged on their own
+      const answers = question.type === 'multiple_choice' ? [correctOption(question) ?? ''] : question.correctAnswers ?? [];
+      return [answers.filter(answer => !refersToOptions(answer)).join(' ')];
+    }
+    case 'true_false':
+      // The statement itself: a false one is still about something the source covers
+      return [question.question];
+    case 'fill_blank':
+      return question.acceptedAnswers ?? [];
+    case 'matching':
+      return [(question.pairs ?? []).map(pair => `${pair.left} ${pair.right}`).join(' ')];
+    case 'ordering':
+      return [(question.items ?? []).join(' ')];
+    case 'short_answer':
+      return [question.correctAnswer || question.rubric || ''];
+  }
+}
+
+// Key words of the answer missing from the source, when too many are missing for the source to support it
+function unsupportedWords(question: QuizQuestion, source: string): string[] {
+  const sourceWords = new Set(keyWords(source));
+  let best: string[] | undefined;
+  for (const text of answerTexts(question)) {
+    const words = Array.from(new Set(keyWords(text)));
+    const missing = words.filter(word => !sourceWords.has(word));
+    if (words.length === 0 || missing.length / words.length <= 1 - MIN_SOURCE_SUPPORT) return [];
+    if (!best || missing.length < best.length) best = missing;
+  }
+  return best ?? [];
+}
+
+/**
+ * Problems a creator has to resolve in a question: an answer that is not one
+ * of the options, repeated options, a distractor that says much the same as
+ * the answer, options that refer to the other options, and true/false
+ * answers that are neither. With the `source` the question was generated
+ * from, answers whose key words are mostly missing from it are flagged too.
+ */
+export function checkQuestion(question: QuizQuestion, source?: string): QuizQualityFlag[] {
+  const flags: QuizQualityFlag[] = [];
+  const flag = (issue: QuizQualityIssue, message: string) => flags.push({ issue, message });
+  const options = question.options ?? [];
+
+  if (question.type === 'multiple_choice' || question.type === 'multi_select') {
+    options.forEach((option, index) => {
+      if (options.slice(0, index).some(earlier => sameText(earlier, option))) {
+        flag('duplicate_options', `"${option}" is listed more than once.`);
+      }
+    });
+
+    const answers = question.type === 'multiple_choice' ? [correctOption(question) ?? ''] : question.correctAnswers ?? [];
+    for (const answer of answers) {
+      if (!options.includes(answer)) {
+        flag('answer_not_in_options', `The correct answer "${answer}" is not one of the options.`);
+      }
+    }
+
+    for (const option of options.filter(refersToOptions)) {
+      flag('all_of_the_above', answers.includes(option)
+        ? `The correct answer "${option}" refers to the other options instead of standing on its own.`
+        : `The option "${option}" refers to the other options, so learners can answer by elimination.`);
+    }
+
+    if (question.type === 'multiple_choice' && options.includes(answers[0])) {
+      for (const option of options) {
+        if (option !== answers[0] && !sameText(option, answers[0]) && tooAlike(option, answers[0])) {
+          flag('multiple_answers', `"${option}" could also be defended as correct: it says much the same as the answer "${answers[0]}".`);
+        }
+      }
+    }
+  }
+
+  if (question.type === 'true_false' && !/^(true|false)$/i.test(question.correctAnswer ?? '')) {
+    flag('non_boolean_answer', `The answer "${question.correctAnswer ?? ''}" is neither True nor False.`);
+  }
+
+  if (source !== undefined) {
+    const missing = unsupportedWords(question, source);
+    if (missing.length > 0) {
+      const words = missing.slice(0, 3).map(word => `"${word}"`).join(', ');
+      flag('unsupported_answer', `The answer may not be supported by the lesson: ${words}${missing.length > 3 ? ' and more' : ''} ${missing.length === 1 ? 'does' : 'do'} not appear in it.`);
+    }
+  }
+
+  return flags;
+}
+
+// A generated question as it is saved: repaired, then flagged with what is left for the creator to resolve
+export function reviewQuestion(question: QuizQuestion, source: string): QuizQuestion {
+  const repaired = repairQuestion(question);
+  const flags = [...(repaired.qualityFlags ?? []), ...checkQuestion(repaired, source)];
+  return flags.length > 0 ? { ...repaired, qualityFlags: flags } : repaired;
+}
@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
@@ -19,12 +20,222 @@ export interface SourceReference {
   documentId: string;
   documentName: string;
   pageNumber?: number;
-  startOffset: number;
+  sectionTitle?: string;
+  chunkId?: string; // Document chunk the citation was resolved from
+  startOffset: number; // Character offsets into the document's processedContent
   endOffset: number;
   text: string;
   context?: string;
 }
 
+// Who wrote a message of a tutor conversation
+export const TUTOR_MESSAGE_ROLES = ['learner', 'tutor'] as const;
+export type TutorMessageRole = typeof TUTOR_MESSAGE_ROLES[number];
+
+// How far the source passages back one sentence of a lesson
+export const GROUNDING_VERDICTS = ['supported', 'partial', 'unsupported'] as const;
+export type GroundingVerdict = typeof GROUNDING_VERDICTS[number];
+
+// A sentence of a lesson checked against the source passages that best match it
+export interface GroundedClaim {
+  sentence: string; // as the lesson reads, without citation markers
+  verdict: GroundingVerdict;
+  note?: string; // what the sources don't back
+  documentName?: string; // of the closest passage
+  passage?: string; // the closest source passage
+}
+
+// The grounding check of a lesson. The score is the share of its claims the sources back, from 0 to 100,
+// a partly supported claim counting half
+export interface LessonGrounding {
+  score: number;
+  checkedAt: string;
+  claims: GroundedClaim[];
+}
+
+// Bloom's taxonomy levels, from recalling facts up to producing original work
+export const BLOOM_LEVELS = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'] as const;
+export type BloomLevel = typeof BLOOM_LEVELS[number];
+
+// What a learner should be able to do after a module or lesson. Quiz questions point at it by id
+export interface LearningObjective {
+  id: string;
+  text: string;
+  bloomLevel: BloomLevel;
+}
+
+// Question types a quiz can hold; short answers are graded against a rubric by the model
+export const QUIZ_QUESTION_TYPES = ['multiple_choice', 'true_false', 'multi_select', 'fill_blank', 'matching', 'ordering', 'short_answer'] as const;
+export type QuizQuestionType = typeof QUIZ_QUESTION_TYPES[number];
+// Types generated when the creator doesn't choose any
+export const DEFAULT_QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['multiple_choice', 'true_false'];
+
+// Difficulty of a question bank item, used by a quiz's draw rules
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+// How a quiz assembles each attempt from its module's question bank, e.g.
+// 5 questions with at least one per lesson, 2 of them hard and 3 medium
+export interface QuizBankDraw {
+  questionCount: number;
+  minPerLesson?: number;
+  difficultyCounts?: Partial<Record<QuestionDifficulty, number>>;
+}
+
+// Problems the quality check looks for in a question
+export const QUIZ_QUALITY_ISSUES = [
+  'answer_not_in_options',
+  'duplicate_options',
+  'multiple_answers',
+  'all_of_the_above',
+  'non_boolean_answer',
+  'unsupported_answer',
+] as const;
+export type QuizQualityIssue = typeof QUIZ_QUALITY_ISSUES[number];
+
+// A problem found in a generated question. Repaired ones were fixed automatically and are kept as a note for the creator
+export interface QuizQualityFlag {
+  issue: QuizQualityIssue;
+  message: string;
+  repaired?: boolean;
+}
+
+// A matching question's item on the left and the item on the right that belongs to it
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+// One quiz question. Which answer fields are set depends on its type
+export interface QuizQuestion {
+  question: string;
+  type: QuizQuestionType;
+  options?: string[]; // multiple_choice and multi_select
+  correctAnswer?: string; // multiple_choice and true_false; for short_answer a model answer
+  correctAnswers?: string[]; // multi_select: every option that must be selected
+  acceptedAnswers?: string[]; // fill_blank: the answer and its accepted variants
+  pairs?: MatchingPair[]; // matching
+  items?: string[]; // ordering: the items in their correct order
+  rubric?: string; // short_answer: what a full-credit answer must say
+  explanation?: string;
+  objectiveId?: string;
+  qualityFlags?: QuizQualityFlag[]; // set on generated questions until the creator dismisses them
+}
+
+// A learner's answer: the chosen option or typed text, or a list for
+// multi_select (chosen options), matching (the right item picked for each
+// pair) and ordering (the items in the learner's order)
+export type QuizAnswer = string | string[];
+
+// A short answer graded against its rubric: credit from 0 to 1 and why
+export interface ShortAnswerGrade {
+  score: number;
+  explanation: string;
+}
+
+// A question as learners see it before submitting: no answers or explanations,
+// and matching and ordering items shuffled. Matching answers follow the order of `prompts`
+export interface LearnerQuizQuestion {
+  question: string;
+  type: QuizQuestionType;
+  options?: string[]; // multiple_choice and multi_select
+  prompts?: string[]; // matching: the left-hand items
+  choices?: string[]; // matching: the right-hand items
+  items?: string[]; // ordering
+}
+
+// How one question of a submitted attempt was graded. Correct means full credit
+export interface QuestionResult {
+  credit: number;
+  correct: boolean;
+  feedback?: string; // why a short answer earned its credit
+}
+
+// The server's answer to a submitted quiz attempt
+export interface QuizAttemptResult {
+  attempt: LearnerQuizAttempt;
+  passed: boolean;
+  results: QuestionResult[];
+  attemptsRemaining: number | null; // null when attempts are unlimited
+  questions?: QuizQuestion[]; // with answers and explanations, once the learner passed or used every attempt
+}
+
+// Fine-grained progress inside a job phase, e.g. lesson 4 of 12
+export interface JobProgressDetail {
+  step: 'document' | 'section' | 'module' | 'lesson';
+  current: number;
+  total: number;
+  title?: string;
+}
+
+// What a finished generation job produced
+export interface GenerationSummary {
+  courseId: string;
+  title: string;
+  moduleCount: number;
+  lessonCount: number;
+  quizCount: number;
+}
+
+// Schema validation of one kind of model call (e.g. generateQuizQuestions) during a job
+export interface LLMCallValidationStats {
+  calls: number;
+  validFirstTime: number;
+  repaired: number; // valid only after the model was sent its validation errors
+  failed: number; // still invalid once the repair attempts ran out
+  repairAttempts: number;
+  lastIssues?: string[]; // field-level errors of the most recent invalid response
+}
+
+export type LLMValidationStats = Record<string, LLMCallValidationStats>;
+
+// A creator's AI spend in the current calendar month (UTC) against their token quota
+export interface AiUsageSummary {
+  periodStart: string;
+  periodEnd: string;
+  quotaTokens: number;
+  usedTokens: number;
+  remainingTokens: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  calls: number;
+}
+
+// The latest analysis of a course's source documents, shown in the editor's insights panel
+export interface DocumentInsights {
+  jobId: string;
+  analyzedAt: string | null;
+  documents: { id: string; fileName: string }[];
+  analysis: DocumentAnalysis;
+}
+
+// Which learning objectives of a course its quiz questions assess
+export interface ObjectiveCoverage {
+  objectives: {
+    objective: LearningObjective;
+    moduleId: string;
+    lessonId?: string;
+    title: string; // module or lesson the objective belongs to
+    questionCount: number;
+  }[];
+  coveredCount: number;
+  questionCount: number;
+  unlinkedQuestionCount: number; // questions that assess none of the course's objectives
+}
+
+// A learner's flashcard review queue: cards due again, then new cards up to the daily limit
+export interface FlashcardReviewQueue {
+  cards: (Flashcard & {
+    courseId: string;
+    courseTitle: string;
+    moduleTitle: string;
+    schedule: FlashcardSchedule | null; // null for a card the learner has never reviewed
+  })[];
+  dueCount: number;
+  newCount: number;
+}
+
 // Session storage table for authentication
 export const sessions = pgTable(
   "sessions",
@@ -51,6 +262,7 @@ export const users = pgTable("users", {
   appleId: varchar("apple_id").unique(),
   linkedinId: varchar("linkedin_id").unique(),
   authProvider: varchar("auth_provider", { enum: ['local', 'google', 'apple', 'linkedin'] }).default('local'),
+  aiMonthlyTokenQuota: integer("ai_monthly_token_quota"), // overrides AI_MONTHLY_TOKEN_QUOTA for this creator
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -63,11 +275,30 @@ export const documents = pgTable("documents", {
   fileType: varchar("file_type").notNull(),
   storageUrl: varchar("storage_url").notNull(),
   processedContent: text("processed_content"),
+  processingError: text("processing_error"), // Readable reason when text extraction fails
+  contentHash: varchar("content_hash"), // sha256 of the uploaded file, set on extraction
   uploadedBy: varchar("uploaded_by").notNull(),
   status: varchar("status", { enum: ['pending', 'processing', 'completed', 'failed'] }).notNull().default('pending'),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Document chunks table - addressable spans of a document's processedContent used for citations
+export const documentChunks = pgTable(
+  "document_chunks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    documentId: varchar("document_id").notNull(),
+    chunkIndex: integer("chunk_index").notNull(),
+    pageNumber: integer("page_number"), // null for sources without pages (txt, md, docx)
+    sectionTitle: varchar("section_title"),
+    startOffset: integer("start_offset").notNull(),
+    endOffset: integer("end_offset").notNull(),
+    content: text("content").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_document_chunks_document").on(table.documentId)],
+);
+
 // Course Templates table
 export const courseTemplates = pgTable("course_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -100,6 +331,7 @@ export const courses = pgTable("courses", {
   rating: real("rating").default(0),
   enrollmentCount: integer("enrollment_count").default(0),
   completionRate: real("completion_rate").default(0),
+  tutorEnabled: boolean("tutor_enabled").notNull().default(true), // whether enrolled learners can ask the AI tutor
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -120,6 +352,7 @@ export const modules = pgTable("modules", {
   description: text("description"),
   orderIndex: integer("order_index").notNull(),
   estimatedDuration: integer("estimated_duration"), // in minutes
+  objectives: jsonb("objectives").$type<LearningObjective[]>().default([]),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -134,6 +367,8 @@ export const lessons = pgTable("lessons", {
   videoUrl: varchar("video_url"),
   attachments: jsonb("attachments").$type<string[]>().default([]),
   sourceReferences: jsonb("source_references").$type<SourceReference[]>().default([]),
+  objectives: jsonb("objectives").$type<LearningObjective[]>().default([]),
+  grounding: jsonb("grounding").$type<LessonGrounding>(), // null until checked, and again once the content changes
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -143,12 +378,70 @@ export const quizzes = pgTable("quizzes", {
   lessonId: varchar("lesson_id"),
   moduleId: varchar("module_id"),
   title: varchar("title").notNull(),
-  questions: jsonb("questions").notNull(),
+  questions: jsonb("questions").$type<QuizQuestion[]>().notNull(), // each question may carry the objectiveId of the objective it assesses
   passingScore: integer("passing_score").default(70),
-  maxAttempts: integer("max_attempts").default(3),
+  maxAttempts: integer("max_attempts").default(3), // null or 0 allows unlimited attempts
+  bankDraw: jsonb("bank_draw").$type<QuizBankDraw>(), // set: each attempt draws from the module's question bank instead of showing `questions`
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Question bank items table - a module's pool of questions that bank-drawn quizzes sample from
+export const questionBankItems = pgTable("question_bank_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  moduleId: varchar("module_id").notNull(),
+  lessonId: varchar("lesson_id"), // null for questions on the module as a whole
+  question: jsonb("question").$type<QuizQuestion>().notNull(),
+  difficulty: varchar("difficulty").$type<QuestionDifficulty>().notNull().default('medium'),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_question_bank_items_module").on(table.moduleId),
+]);
+
+// Glossary terms table - a course's jargon with definitions, highlighted in lessons
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull(),
+  term: varchar("term").notNull(),
+  definition: text("definition").notNull(),
+  sourceReference: jsonb("source_reference").$type<SourceReference>(), // passage the definition is taken from
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_glossary_terms_course").on(table.courseId),
+]);
+
+// Flashcards table - a module's deck of memorization cards, generated from its lessons
+export const flashcards = pgTable("flashcards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  moduleId: varchar("module_id").notNull(),
+  front: text("front").notNull(), // prompt, e.g. a term or question
+  back: text("back").notNull(), // answer the learner recalls
+  orderIndex: integer("order_index").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_flashcards_module").on(table.moduleId),
+]);
+
+// Flashcard schedules table - each learner's SM-2 review state for a card
+export const flashcardSchedules = pgTable("flashcard_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  learnerId: varchar("learner_id").notNull(),
+  flashcardId: varchar("flashcard_id").notNull(),
+  easeFactor: real("ease_factor").notNull().default(2.5),
+  intervalDays: integer("interval_days").notNull().default(0),
+  repetitions: integer("repetitions").notNull().default(0), // successful reviews in a row
+  dueAt: timestamp("due_at").notNull(),
+  lastQuality: integer("last_quality"), // 0-5 self-grade of the latest review
+  reviewCount: integer("review_count").notNull().default(0),
+  firstReviewedAt: timestamp("first_reviewed_at").defaultNow(), // counts new cards against the daily limit
+  lastReviewedAt: timestamp("last_reviewed_at"),
+}, (table) => [
+  uniqueIndex("UQ_flashcard_schedules_learner_card").on(table.learnerId, table.flashcardId),
+  index("IDX_flashcard_schedules_learner_due").on(table.learnerId, table.dueAt),
+]);
+
 // Enrollments table
 export const enrollments = pgTable("enrollments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -177,11 +470,27 @@ export const quizAttempts = pgTable("quiz_attempts", {
   quizId: varchar("quiz_id").notNull(),
   learnerId: varchar("learner_id").notNull(),
   score: integer("score").notNull(),
-  answers: jsonb("answers").notNull(),
+  answers: jsonb("answers").$type<Record<string, QuizAnswer>>().notNull(), // keyed by question index
+  results: jsonb("results").$type<QuestionResult[]>(), // per-question grading; attempts graded in the browser have none
   attemptNumber: integer("attempt_number").notNull(),
+  seed: integer("seed"), // bank-drawn attempts: the seed the questions were drawn and shuffled with
+  questions: jsonb("questions").$type<QuizQuestion[]>(), // bank-drawn attempts: the drawn questions in the order served; answers index into them
   completedAt: timestamp("completed_at").defaultNow(),
 });
 
+// Tutor messages table - each learner's conversation with a course's AI tutor, oldest first
+export const tutorMessages = pgTable("tutor_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull(),
+  learnerId: varchar("learner_id").notNull(),
+  role: varchar("role", { enum: TUTOR_MESSAGE_ROLES }).notNull(),
+  content: text("content").notNull(), // plain text; tutor answers cite sources with [n] markers
+  sourceReferences: jsonb("source_references").$type<SourceReference[]>().default([]), // back the [n] markers of tutor answers
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_tutor_messages_learner_course").on(table.learnerId, table.courseId, table.createdAt),
+]);
+
 // Learning Metrics table for tracking study time and streaks
 export const learningMetrics = pgTable("learning_metrics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -213,37 +522,280 @@ export const dailyActivity = pgTable("daily_activity", {
 // AI processing jobs table
 export const aiProcessingJobs = pgTable("ai_processing_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  documentId: varchar("document_id").notNull(),
-  status: varchar("status", { enum: ['pending', 'processing', 'completed', 'failed'] }).notNull().default('pending'),
+  documentId: varchar("document_id").notNull(), // primary (first) input document
+  documentIds: jsonb("document_ids").$type<string[]>().default([]), // every input document, in merge order
+  courseId: varchar("course_id"), // course being built; set for queued jobs
+  userId: varchar("user_id"), // creator who requested the generation
+  options: jsonb("options").$type<Record<string, any>>().default({}), // AIGenerationOptions for the run
+  // awaiting_review: outline drafted, waiting for the creator to approve it before lessons are written
+  status: varchar("status", { enum: ['pending', 'processing', 'awaiting_review', 'completed', 'failed', 'cancelled'] }).notNull().default('pending'),
   phase: varchar("phase", { enum: ['document_analysis', 'content_analysis', 'content_generation', 'validation', 'finalization'] }),
   progress: integer("progress").default(0), // 0-100
-  result: jsonb("result"),
+  progressMessage: text("progress_message"), // human readable step, e.g. "Generating lesson 4 of 12: Pricing"
+  progressDetail: jsonb("progress_detail").$type<JobProgressDetail>(),
+  result: jsonb("result"), // phase checkpoints while running, final output once completed
   error: text("error"),
+  failedStep: text("failed_step"), // step the last failed attempt stopped at, e.g. "finalization: quiz for lesson 2.3"
+  validationStats: jsonb("validation_stats").$type<LLMValidationStats>(), // per model call, across attempts
+  // Queue bookkeeping
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after").defaultNow(), // not claimable before this time (retry backoff)
+  leaseOwner: varchar("lease_owner"), // worker currently holding the job
+  leaseExpiresAt: timestamp("lease_expires_at"), // extended by worker heartbeats
+  heartbeatAt: timestamp("heartbeat_at"),
+  cancelRequestedAt: timestamp("cancel_requested_at"), // worker stops at the next phase boundary
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_ai_processing_jobs_queue").on(table.status, table.runAfter),
+]);
+
+// AI usage events table - one row per model call, for cost accounting and quotas
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  jobId: varchar("job_id"), // generation job the call belonged to, if any
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  call: varchar("call").notNull(), // e.g. analyzeDocument, generateQuizQuestions
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  costUsd: real("cost_usd").notNull().default(0), // estimated at the prices configured when the call was made
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_ai_usage_events_user").on(table.userId, table.createdAt),
+  index("IDX_ai_usage_events_job").on(table.jobId),
+]);
+
+// Generation cache - expensive results keyed by a hash of their inputs, reused across jobs
+export const generationCache = pgTable("generation_cache", {
+  key: varchar("key").primaryKey(), // sha256 of kind, provider and the hashed inputs
+  kind: varchar("kind", { enum: ['extraction', 'analysis', 'section_outline', 'glossary'] }).notNull(),
+  documentIds: jsonb("document_ids").$type<string[]>().notNull(), // entries are dropped when one of these is replaced
+  value: jsonb("value").notNull(),
+  hits: integer("hits").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at").defaultNow(),
 });
 
+export const learningObjectiveSchema = z.object({
+  id: z.string().trim().min(1),
+  text: z.string().trim().min(1),
+  bloomLevel: z.enum(BLOOM_LEVELS),
+});
+
+// Objectives as a model writes them; ids are assigned when the course is saved
+export const generatedObjectiveSchema = learningObjectiveSchema.omit({ id: true });
+
+export const lessonGroundingSchema: z.ZodType<LessonGrounding> = z.object({
+  score: z.number().min(0).max(100),
+  checkedAt: z.string(),
+  claims: z.array(z.object({
+    sentence: z.string(),
+    verdict: z.enum(GROUNDING_VERDICTS),
+    note: z.string().optional(),
+    documentName: z.string().optional(),
+    passage: z.string().optional(),
+  })),
+});
+
+const quizText = z.string().trim().min(1);
+// Fill-in-the-blank questions mark the blank with a run of underscores
+export const QUIZ_BLANK_PATTERN = /_{3,}/;
+
+export const quizQuestionSchema: z.ZodType<QuizQuestion> = z.object({
+  question: quizText,
+  type: z.enum(QUIZ_QUESTION_TYPES),
+  options: z.array(quizText).optional(),
+  correctAnswer: z.string().trim().optional(),
+  correctAnswers: z.array(quizText).optional(),
+  acceptedAnswers: z.array(quizText).optional(),
+  pairs: z.array(z.object({ left: quizText, right: quizText })).optional(),
+  items: z.array(quizText).optional(),
+  rubric: z.string().trim().optional(),
+  explanation: z.string().optional(),
+  objectiveId: z.string().optional(),
+  qualityFlags: z.array(z.object({
+    issue: z.enum(QUIZ_QUALITY_ISSUES),
+    message: z.string(),
+    repaired: z.boolean().optional(),
+  })).optional(),
+}).superRefine((question, ctx) => {
+  const issue = (path: string, message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  const distinct = (values: string[]) => new Set(values.map(value => value.toLowerCase())).size === values.length;
+
+  switch (question.type) {
+    case 'multiple_choice':
+      if (!question.options || question.options.length < 2) {
+        issue('options', 'Multiple choice questions need at least 2 options');
+      } else if (!question.correctAnswer || !question.options.includes(question.correctAnswer)) {
+        issue('correctAnswer', 'Must be exactly one of the options');
+      }
+      break;
+    case 'true_false':
+      if (!/^(true|false)$/i.test(question.correctAnswer ?? '')) {
+        issue('correctAnswer', 'Must be "True" or "False"');
+      }
+      break;
+    case 'multi_select':
+      if (!question.options || question.options.length < 3) {
+        issue('options', 'Multi-select questions need at least 3 options');
+      } else if (!question.correctAnswers?.length || !question.correctAnswers.every(answer => question.options!.includes(answer))) {
+        issue('correctAnswers', 'Must list at least one answer, each exactly one of the options');
+      }
+      break;
+    case 'fill_blank':
+      if (!QUIZ_BLANK_PATTERN.test(question.question)) {
+        issue('question', 'Mark the blank with at least three underscores, e.g. "The ___ of a loan"');
+      }
+      if (!question.acceptedAnswers?.length) {
+        issue('acceptedAnswers', 'List at least one accepted answer');
+      }
+      break;
+    case 'matching':
+      if (!question.pairs || question.pairs.length < 2) {
+        issue('pairs', 'Matching questions need at least 2 pairs');
+      } else if (!distinct(question.pairs.map(pair => pair.left)) || !distinct(question.pairs.map(pair => pair.right))) {
+        issue('pairs', 'Each item may appear in only one pair');
+      }
+      break;
+    case 'ordering':
+      if (!question.items || question.items.length < 2) {
+        issue('items', 'Ordering questions need at least 2 items');
+      } else if (!distinct(question.items)) {
+        issue('items', 'Items must be distinct');
+      }
+      break;
+    case 'short_answer':
+      // Short answers written before rubrics existed are graded against their model answer
+      if (!question.rubric && !question.correctAnswer) {
+        issue('rubric', 'Describe what a full-credit answer must say');
+      }
+      break;
+  }
+});
+
+// Longest typed answer a learner can submit
+export const MAX_QUIZ_ANSWER_LENGTH = 2000;
+
+// A submitted attempt's answers, keyed by question index
+export const quizAnswersSchema = z.record(
+  z.string().regex(/^\d+$/),
+  z.union([z.string().max(MAX_QUIZ_ANSWER_LENGTH), z.array(z.string().max(MAX_QUIZ_ANSWER_LENGTH)).max(50)])
+);
+
+// Largest number of questions a bank-drawn attempt can hold
+export const MAX_BANK_DRAW_QUESTIONS = 50;
+
+export const quizBankDrawSchema: z.ZodType<QuizBankDraw> = z.object({
+  questionCount: z.number().int().min(1).max(MAX_BANK_DRAW_QUESTIONS),
+  minPerLesson: z.number().int().min(0).max(MAX_BANK_DRAW_QUESTIONS).optional(),
+  difficultyCounts: z.object({
+    easy: z.number().int().min(0),
+    medium: z.number().int().min(0),
+    hard: z.number().int().min(0),
+  }).partial().optional(),
+}).refine(
+  draw => Object.values(draw.difficultyCounts ?? {}).reduce((sum, count) => sum + (count ?? 0), 0) <= draw.questionCount,
+  { message: 'The difficulty counts add up to more than the question count', path: ['difficultyCounts'] }
+);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, createdAt: true });
+export const insertDocumentChunkSchema = createInsertSchema(documentChunks).omit({ id: true, createdAt: true });
 export const insertCourseTemplateSchema = createInsertSchema(courseTemplates).omit({ id: true, createdAt: true });
 export const insertCourseSchema = createInsertSchema(courses).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertCourseDocumentSchema = createInsertSchema(courseDocuments).omit({ id: true, createdAt: true });
-export const insertModuleSchema = createInsertSchema(modules).omit({ id: true, createdAt: true });
-export const insertLessonSchema = createInsertSchema(lessons).omit({ id: true, createdAt: true });
-export const insertQuizSchema = createInsertSchema(quizzes).omit({ id: true, createdAt: true });
+export const insertModuleSchema = createInsertSchema(modules, {
+  objectives: z.array(learningObjectiveSchema).optional(),
+}).omit({ id: true, createdAt: true });
+export const insertLessonSchema = createInsertSchema(lessons, {
+  objectives: z.array(learningObjectiveSchema).optional(),
+  grounding: lessonGroundingSchema.nullish(),
+}).omit({ id: true, createdAt: true });
+export const insertQuizSchema = createInsertSchema(quizzes, {
+  questions: z.array(quizQuestionSchema).min(1),
+  bankDraw: quizBankDrawSchema.nullish(),
+}).omit({ id: true, createdAt: true });
+// Creators edit the term and definition; the source reference only comes from generation
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms, {
+  term: z.string().trim().min(1).max(120),
+  definition: z.string().trim().min(1).max(2000),
+}).pick({ term: true, definition: true });
+export const insertFlashcardSchema = createInsertSchema(flashcards, {
+  front: z.string().trim().min(1).max(500),
+  back: z.string().trim().min(1).max(2000),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertQuestionBankItemSchema = createInsertSchema(questionBankItems, {
+  question: quizQuestionSchema,
+  difficulty: z.enum(QUESTION_DIFFICULTIES).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertFlashcardScheduleSchema = createInsertSchema(flashcardSchedules).omit({ id: true, firstReviewedAt: true });
 export const insertEnrollmentSchema = createInsertSchema(enrollments).omit({ id: true, enrolledAt: true });
 export const insertProgressSchema = createInsertSchema(progress).omit({ id: true });
-export const insertQuizAttemptSchema = createInsertSchema(quizAttempts).omit({ id: true, completedAt: true });
-export const insertAiProcessingJobSchema = createInsertSchema(aiProcessingJobs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertQuizAttemptSchema = createInsertSchema(quizAttempts, {
+  answers: quizAnswersSchema,
+  results: z.array(z.object({ credit: z.number().min(0).max(1), correct: z.boolean(), feedback: z.string().optional() })).nullish(),
+  questions: z.array(quizQuestionSchema).nullish(),
+}).omit({ id: true, completedAt: true });
+export const insertTutorMessageSchema = createInsertSchema(tutorMessages).omit({ id: true, createdAt: true });
+export const insertAiProcessingJobSchema = createInsertSchema(aiProcessingJobs, {
+  documentIds: z.array(z.string()).optional(),
+  options: z.record(z.any()).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true, progressDetail: true, validationStats: true });
+export const insertAiUsageEventSchema = createInsertSchema(aiUsageEvents).omit({ id: true, createdAt: true });
+export const insertGenerationCacheEntrySchema = createInsertSchema(generationCache, {
+  documentIds: z.array(z.string()),
+}).omit({ hits: true, createdAt: true, lastUsedAt: true });
 export const insertLearningMetricsSchema = createInsertSchema(learningMetrics).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDailyActivitySchema = createInsertSchema(dailyActivity).omit({ id: true, createdAt: true });
 
+// Course outline drafted before lessons are written; the creator may edit it before approving
+export const courseOutlineSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string(),
+  difficultyLevel: z.enum(['beginner', 'intermediate', 'advanced']),
+  modules: z.array(z.object({
+    title: z.string().trim().min(1),
+    description: z.string(),
+    objectives: z.array(generatedObjectiveSchema).optional(), // outlines drafted before objectives existed have none
+    lessons: z.array(z.object({
+      title: z.string().trim().min(1),
+      objective: z.string(),
+      estimatedDuration: z.number().int().min(1).max(600),
+      chunkLabels: z.array(z.string()), // source chunks the lesson is written from
+    })).min(1),
+  })).min(1),
+});
+
+// Analysis of a generation's source documents, shown to creators as document insights and fed into course structure generation
+export const documentAnalysisSchema = z.object({
+  summary: z.string().trim().min(1),
+  topics: z.array(z.string().trim().min(1)).min(1),
+  learningObjectives: z.array(z.string().trim().min(1)).min(1),
+  complexity: z.object({
+    level: z.enum(['beginner', 'intermediate', 'advanced']),
+    rationale: z.string(),
+  }),
+  keyConcepts: z.array(z.object({
+    term: z.string().trim().min(1),
+    explanation: z.string(),
+  })),
+  suggestedOutline: z.array(z.object({
+    title: z.string().trim().min(1),
+    topics: z.array(z.string()),
+  })).min(1),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 export type Document = typeof documents.$inferSelect;
+export type InsertDocumentChunk = z.infer<typeof insertDocumentChunkSchema>;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
 export type InsertCourseTemplate = z.infer<typeof insertCourseTemplateSchema>;
 export type CourseTemplate = typeof courseTemplates.$inferSelect;
 export type InsertCourse = z.infer<typeof insertCourseSchema>;
@@ -256,14 +808,35 @@ export type InsertLesson = z.infer<typeof insertLessonSchema>;
 export type Lesson = typeof lessons.$inferSelect;
 export type InsertQuiz = z.infer<typeof insertQuizSchema>;
 export type Quiz = typeof quizzes.$inferSelect;
+// A quiz as a learner takes it. Bank-drawn quizzes carry the learner's next draw and the seed to submit it with
+export type LearnerQuiz = Omit<Quiz, 'questions'> & { questions: LearnerQuizQuestion[]; seed?: number };
+export type InsertQuestionBankItem = z.infer<typeof insertQuestionBankItemSchema>;
+export type QuestionBankItem = typeof questionBankItems.$inferSelect;
+export type InsertGlossaryTerm = typeof glossaryTerms.$inferInsert;
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
+export type Flashcard = typeof flashcards.$inferSelect;
+export type InsertFlashcardSchedule = z.infer<typeof insertFlashcardScheduleSchema>;
+export type FlashcardSchedule = typeof flashcardSchedules.$inferSelect;
 export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
 export type Enrollment = typeof enrollments.$inferSelect;
 export type InsertProgress = z.infer<typeof insertProgressSchema>;
 export type Progress = typeof progress.$inferSelect;
 export type InsertQuizAttempt = z.infer<typeof insertQuizAttemptSchema>;
 export type QuizAttempt = typeof quizAttempts.$inferSelect;
+// An attempt as its learner sees it: the drawn questions carry answers, so they are left out
+export type LearnerQuizAttempt = Omit<QuizAttempt, 'questions'>;
+export type InsertTutorMessage = z.infer<typeof insertTutorMessageSchema>;
+export type TutorMessage = typeof tutorMessages.$inferSelect;
 export type InsertAiProcessingJob = z.infer<typeof insertAiProcessingJobSchema>;
 export type AiProcessingJob = typeof aiProcessingJobs.$inferSelect;
+export type CourseOutline = z.infer<typeof courseOutlineSchema>;
+export type DocumentAnalysis = z.infer<typeof documentAnalysisSchema>;
+export type GeneratedObjective = z.infer<typeof generatedObjectiveSchema>;
+export type InsertAiUsageEvent = z.infer<typeof insertAiUsageEventSchema>;
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertGenerationCacheEntry = z.infer<typeof insertGenerationCacheEntrySchema>;
+export type GenerationCacheEntry = typeof generationCache.$inferSelect;
 export type InsertLearningMetrics = z.infer<typeof insertLearningMetricsSchema>;
 export type LearningMetrics = typeof learningMetrics.$inferSelect;
 export type InsertDailyActivity = z.infer<typeof insertDailyActivitySchema>;